@@ -0,0 +1,307 @@
+// Composition Settings - Structured composition metadata stored with each project
+// Root.tsx is generated from rough-cut.project.json so tools never have to edit it by hand
+import { parse } from '@babel/parser';
+import _traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { getConfig } from './config.js';
+import { ProjectTransaction } from './project-transaction.js';
+
+// @babel/traverse is CommonJS with a default export
+const traverse = (_traverse as unknown as { default?: typeof _traverse }).default ?? _traverse;
+
+export const PROJECT_MANIFEST_FILE = 'rough-cut.project.json';
+
+export interface CompositionSettings {
+  id: string;
+  component: string; // file name in src/ without extension, also the import name
+  durationInFrames: number;
+  fps: number;
+  width: number;
+  height: number;
+  defaultProps?: Record<string, unknown>;
+}
+
+export interface ProjectManifest {
+  version: 1;
+  compositions: CompositionSettings[];
+}
+
+/**
+ * Settings a tool call may change - duration can be given in frames or seconds
+ */
+export interface CompositionSettingsInput {
+  id?: string;
+  durationInFrames?: number;
+  durationSeconds?: number;
+  fps?: number;
+  width?: number;
+  height?: number;
+  defaultProps?: Record<string, unknown>;
+}
+
+/**
+ * Settings for a new composition, from the configured defaults
+ */
+export function defaultCompositionSettings(): CompositionSettings {
+  const config = getConfig();
+  return {
+    id: 'Main',
+    component: 'VideoComposition',
+    durationInFrames: config.defaultDurationInFrames,
+    fps: config.defaultFps,
+    width: config.defaultWidth,
+    height: config.defaultHeight
+  };
+}
+
+// Remotion only allows letters, digits and dashes in composition ids
+export const COMPOSITION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Problems with a composition's settings, empty when Remotion will accept them
+ */
+export function validateCompositionSettings(settings: CompositionSettings): string[] {
+  const errors: string[] = [];
+
+  if (!COMPOSITION_ID_PATTERN.test(settings.id)) {
+    errors.push(`id '${settings.id}' may only contain letters, digits and '-'`);
+  }
+  if (!/^[A-Za-z_$][\w$]*$/.test(settings.component)) {
+    errors.push(`component '${settings.component}' must be a valid identifier`);
+  }
+  if (!Number.isInteger(settings.durationInFrames) || settings.durationInFrames <= 0) {
+    errors.push(`durationInFrames must be a positive integer (got ${settings.durationInFrames})`);
+  }
+  if (typeof settings.fps !== 'number' || !(settings.fps > 0) || settings.fps > 240) {
+    errors.push(`fps must be between 0 and 240 (got ${settings.fps})`);
+  }
+  if (settings.defaultProps !== undefined &&
+      (!settings.defaultProps || typeof settings.defaultProps !== 'object' || Array.isArray(settings.defaultProps))) {
+    errors.push('defaultProps must be an object');
+  }
+  for (const key of ['width', 'height'] as const) {
+    const value = settings[key];
+    if (!Number.isInteger(value) || value <= 0) {
+      errors.push(`${key} must be a positive integer (got ${value})`);
+    } else if (value % 2 !== 0) {
+      errors.push(`${key} must be even for H.264 encoding (got ${value})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Apply tool input on top of existing settings. Seconds are converted with the resulting fps;
+ * when only fps changes the frame count is kept.
+ */
+export function applyCompositionSettings(base: CompositionSettings, input: CompositionSettingsInput): CompositionSettings {
+  if (input.durationInFrames !== undefined && input.durationSeconds !== undefined) {
+    throw new Error('Use either durationInFrames or durationSeconds, not both');
+  }
+
+  const settings: CompositionSettings = {
+    ...base,
+    id: input.id ?? base.id,
+    fps: input.fps ?? base.fps,
+    width: input.width ?? base.width,
+    height: input.height ?? base.height,
+    durationInFrames: input.durationInFrames ?? base.durationInFrames,
+    defaultProps: input.defaultProps ?? base.defaultProps
+  };
+  if (input.durationSeconds !== undefined) {
+    if (typeof input.durationSeconds !== 'number' || !(input.durationSeconds > 0)) {
+      throw new Error(`durationSeconds must be a positive number (got ${input.durationSeconds})`);
+    }
+    settings.durationInFrames = Math.max(1, Math.round(input.durationSeconds * settings.fps));
+  }
+
+  const errors = validateCompositionSettings(settings);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return settings;
+}
+
+/**
+ * Read <Composition> elements from a hand-written Root.tsx (projects created before the manifest existed)
+ */
+export function parseRootCompositions(source: string): CompositionSettings[] {
+  const ast = parse(source, { sourceType: 'module', plugins: ['typescript', 'jsx'] });
+  const defaults = defaultCompositionSettings();
+  const imports = new Map<string, string>();
+  const compositions: CompositionSettings[] = [];
+
+  for (const node of ast.program.body) {
+    if (t.isImportDeclaration(node) && node.source.value.startsWith('./')) {
+      for (const specifier of node.specifiers) {
+        imports.set(specifier.local.name, path.posix.basename(node.source.value).replace(/\.(tsx?|jsx?)$/, ''));
+      }
+    }
+  }
+
+  traverse(ast, {
+    JSXOpeningElement(elementPath) {
+      if (!t.isJSXIdentifier(elementPath.node.name, { name: 'Composition' })) return;
+
+      // Only literal values can be recovered - anything computed falls back to the defaults
+      const attributes: Record<string, string | number> = {};
+      for (const attribute of elementPath.node.attributes) {
+        if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) continue;
+        const value = t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value;
+        if (t.isStringLiteral(value) || t.isNumericLiteral(value)) {
+          attributes[attribute.name.name] = value.value;
+        } else if (t.isIdentifier(value)) {
+          attributes[attribute.name.name] = value.name;
+        }
+      }
+
+      compositions.push({
+        id: typeof attributes.id === 'string' ? attributes.id : defaults.id,
+        component: typeof attributes.component === 'string' ? imports.get(attributes.component) ?? attributes.component : defaults.component,
+        durationInFrames: typeof attributes.durationInFrames === 'number' ? attributes.durationInFrames : defaults.durationInFrames,
+        fps: typeof attributes.fps === 'number' ? attributes.fps : defaults.fps,
+        width: typeof attributes.width === 'number' ? attributes.width : defaults.width,
+        height: typeof attributes.height === 'number' ? attributes.height : defaults.height
+      });
+    }
+  });
+
+  return compositions;
+}
+
+/**
+ * The project's compositions - from the manifest, or recovered from Root.tsx for older projects
+ */
+export async function readProjectManifest(projectPath: string): Promise<ProjectManifest> {
+  const manifestPath = path.join(projectPath, PROJECT_MANIFEST_FILE);
+  if (await fs.pathExists(manifestPath)) {
+    const manifest = await fs.readJson(manifestPath);
+    if (!manifest || !Array.isArray(manifest.compositions)) {
+      throw new Error(`${PROJECT_MANIFEST_FILE} is missing its compositions list`);
+    }
+    // A hand-edited manifest must not reach Root.tsx generation or the Remotion CLI unchecked
+    const ids = new Set<string>();
+    manifest.compositions.forEach((composition: CompositionSettings, index: number) => {
+      const errors = composition && typeof composition === 'object' && !Array.isArray(composition)
+        ? validateCompositionSettings(composition)
+        : ['must be an object'];
+      if (errors.length === 0 && ids.has(composition.id)) {
+        errors.push(`id '${composition.id}' is used twice`);
+      }
+      if (errors.length > 0) {
+        throw new Error(`${PROJECT_MANIFEST_FILE}: composition ${index + 1} is invalid - ${errors.join('; ')}`);
+      }
+      ids.add(composition.id);
+    });
+    return manifest as ProjectManifest;
+  }
+
+  const rootPath = path.join(projectPath, 'src', 'Root.tsx');
+  if (!await fs.pathExists(rootPath)) {
+    throw new Error(`No ${PROJECT_MANIFEST_FILE} or src/Root.tsx found in ${projectPath}`);
+  }
+  const compositions = parseRootCompositions(await fs.readFile(rootPath, 'utf-8'));
+  if (compositions.length === 0) {
+    throw new Error('src/Root.tsx does not register any <Composition>');
+  }
+  return { version: 1, compositions };
+}
+
+/**
+ * Composition by id; throws listing the available ids when it does not exist
+ */
+export function findComposition(manifest: ProjectManifest, id: string): CompositionSettings {
+  const composition = manifest.compositions.find(candidate => candidate.id === id);
+  if (!composition) {
+    throw new Error(`Composition '${id}' not found (available: ${manifest.compositions.map(candidate => candidate.id).join(', ')})`);
+  }
+  return composition;
+}
+
+/**
+ * Component file name for a new composition id, e.g. "Short-9x16" -> "Short9x16Composition"
+ */
+export function componentNameForId(manifest: ProjectManifest, id: string): string {
+  let base = id.split('-').filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+  if (/^\d/.test(base)) {
+    base = `C${base}`;
+  }
+  if (!base.endsWith('Composition')) {
+    base += 'Composition';
+  }
+
+  const taken = new Set(manifest.compositions.map(composition => composition.component));
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  return name;
+}
+
+export function componentFilePath(projectPath: string, composition: CompositionSettings): string {
+  return path.join(projectPath, 'src', `${composition.component}.tsx`);
+}
+
+/**
+ * Root.tsx source registering every composition in the manifest
+ */
+export function generateRootTsx(manifest: ProjectManifest): string {
+  const components = [...new Set(manifest.compositions.map(composition => composition.component))];
+  const imports = components.map(component => `import ${component} from './${component}';`).join('\n');
+  const elements = manifest.compositions.map(composition => {
+    const defaultProps = composition.defaultProps && Object.keys(composition.defaultProps).length > 0
+      ? `\n        defaultProps={${JSON.stringify(composition.defaultProps)}}`
+      : '';
+    return `      <Composition
+        id="${composition.id}"
+        component={${composition.component}}
+        durationInFrames={${composition.durationInFrames}}
+        fps={${composition.fps}}
+        width={${composition.width}}
+        height={${composition.height}}${defaultProps}
+      />`;
+  }).join('\n');
+
+  return `// Generated from ${PROJECT_MANIFEST_FILE} - change settings with update-composition-settings
+import React from 'react';
+import { Composition } from 'remotion';
+${imports}
+
+export const Root: React.FC = () => {
+  return (
+    <>
+${elements}
+    </>
+  );
+};
+`;
+}
+
+/**
+ * Save the manifest and regenerate Root.tsx from it. Pass a transaction to commit them together with other files.
+ */
+export async function writeProjectManifest(projectPath: string, manifest: ProjectManifest, transaction?: ProjectTransaction): Promise<void> {
+  const ids = manifest.compositions.map(composition => composition.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new Error(`Composition id '${duplicate}' is used more than once`);
+  }
+
+  const target = transaction || new ProjectTransaction(projectPath);
+  target.write(PROJECT_MANIFEST_FILE, `${JSON.stringify(manifest, null, 2)}\n`);
+  target.write('src/Root.tsx', generateRootTsx(manifest));
+  if (!transaction) {
+    await target.commit();
+  }
+}
+
+/**
+ * One-line summary like "Main: 1920x1080 @ 30fps, 300 frames (10.00s) - src/VideoComposition.tsx"
+ */
+export function formatCompositionSettings(composition: CompositionSettings): string {
+  const seconds = (composition.durationInFrames / composition.fps).toFixed(2);
+  return `${composition.id}: ${composition.width}x${composition.height} @ ${composition.fps}fps, ${composition.durationInFrames} frames (${seconds}s) - src/${composition.component}.tsx`;
+}
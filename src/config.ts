@@ -0,0 +1,331 @@
+// Configuration - Resolves settings from CLI args, env vars, a config file and per-OS defaults
+// Precedence: CLI > environment > rough-cut.config.json > defaults
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+export interface RoughCutConfig {
+  assetsDir: string;
+  projectsDir: string;
+  studioPortRange: PortRange;
+  defaultFps: number;
+  defaultWidth: number;
+  defaultHeight: number;
+  defaultDurationInFrames: number;
+  remotionVersion: string;
+  trashRetentionDays: number;
+  installTimeoutMinutes: number;
+  maxRenderJobs: number;
+}
+
+export type ConfigKey = keyof RoughCutConfig;
+export type ConfigSource = 'cli' | 'env' | 'file' | 'default';
+
+export interface ConfigEntry {
+  key: ConfigKey;
+  value: RoughCutConfig[ConfigKey];
+  source: ConfigSource;
+}
+
+export const CONFIG_FILE_NAME = 'rough-cut.config.json';
+const APP_DIR_NAME = 'rough-cut-mcp';
+
+export const CONFIG_KEYS: ConfigKey[] = [
+  'assetsDir',
+  'projectsDir',
+  'studioPortRange',
+  'defaultFps',
+  'defaultWidth',
+  'defaultHeight',
+  'defaultDurationInFrames',
+  'remotionVersion',
+  'trashRetentionDays',
+  'installTimeoutMinutes',
+  'maxRenderJobs'
+];
+
+const ENV_VARS: Record<ConfigKey, string> = {
+  assetsDir: 'REMOTION_ASSETS_DIR',
+  projectsDir: 'ROUGHCUT_PROJECTS_DIR',
+  studioPortRange: 'ROUGHCUT_PORT_RANGE',
+  defaultFps: 'ROUGHCUT_DEFAULT_FPS',
+  defaultWidth: 'ROUGHCUT_DEFAULT_WIDTH',
+  defaultHeight: 'ROUGHCUT_DEFAULT_HEIGHT',
+  defaultDurationInFrames: 'ROUGHCUT_DEFAULT_DURATION',
+  remotionVersion: 'ROUGHCUT_REMOTION_VERSION',
+  trashRetentionDays: 'ROUGHCUT_TRASH_RETENTION_DAYS',
+  installTimeoutMinutes: 'ROUGHCUT_INSTALL_TIMEOUT',
+  maxRenderJobs: 'REMOTION_MAX_RENDER_JOBS'
+};
+
+const CLI_FLAGS: Record<ConfigKey, string> = {
+  assetsDir: '--assets-dir',
+  projectsDir: '--projects-dir',
+  studioPortRange: '--port-range',
+  defaultFps: '--fps',
+  defaultWidth: '--width',
+  defaultHeight: '--height',
+  defaultDurationInFrames: '--duration',
+  remotionVersion: '--remotion-version',
+  trashRetentionDays: '--trash-retention-days',
+  installTimeoutMinutes: '--install-timeout',
+  maxRenderJobs: '--max-render-jobs'
+};
+
+/**
+ * Per-user config directory (%APPDATA%, ~/Library/Application Support or $XDG_CONFIG_HOME)
+ */
+export function getUserConfigDir(platform: NodeJS.Platform = process.platform, env: NodeJS.ProcessEnv = process.env): string {
+  const home = os.homedir();
+  if (platform === 'win32') {
+    return path.join(env.APPDATA || path.join(home, 'AppData', 'Roaming'), APP_DIR_NAME);
+  }
+  if (platform === 'darwin') {
+    return path.join(home, 'Library', 'Application Support', APP_DIR_NAME);
+  }
+  return path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), APP_DIR_NAME);
+}
+
+/**
+ * Per-user data directory used as the default assets root
+ * (%APPDATA%, ~/Library/Application Support or $XDG_DATA_HOME)
+ */
+export function getUserDataDir(platform: NodeJS.Platform = process.platform, env: NodeJS.ProcessEnv = process.env): string {
+  const home = os.homedir();
+  if (platform === 'win32') {
+    return path.join(env.APPDATA || path.join(home, 'AppData', 'Roaming'), APP_DIR_NAME);
+  }
+  if (platform === 'darwin') {
+    return path.join(home, 'Library', 'Application Support', APP_DIR_NAME);
+  }
+  return path.join(env.XDG_DATA_HOME || path.join(home, '.local', 'share'), APP_DIR_NAME);
+}
+
+/**
+ * Location of rough-cut.config.json (override with --config or ROUGHCUT_CONFIG_FILE)
+ */
+export function getConfigFilePath(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): string {
+  return readCliFlag(argv, '--config') || env.ROUGHCUT_CONFIG_FILE || path.join(getUserConfigDir(), CONFIG_FILE_NAME);
+}
+
+function readCliFlag(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag && i + 1 < argv.length) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`${flag}=`)) {
+      return argv[i].slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+function parsePortRange(value: unknown): PortRange | undefined {
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    return match ? { start: parseInt(match[1], 10), end: parseInt(match[2], 10) } : undefined;
+  }
+  if (value && typeof value === 'object' && 'start' in value && 'end' in value) {
+    return { start: Number((value as PortRange).start), end: Number((value as PortRange).end) };
+  }
+  return undefined;
+}
+
+/**
+ * Convert a raw value (string from CLI/env, or JSON from the file) to a typed setting.
+ * Throws with a readable message when the value is invalid.
+ */
+export function parseConfigValue<K extends ConfigKey>(key: K, value: unknown): RoughCutConfig[K] {
+  switch (key) {
+    case 'assetsDir':
+    case 'projectsDir': {
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`${key} must be a non-empty path`);
+      }
+      return path.resolve(value.trim()) as RoughCutConfig[K];
+    }
+    case 'studioPortRange': {
+      const range = parsePortRange(value);
+      if (!range || !Number.isInteger(range.start) || !Number.isInteger(range.end) ||
+          range.start < 1024 || range.end > 65535 || range.end < range.start) {
+        throw new Error(`studioPortRange must be "start-end" between 1024 and 65535 (got ${JSON.stringify(value)})`);
+      }
+      return range as RoughCutConfig[K];
+    }
+    case 'defaultFps':
+    case 'defaultWidth':
+    case 'defaultHeight':
+    case 'defaultDurationInFrames':
+    case 'trashRetentionDays':
+    case 'installTimeoutMinutes':
+    case 'maxRenderJobs': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number) || number <= 0) {
+        throw new Error(`${key} must be a positive integer (got ${JSON.stringify(value)})`);
+      }
+      if ((key === 'defaultWidth' || key === 'defaultHeight') && number % 2 !== 0) {
+        throw new Error(`${key} must be even for H.264 encoding (got ${number})`);
+      }
+      return number as RoughCutConfig[K];
+    }
+    case 'remotionVersion': {
+      if (typeof value !== 'string' || !/^\d+\.\d+\.\d+$/.test(value.trim())) {
+        throw new Error(`remotionVersion must be an exact version like 4.0.340 (got ${JSON.stringify(value)})`);
+      }
+      return value.trim() as RoughCutConfig[K];
+    }
+  }
+  throw new Error(`Unknown setting '${key}'`);
+}
+
+function getDefaults(): RoughCutConfig {
+  const assetsDir = getUserDataDir();
+  return {
+    assetsDir,
+    projectsDir: path.join(assetsDir, 'projects'),
+    studioPortRange: { start: 6600, end: 6620 },
+    defaultFps: 30,
+    defaultWidth: 1920,
+    defaultHeight: 1080,
+    defaultDurationInFrames: 300,
+    remotionVersion: '4.0.340',
+    trashRetentionDays: 7,
+    installTimeoutMinutes: 10,
+    maxRenderJobs: 1
+  };
+}
+
+function readConfigFile(filePath: string, warnings: string[] = []): Partial<Record<ConfigKey, unknown>> {
+  try {
+    if (!fs.pathExistsSync(filePath)) {
+      return {};
+    }
+    const data = fs.readJsonSync(filePath);
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      return data;
+    }
+    warnings.push(`Ignoring ${filePath}: it does not contain a JSON object`);
+    return {};
+  } catch (error) {
+    // A broken config file must not stop the server - fall back to other sources
+    warnings.push(`Ignoring ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
+let resolved: ConfigEntry[] | null = null;
+let resolvedWarnings: string[] = [];
+
+/**
+ * Resolve every setting and remember where each value came from.
+ * Invalid values are skipped in favour of the next source and described in `warnings`.
+ */
+export function resolveConfig(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env, warnings: string[] = []): ConfigEntry[] {
+  const defaults = getDefaults();
+  const filePath = getConfigFilePath(argv, env);
+  const file = readConfigFile(filePath, warnings);
+  const entries: ConfigEntry[] = [];
+  const sourceName = (key: ConfigKey, source: ConfigSource): string =>
+    source === 'cli' ? CLI_FLAGS[key] : source === 'env' ? ENV_VARS[key] : `${key} in ${filePath}`;
+
+  for (const key of CONFIG_KEYS) {
+    const candidates: Array<[ConfigSource, unknown]> = [
+      ['cli', readCliFlag(argv, CLI_FLAGS[key])],
+      ['env', env[ENV_VARS[key]]],
+      ['file', file[key]]
+    ];
+
+    let entry: ConfigEntry = { key, value: defaults[key], source: 'default' };
+    for (const [source, raw] of candidates) {
+      if (raw === undefined || raw === '') continue;
+      try {
+        entry = { key, value: parseConfigValue(key, raw), source };
+        break;
+      } catch (error) {
+        // Invalid value in this source - report it and try the next one
+        warnings.push(`Ignoring ${sourceName(key, source)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    entries.push(entry);
+  }
+
+  // projectsDir follows assetsDir unless it was set explicitly
+  const assets = entries.find(entry => entry.key === 'assetsDir')!;
+  const projects = entries.find(entry => entry.key === 'projectsDir')!;
+  if (projects.source === 'default') {
+    projects.value = path.join(assets.value as string, 'projects');
+  }
+
+  return entries;
+}
+
+/**
+ * Resolved settings with their sources (cached until set-config changes them)
+ */
+export function getConfigEntries(): ConfigEntry[] {
+  if (!resolved) {
+    resolvedWarnings = [];
+    resolved = resolveConfig(process.argv, process.env, resolvedWarnings);
+  }
+  return resolved;
+}
+
+/**
+ * Invalid settings that were ignored while resolving (shown at startup and by get-status)
+ */
+export function getConfigWarnings(): string[] {
+  getConfigEntries();
+  return [...resolvedWarnings];
+}
+
+export function getConfig(): RoughCutConfig {
+  const config = {} as Record<ConfigKey, unknown>;
+  for (const entry of getConfigEntries()) {
+    config[entry.key] = entry.value;
+  }
+  return config as unknown as RoughCutConfig;
+}
+
+/**
+ * Write settings to rough-cut.config.json. `reset` removes keys so they fall back to defaults.
+ * Returns keys that are still overridden by a CLI flag or env var.
+ */
+export async function updateConfigFile(changes: Partial<Record<ConfigKey, unknown>>, reset: ConfigKey[] = []): Promise<{ filePath: string; shadowed: ConfigEntry[] }> {
+  const filePath = getConfigFilePath();
+  const current = readConfigFile(filePath);
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (!CONFIG_KEYS.includes(key as ConfigKey)) {
+      throw new Error(`Unknown setting '${key}' (valid: ${CONFIG_KEYS.join(', ')})`);
+    }
+    current[key as ConfigKey] = parseConfigValue(key as ConfigKey, value);
+  }
+  for (const key of reset) {
+    if (!CONFIG_KEYS.includes(key)) {
+      throw new Error(`Unknown setting '${key}' (valid: ${CONFIG_KEYS.join(', ')})`);
+    }
+    delete current[key];
+  }
+
+  await fs.ensureDir(path.dirname(filePath));
+  await fs.writeJson(filePath, current, { spaces: 2 });
+  resolved = null;
+
+  const touched = [...Object.keys(changes), ...reset];
+  const shadowed = getConfigEntries().filter(entry =>
+    touched.includes(entry.key) && (entry.source === 'cli' || entry.source === 'env'));
+
+  return { filePath, shadowed };
+}
+
+/**
+ * Env var and CLI flag names for a setting (shown by get-config)
+ */
+export function getConfigOverrideNames(key: ConfigKey): { env: string; cli: string } {
+  return { env: ENV_VARS[key], cli: CLI_FLAGS[key] };
+}
@@ -0,0 +1,366 @@
+// Project History - Snapshots of every write made through the MCP, with undo, redo and restore
+// Stored in <project>/.roughcut/history: index.json plus content-addressed blobs shared between versions
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { PROJECT_MANIFEST_FILE } from './compositions.js';
+import { listProjectFiles } from './project-info.js';
+import { ProjectTransaction } from './project-transaction.js';
+import { createUnifiedDiff } from './utils/diff.js';
+
+export const HISTORY_DIR = path.join('.roughcut', 'history');
+
+// Oldest versions are dropped beyond this, except the current one and the redo stack
+const MAX_VERSIONS = 200;
+
+// Tool name used for versions that capture edits made outside the MCP
+export const EXTERNAL_CHANGE_TOOL = 'external';
+
+export interface HistoryVersion {
+  id: number;
+  parent: number | null;
+  createdAt: string;
+  tool: string;
+  message: string;
+  files: Record<string, string>; // project-relative path -> blob hash
+  changed: string[];
+}
+
+export interface HistoryState {
+  head: number | null;
+  redo: number[];
+  versions: HistoryVersion[];
+}
+
+interface HistoryIndex extends HistoryState {
+  version: 1;
+  nextId: number;
+}
+
+type Snapshot = Map<string, Buffer>;
+
+export interface HistoryMove {
+  from: number | null;
+  to: HistoryVersion;
+  changed: string[];
+  captured: HistoryVersion | null; // outside edits saved before moving
+}
+
+/**
+ * Files covered by history: everything under src/ plus the project manifest
+ */
+async function trackedFiles(projectPath: string): Promise<string[]> {
+  const files = await listProjectFiles(path.join(projectPath, 'src'), 'src/');
+  if (await fs.pathExists(path.join(projectPath, PROJECT_MANIFEST_FILE))) {
+    files.push(PROJECT_MANIFEST_FILE);
+  }
+  return files;
+}
+
+function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function changedFiles(before: Record<string, string>, after: Record<string, string>): string[] {
+  const files = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...files].filter(file => before[file] !== after[file]).sort();
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+// Writes to one project's history are serialized; tool calls can overlap
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(projectPath: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(projectPath) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(projectPath, next);
+  next.finally(() => {
+    if (locks.get(projectPath) === next) locks.delete(projectPath);
+  }).catch(() => undefined);
+  return next;
+}
+
+export class ProjectHistory {
+  private dir: string;
+
+  constructor(private projectPath: string) {
+    this.dir = path.join(projectPath, HISTORY_DIR);
+  }
+
+  private async readIndex(): Promise<HistoryIndex> {
+    try {
+      return await fs.readJson(path.join(this.dir, 'index.json'));
+    } catch {
+      return { version: 1, nextId: 1, head: null, redo: [], versions: [] };
+    }
+  }
+
+  private async writeIndex(index: HistoryIndex): Promise<void> {
+    await fs.ensureDir(this.dir);
+    const file = path.join(this.dir, 'index.json');
+    await fs.writeJson(`${file}.tmp`, index, { spaces: 2 });
+    await fs.move(`${file}.tmp`, file, { overwrite: true });
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.dir, 'blobs', hash);
+  }
+
+  private async readBlob(hash: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.blobPath(hash));
+    } catch {
+      throw new Error(`History blob ${hash.slice(0, 12)} is missing - ${HISTORY_DIR} is damaged`);
+    }
+  }
+
+  private async snapshot(): Promise<Snapshot> {
+    const snapshot: Snapshot = new Map();
+    for (const file of await trackedFiles(this.projectPath)) {
+      snapshot.set(file, await fs.readFile(path.join(this.projectPath, file)));
+    }
+    return snapshot;
+  }
+
+  private async storeSnapshot(snapshot: Snapshot): Promise<Record<string, string>> {
+    const files: Record<string, string> = {};
+    for (const [file, content] of snapshot) {
+      const hash = hashContent(content);
+      if (!await fs.pathExists(this.blobPath(hash))) {
+        await fs.outputFile(this.blobPath(hash), content);
+      }
+      files[file] = hash;
+    }
+    return files;
+  }
+
+  private headFiles(index: HistoryIndex): Record<string, string> {
+    return index.versions.find(version => version.id === index.head)?.files || {};
+  }
+
+  /**
+   * Append a version if the files differ from the current one; a new version clears the redo stack
+   */
+  private async append(index: HistoryIndex, tool: string, message: string): Promise<HistoryVersion | null> {
+    const files = await this.storeSnapshot(await this.snapshot());
+    const changed = changedFiles(this.headFiles(index), files);
+    if (index.head !== null && changed.length === 0) return null;
+
+    const version: HistoryVersion = {
+      id: index.nextId++,
+      parent: index.head,
+      createdAt: new Date().toISOString(),
+      tool,
+      message,
+      files,
+      changed
+    };
+    index.versions.push(version);
+    index.head = version.id;
+    index.redo = [];
+    await this.prune(index);
+    await this.writeIndex(index);
+    return version;
+  }
+
+  /**
+   * Save edits made since the current version (in an editor, by the studio) so they are never overwritten unrecorded
+   */
+  private async captureExternal(index: HistoryIndex): Promise<HistoryVersion | null> {
+    return this.append(
+      index,
+      EXTERNAL_CHANGE_TOOL,
+      index.head === null ? 'State before the first recorded change' : 'Changes made outside the MCP'
+    );
+  }
+
+  private async prune(index: HistoryIndex): Promise<void> {
+    if (index.versions.length <= MAX_VERSIONS) return;
+
+    const keep = new Set([index.head, ...index.redo]);
+    const removable = index.versions.filter(version => !keep.has(version.id));
+    const dropped = new Set(removable.slice(0, index.versions.length - MAX_VERSIONS).map(version => version.id));
+    index.versions = index.versions.filter(version => !dropped.has(version.id));
+
+    const used = new Set(index.versions.flatMap(version => Object.values(version.files)));
+    const blobsDir = path.join(this.dir, 'blobs');
+    for (const hash of await fs.readdir(blobsDir).catch(() => [] as string[])) {
+      if (!used.has(hash)) await fs.remove(path.join(blobsDir, hash));
+    }
+  }
+
+  private async writeFiles(files: Record<string, string>): Promise<string[]> {
+    const current: Record<string, string> = {};
+    for (const [file, content] of await this.snapshot()) {
+      current[file] = hashContent(content);
+    }
+    const changed = changedFiles(current, files);
+    const transaction = new ProjectTransaction(this.projectPath);
+    for (const file of changed) {
+      if (files[file]) {
+        transaction.write(file, await this.readBlob(files[file]));
+      } else {
+        transaction.remove(file);
+      }
+    }
+    await transaction.commit();
+    return changed;
+  }
+
+  private findVersion(index: HistoryIndex, id: number): HistoryVersion {
+    const version = index.versions.find(candidate => candidate.id === id);
+    if (!version) {
+      const ids = index.versions.map(candidate => candidate.id);
+      throw new Error(ids.length === 0
+        ? 'This project has no history yet'
+        : `Version ${id} not found (available: ${ids[0]}-${ids[ids.length - 1]}, see list-versions)`);
+    }
+    return version;
+  }
+
+  /**
+   * Run a write and record its result as a new version. Outside edits are captured first, so they stay restorable.
+   */
+  record(tool: string, message: string, write: () => Promise<unknown>): Promise<HistoryVersion | null> {
+    return withLock(this.projectPath, async () => {
+      const index = await this.readIndex();
+      await this.captureExternal(index);
+      await write();
+      return this.append(index, tool, message);
+    });
+  }
+
+  /**
+   * Record the files as they are now, e.g. right after the project was created
+   */
+  checkpoint(tool: string, message: string): Promise<HistoryVersion | null> {
+    return withLock(this.projectPath, async () => this.append(await this.readIndex(), tool, message));
+  }
+
+  async state(): Promise<HistoryState> {
+    const { head, redo, versions } = await this.readIndex();
+    return { head, redo, versions };
+  }
+
+  /**
+   * Step back along the parent chain of the current version
+   */
+  undo(steps: number = 1): Promise<HistoryMove> {
+    return withLock(this.projectPath, async () => {
+      const index = await this.readIndex();
+      const captured = await this.captureExternal(index);
+      const from = index.head;
+
+      let target = this.findVersion(index, from!);
+      const passed: number[] = [];
+      for (let step = 0; step < steps; step++) {
+        const parent = target.parent === null ? undefined : index.versions.find(version => version.id === target.parent);
+        if (!parent) {
+          throw new Error(step === 0
+            ? `Nothing to undo - version ${target.id} is the oldest recorded state`
+            : `Only ${step} step(s) can be undone`);
+        }
+        passed.push(target.id);
+        target = parent;
+      }
+
+      const changed = await this.writeFiles(target.files);
+      index.head = target.id;
+      index.redo = [...index.redo, ...passed];
+      await this.writeIndex(index);
+      return { from, to: target, changed, captured };
+    });
+  }
+
+  /**
+   * Re-apply versions taken back by undo; any new write in between clears them
+   */
+  redo(steps: number = 1): Promise<HistoryMove> {
+    return withLock(this.projectPath, async () => {
+      const index = await this.readIndex();
+      const captured = await this.captureExternal(index);
+      if (index.redo.length === 0) {
+        throw new Error(captured
+          ? `Nothing to redo - changes made outside the MCP were saved as version ${captured.id} and replace the redo history`
+          : 'Nothing to redo');
+      }
+      if (steps > index.redo.length) {
+        throw new Error(`Only ${index.redo.length} step(s) can be redone`);
+      }
+
+      const from = index.head;
+      const targetId = index.redo[index.redo.length - steps];
+      const target = this.findVersion(index, targetId);
+      const changed = await this.writeFiles(target.files);
+      index.head = target.id;
+      index.redo = index.redo.slice(0, index.redo.length - steps);
+      await this.writeIndex(index);
+      return { from, to: target, changed, captured };
+    });
+  }
+
+  /**
+   * Bring back the files of any version, recorded as a new version on top of the current one
+   */
+  restore(id: number): Promise<HistoryMove> {
+    return withLock(this.projectPath, async () => {
+      const index = await this.readIndex();
+      const captured = await this.captureExternal(index);
+      const from = index.head;
+      const target = this.findVersion(index, id);
+
+      const changed = await this.writeFiles(target.files);
+      const version = await this.append(index, 'restore-version', `Restored version ${id}`);
+      return { from, to: version || target, changed, captured };
+    });
+  }
+
+  /**
+   * Unified diff between two versions; 'current' compares with the files on disk
+   */
+  async diff(from: number, to: number | 'current' = 'current', file?: string): Promise<string> {
+    const index = await this.readIndex();
+    const before = await this.contents(this.findVersion(index, from).files);
+    const after = to === 'current' ? await this.snapshot() : await this.contents(this.findVersion(index, to).files);
+
+    const files = [...new Set([...before.keys(), ...after.keys()])].sort()
+      .filter(candidate => !file || candidate === file);
+    if (file && files.length === 0) {
+      throw new Error(`File ${file} is not in either version`);
+    }
+
+    const diffs: string[] = [];
+    for (const candidate of files) {
+      const a = before.get(candidate);
+      const b = after.get(candidate);
+      if (a && b && a.equals(b)) continue;
+      if ((a && isBinary(a)) || (b && isBinary(b))) {
+        diffs.push(`Binary file ${candidate} ${!a ? 'added' : !b ? 'deleted' : 'changed'}`);
+        continue;
+      }
+      const text = createUnifiedDiff(candidate, a?.toString('utf-8') ?? '', b?.toString('utf-8') ?? '');
+      // Added and deleted files are marked like git does
+      diffs.push(!a ? text.replace(`--- a/${candidate}`, '--- /dev/null') : !b ? text.replace(`+++ b/${candidate}`, '+++ /dev/null') : text);
+    }
+    return diffs.join('\n');
+  }
+
+  private async contents(files: Record<string, string>): Promise<Snapshot> {
+    const snapshot: Snapshot = new Map();
+    for (const [file, hash] of Object.entries(files)) {
+      snapshot.set(file, await this.readBlob(hash));
+    }
+    return snapshot;
+  }
+}
+
+/**
+ * One-line summary like "#4 2024-05-01 12:00:00 edit-video-jsx - Edited src/VideoComposition.tsx (1 file)"
+ */
+export function formatVersion(version: HistoryVersion): string {
+  const time = version.createdAt.replace('T', ' ').replace(/\.\d+Z$/, '');
+  return `#${version.id} ${time} ${version.tool} - ${version.message} (${version.changed.length} file${version.changed.length === 1 ? '' : 's'})`;
+}
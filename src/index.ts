@@ -6,17 +6,38 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { 
   CallToolRequestSchema, 
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   InitializeRequestSchema,
-  InitializedNotificationSchema 
+  InitializedNotificationSchema,
+  SetLevelRequestSchema,
+  LoggingLevel
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { getConfigWarnings } from './config.js';
 import { getTools, handleToolCall } from './tools.js';
+import { listPrompts, getPrompt } from './prompts.js';
+import { listResources, readResource, ResourceSubscriptions, RESOURCE_TEMPLATES } from './resources.js';
+import { getStudioSupervisor } from './studio-supervisor.js';
+import { getStudioWatchdog, StudioEvent } from './studio-watchdog.js';
+
+const CAPABILITIES = { tools: {}, prompts: {}, resources: { subscribe: true }, logging: {} };
+
+// Most to least verbose, as defined by the protocol
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
 
 /**
  * Simple MCP Server - No layers, no registries, just working tools
  */
 class SimpleMCPServer {
   private server: Server;
+  private subscriptions: ResourceSubscriptions;
+  private logLevel: LoggingLevel = 'info';
 
   constructor() {
     this.server = new Server({
@@ -24,8 +45,20 @@ class SimpleMCPServer {
       version: '4.8.0',
       description: 'Simple & Reliable Video Creation MCP - Actually Works!'
     }, {
-      capabilities: { tools: {} }
+      capabilities: CAPABILITIES
+    });
+
+    this.subscriptions = new ResourceSubscriptions(uri => {
+      this.server.sendResourceUpdated({ uri }).catch(() => {
+        // Client went away - nothing to notify
+      });
     });
+    this.server.onclose = () => {
+      this.subscriptions.close();
+      getStudioWatchdog().stop();
+      // Studios are owned by this server; nothing would track them after it exits
+      getStudioSupervisor().stopAll().catch(() => {});
+    };
 
     this.setupHandlers();
   }
@@ -35,7 +68,7 @@ class SimpleMCPServer {
     this.server.setRequestHandler(InitializeRequestSchema, async () => {
       return {
         protocolVersion: '2025-06-18',
-        capabilities: { tools: {} },
+        capabilities: CAPABILITIES,
         serverInfo: {
           name: 'rough-cut-mcp',
           version: '4.8.0',
@@ -71,11 +104,69 @@ class SimpleMCPServer {
         };
       }
     });
+
+    // List prompts
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: listPrompts() };
+    });
+
+    // Get prompt
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return getPrompt(request.params.name, request.params.arguments || {});
+    });
+
+    // List resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: await listResources() };
+    });
+
+    // List resource templates
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    // Read resource
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return { contents: await readResource(request.params.uri) };
+    });
+
+    // Subscribe to resource changes
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    // Unsubscribe
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    // Minimum level of logging notifications
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevel = request.params.level;
+      return {};
+    });
+  }
+
+  /**
+   * Studio crashes and restarts reach the client as logging notifications
+   */
+  private notifyStudioEvent(event: StudioEvent) {
+    if (LOGGING_LEVELS.indexOf(event.level) < LOGGING_LEVELS.indexOf(this.logLevel)) return;
+    this.server.sendLoggingMessage({ level: event.level, logger: 'studio', data: { project: event.project, message: event.message } }).catch(() => {
+      // Client went away - nothing to notify
+    });
   }
 
   start() {
+    // stdout carries the protocol - stderr ends up in the client's server log
+    for (const warning of getConfigWarnings()) {
+      console.error(`rough-cut-mcp config warning: ${warning}`);
+    }
     const transport = new StdioServerTransport();
     this.server.connect(transport);
+    getStudioWatchdog().start(event => this.notifyStudioEvent(event));
   }
 }
 
@@ -0,0 +1,161 @@
+// Remotion Lint Engine - Runs the rule set over composition source and applies autofixes
+import { parse } from '@babel/parser';
+import type { File } from '@babel/types';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { LintEdit, LintFinding, LintRule } from './types.js';
+import { REMOTION_LINT_RULES } from './rules.js';
+import { ProjectTransaction } from '../project-transaction.js';
+
+export type { LintEdit, LintFinding, LintRule, LintSeverity } from './types.js';
+export { REMOTION_LINT_RULES } from './rules.js';
+
+export interface LintOptions {
+  /**
+   * Rule ids to run (default: all)
+   */
+  rules?: string[];
+}
+
+export interface FileLintResult {
+  file: string; // relative to the project, forward slashes
+  findings: LintFinding[];
+  fixed: LintFinding[];
+}
+
+// Fixes can touch the same code (e.g. two calls adding one import), so apply in passes
+const MAX_FIX_PASSES = 5;
+
+/**
+ * Rules selected by id; throws on an unknown id so typos are not silently ignored
+ */
+export function selectLintRules(ids?: string[]): LintRule[] {
+  if (!ids || ids.length === 0) {
+    return REMOTION_LINT_RULES;
+  }
+  return ids.map(id => {
+    const rule = REMOTION_LINT_RULES.find(candidate => candidate.id === id);
+    if (!rule) {
+      throw new Error(`Unknown lint rule '${id}' (valid: ${REMOTION_LINT_RULES.map(candidate => candidate.id).join(', ')})`);
+    }
+    return rule;
+  });
+}
+
+/**
+ * Lint an already parsed file (JSXValidator reuses its own parse)
+ */
+export function lintAst(ast: File, source: string, options: LintOptions = {}): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  for (const rule of selectLintRules(options.rules)) {
+    for (const report of rule.check(ast, source)) {
+      findings.push({
+        ruleId: rule.id,
+        severity: rule.severity,
+        message: report.message,
+        line: report.node.loc?.start.line ?? 1,
+        column: (report.node.loc?.start.column ?? 0) + 1,
+        fix: report.fix
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Lint source text. Code that does not parse yields no findings - syntax errors are JSXValidator's job.
+ */
+export function lintSource(source: string, options: LintOptions = {}): LintFinding[] {
+  let ast: File;
+  try {
+    ast = parse(source, { sourceType: 'module', plugins: ['typescript', 'jsx'] });
+  } catch {
+    return [];
+  }
+  return lintAst(ast, source, options);
+}
+
+function overlaps(a: LintEdit, b: LintEdit): boolean {
+  return a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * Apply the fixes of as many findings as possible without overlapping edits
+ */
+export function applyLintFixes(source: string, findings: LintFinding[]): { output: string; applied: LintFinding[] } {
+  const accepted: LintEdit[] = [];
+  const applied: LintFinding[] = [];
+
+  for (const finding of findings) {
+    if (!finding.fix || finding.fix.some(edit => accepted.some(other => overlaps(edit, other)))) continue;
+    accepted.push(...finding.fix);
+    applied.push(finding);
+  }
+
+  let output = source;
+  for (const edit of accepted.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+  }
+
+  return { output, applied };
+}
+
+/**
+ * Lint and autofix until nothing fixable is left
+ */
+export function fixSource(source: string, options: LintOptions = {}): { output: string; fixed: LintFinding[]; remaining: LintFinding[] } {
+  const fixed: LintFinding[] = [];
+  let output = source;
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const { output: next, applied } = applyLintFixes(output, lintSource(output, options));
+    if (applied.length === 0) break;
+    fixed.push(...applied);
+    output = next;
+  }
+
+  return { output, fixed, remaining: lintSource(output, options) };
+}
+
+async function findSourceFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && entry.name !== 'node_modules') {
+      files.push(...await findSourceFiles(fullPath));
+    } else if (entry.isFile() && /\.(tsx?|jsx?)$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Lint every source file under the project's src/ directory, optionally writing autofixes (all files in one transaction)
+ */
+export async function lintProject(projectPath: string, options: LintOptions & { fix?: boolean } = {}): Promise<FileLintResult[]> {
+  selectLintRules(options.rules);
+
+  const results: FileLintResult[] = [];
+  const transaction = new ProjectTransaction(projectPath);
+  for (const fullPath of await findSourceFiles(path.join(projectPath, 'src'))) {
+    const source = await fs.readFile(fullPath, 'utf-8');
+    const file = path.relative(projectPath, fullPath).split(path.sep).join('/');
+
+    if (!options.fix) {
+      results.push({ file, findings: lintSource(source, options), fixed: [] });
+      continue;
+    }
+
+    const { output, fixed, remaining } = fixSource(source, options);
+    if (output !== source) {
+      transaction.write(file, output);
+    }
+    results.push({ file, findings: remaining, fixed });
+  }
+
+  await transaction.commit();
+  return results;
+}
@@ -0,0 +1,354 @@
+// Remotion Lint Rules - Catch code that parses fine but crashes or flickers in Remotion
+// Rebuilt from the old interpolation/easing validators as AST checks that report instead of rewriting
+import _traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { LintEdit, LintReport, LintRule } from './types.js';
+
+// @babel/traverse is CommonJS with a default export
+const traverse = (_traverse as unknown as { default?: typeof _traverse }).default ?? _traverse;
+
+/**
+ * Easing members in Remotion 4
+ */
+const VALID_EASINGS = new Set([
+  'step0', 'step1', 'linear', 'ease', 'quad', 'cubic', 'sin', 'circle', 'exp', 'bounce',
+  'poly', 'elastic', 'back', 'bezier', 'in', 'out', 'inOut'
+]);
+
+/**
+ * Easings that are factories and must be called, with a usage hint
+ */
+const EASING_FACTORIES: Record<string, string> = {
+  poly: 'Easing.poly(n)',
+  elastic: 'Easing.elastic(bounciness)',
+  back: 'Easing.back(s)',
+  bezier: 'Easing.bezier(x1, y1, x2, y2)',
+  in: 'Easing.in(Easing.quad)',
+  out: 'Easing.out(Easing.quad)',
+  inOut: 'Easing.inOut(Easing.quad)'
+};
+
+/**
+ * Common wrong names (CSS and other animation libraries) and their Remotion equivalents
+ */
+const EASING_CORRECTIONS: Record<string, string> = {
+  sine: 'sin',
+  cosine: 'sin',
+  cos: 'sin',
+  quadratic: 'quad',
+  circ: 'circle',
+  expo: 'exp',
+  cubicBezier: 'bezier',
+  easeIn: 'in',
+  easeOut: 'out',
+  easeInOut: 'inOut'
+};
+
+const NAMED_COLORS = /^(red|blue|green|yellow|orange|purple|pink|black|white|gray|grey|brown|cyan|magenta|transparent)$/i;
+
+function isColorString(node: t.Node | null): boolean {
+  if (!t.isStringLiteral(node)) {
+    return false;
+  }
+  const value = node.value.trim();
+  return /^#[0-9a-fA-F]{3,8}$/.test(value) || /^(rgb|hsl)a?\(/i.test(value) || NAMED_COLORS.test(value);
+}
+
+/**
+ * `CSSProperties` or `React.CSSProperties`
+ */
+function isCssPropertiesType(node: t.Node | null | undefined): boolean {
+  if (!t.isTSTypeReference(node)) {
+    return false;
+  }
+  const name = node.typeName;
+  return t.isIdentifier(name, { name: 'CSSProperties' }) ||
+    (t.isTSQualifiedName(name) && t.isIdentifier(name.left, { name: 'React' }) && t.isIdentifier(name.right, { name: 'CSSProperties' }));
+}
+
+/**
+ * Type annotation of a `const x: Type = ...` declarator, if any
+ */
+function declaredType(node: t.Node | null | undefined): t.Node | null {
+  if (!t.isVariableDeclarator(node) || !t.isIdentifier(node.id) || !t.isTSTypeAnnotation(node.id.typeAnnotation)) {
+    return null;
+  }
+  return node.id.typeAnnotation.typeAnnotation;
+}
+
+/**
+ * Whether an object literal is CSS: the value of a style={{...}} attribute, or typed as React.CSSProperties
+ * (directly, with `as`/`satisfies`, or as a value of a Record<string, React.CSSProperties>)
+ */
+function isStyleObject(path: NodePath<t.ObjectExpression>): boolean {
+  const parent = path.parentPath;
+  if (parent?.isJSXExpressionContainer() && parent.parentPath?.isJSXAttribute()) {
+    return t.isJSXIdentifier(parent.parentPath.node.name, { name: 'style' });
+  }
+  if (parent?.isTSAsExpression() || parent?.isTSSatisfiesExpression()) {
+    return isCssPropertiesType(parent.node.typeAnnotation);
+  }
+  if (isCssPropertiesType(declaredType(parent?.node))) {
+    return true;
+  }
+  // { title: { ... } } in a Record<string, React.CSSProperties>
+  const outer = parent?.isObjectProperty() ? parent.parentPath?.parentPath : null;
+  const recordType = declaredType(outer?.node);
+  return t.isTSTypeReference(recordType) && t.isIdentifier(recordType.typeName, { name: 'Record' }) &&
+    isCssPropertiesType(recordType.typeParameters?.params[1]);
+}
+
+function isCallTo(node: t.CallExpression, name: string): boolean {
+  return t.isIdentifier(node.callee, { name });
+}
+
+/**
+ * Value of a numeric literal, including negative ones; null for anything else
+ */
+function numericValue(node: t.Node | null): number | null {
+  if (t.isNumericLiteral(node)) {
+    return node.value;
+  }
+  if (t.isUnaryExpression(node, { operator: '-' }) && t.isNumericLiteral(node.argument)) {
+    return -node.argument.value;
+  }
+  return null;
+}
+
+function isStrictlyIncreasing(values: number[]): boolean {
+  return values.every((value, i) => i === 0 || value > values[i - 1]);
+}
+
+/**
+ * Edit that adds a named import from 'remotion', or null if it is already imported
+ */
+function remotionImportEdit(ast: t.File, name: string): LintEdit | null {
+  const declaration = ast.program.body.find((node): node is t.ImportDeclaration =>
+    t.isImportDeclaration(node) && node.source.value === 'remotion' && node.importKind !== 'type');
+
+  if (!declaration) {
+    return { start: 0, end: 0, text: `import { ${name} } from 'remotion';\n` };
+  }
+
+  const named = declaration.specifiers.filter((specifier): specifier is t.ImportSpecifier => t.isImportSpecifier(specifier));
+  if (named.some(specifier => t.isIdentifier(specifier.local, { name }))) {
+    return null;
+  }
+  if (named.length === 0) {
+    return { start: declaration.start!, end: declaration.start!, text: `import { ${name} } from 'remotion';\n` };
+  }
+
+  return { start: named[named.length - 1].end!, end: named[named.length - 1].end!, text: `, ${name}` };
+}
+
+const interpolateMonotonicInput: LintRule = {
+  id: 'interpolate-monotonic-input',
+  severity: 'error',
+  description: 'interpolate() inputRange must be strictly increasing - Remotion throws otherwise',
+  fixable: true,
+  check(ast, source) {
+    const reports: LintReport[] = [];
+
+    traverse(ast, {
+      CallExpression(path) {
+        const node = path.node;
+        if (!isCallTo(node, 'interpolate') && !isCallTo(node, 'interpolateColors')) return;
+
+        const inputRange = node.arguments[1];
+        if (!t.isArrayExpression(inputRange)) return;
+
+        const values = inputRange.elements.map(numericValue);
+        if (values.some(value => value === null)) return;
+        const input = values as number[];
+        if (isStrictlyIncreasing(input)) return;
+
+        // Sort input/output pairs together so each keyframe keeps its value, then bump duplicates
+        const outputRange = node.arguments[2];
+        const outputs = t.isArrayExpression(outputRange) && outputRange.elements.length === input.length
+          ? outputRange.elements.map(element => source.slice(element!.start!, element!.end!))
+          : null;
+        const order = input.map((_, i) => i).sort((a, b) => input[a] - input[b]);
+        const reordered = order.some((index, i) => index !== i);
+
+        const corrected = order.map(index => input[index]);
+        for (let i = 1; i < corrected.length; i++) {
+          if (corrected[i] <= corrected[i - 1]) {
+            corrected[i] = corrected[i - 1] + 1;
+          }
+        }
+
+        const fix: LintEdit[] = [{ start: inputRange.start!, end: inputRange.end!, text: `[${corrected.join(', ')}]` }];
+        if (reordered && outputs) {
+          fix.push({ start: outputRange.start!, end: outputRange.end!, text: `[${order.map(index => outputs[index]).join(', ')}]` });
+        }
+
+        reports.push({
+          node: inputRange,
+          message: `inputRange [${input.join(', ')}] must be strictly increasing - use [${corrected.join(', ')}]`,
+          // Without a literal outputRange we cannot keep keyframes paired, so only fix duplicates
+          fix: reordered && !outputs ? undefined : fix
+        });
+      }
+    });
+
+    return reports;
+  }
+};
+
+const interpolateColorOutput: LintRule = {
+  id: 'interpolate-color-output',
+  severity: 'error',
+  description: 'Colours must be animated with interpolateColors() - interpolate() only accepts numbers',
+  fixable: true,
+  check(ast) {
+    const reports: LintReport[] = [];
+
+    traverse(ast, {
+      CallExpression(path) {
+        const node = path.node;
+        if (!isCallTo(node, 'interpolate')) return;
+
+        const [input, inputRange, outputRange, options] = node.arguments;
+        if (!t.isArrayExpression(outputRange) || !outputRange.elements.some(isColorString)) return;
+
+        // interpolateColors takes no options argument
+        const fix: LintEdit[] = [{ start: node.callee.start!, end: node.callee.end!, text: 'interpolateColors' }];
+        if (options) {
+          fix.push({ start: outputRange.end!, end: options.end!, text: '' });
+        }
+        const importEdit = remotionImportEdit(ast, 'interpolateColors');
+        if (importEdit) {
+          fix.push(importEdit);
+        }
+
+        reports.push({
+          node,
+          message: 'interpolate() cannot animate colours - use interpolateColors(frame, inputRange, colors)',
+          fix: input && inputRange ? fix : undefined
+        });
+      }
+    });
+
+    return reports;
+  }
+};
+
+const validEasing: LintRule = {
+  id: 'valid-easing',
+  severity: 'error',
+  description: 'Easing.* must name a real Remotion easing, and factories like Easing.bezier must be called',
+  fixable: true,
+  check(ast) {
+    const reports: LintReport[] = [];
+
+    traverse(ast, {
+      MemberExpression(path) {
+        const node = path.node;
+        if (!t.isIdentifier(node.object, { name: 'Easing' }) || node.computed || !t.isIdentifier(node.property)) return;
+
+        const name = node.property.name;
+        if (!VALID_EASINGS.has(name)) {
+          const correction = EASING_CORRECTIONS[name];
+          reports.push({
+            node,
+            message: correction
+              ? `Easing.${name} does not exist - use Easing.${correction}`
+              : `Easing.${name} does not exist - use one of: ${[...VALID_EASINGS].join(', ')}`,
+            fix: correction ? [{ start: node.property.start!, end: node.property.end!, text: correction }] : undefined
+          });
+          return;
+        }
+
+        const isCalled = t.isCallExpression(path.parent) && path.parent.callee === node;
+        if (EASING_FACTORIES[name] && !isCalled) {
+          reports.push({ node, message: `Easing.${name} must be called with arguments: ${EASING_FACTORIES[name]}` });
+        }
+      }
+    });
+
+    return reports;
+  }
+};
+
+const noMathRandom: LintRule = {
+  id: 'no-math-random',
+  severity: 'warning',
+  description: "Math.random() changes on every render - use random(seed) from 'remotion'",
+  fixable: false,
+  check(ast) {
+    const reports: LintReport[] = [];
+
+    traverse(ast, {
+      CallExpression(path) {
+        const callee = path.node.callee;
+        if (t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'Math' }) &&
+            t.isIdentifier(callee.property, { name: 'random' })) {
+          // No autofix: a single seed would make every element identical, each needs its own
+          reports.push({
+            node: path.node,
+            message: "Math.random() gives a different value on every frame and render - use random(`seed-${index}`) from 'remotion'"
+          });
+        }
+      }
+    });
+
+    return reports;
+  }
+};
+
+const noCssAnimation: LintRule = {
+  id: 'no-css-animation',
+  severity: 'warning',
+  description: 'CSS transitions and @keyframes in styles run on wall-clock time and do not render frame by frame',
+  fixable: true,
+  check(ast) {
+    const reports: LintReport[] = [];
+
+    traverse(ast, {
+      ObjectProperty(path) {
+        const node = path.node;
+        const key = t.isIdentifier(node.key) ? node.key.name : t.isStringLiteral(node.key) ? node.key.value : null;
+        if (!key || !/^(transition|animation)([A-Z]\w*)?$/.test(key)) return;
+        if (!t.isStringLiteral(node.value) && !t.isTemplateLiteral(node.value)) return;
+        if (t.isStringLiteral(node.value) && /^(none|)$/.test(node.value.value.trim())) return;
+        // Only style objects - { transition: 'fade' } in scene data or component props is not CSS
+        if (!path.parentPath.isObjectExpression() || !isStyleObject(path.parentPath)) return;
+
+        // Remove the property together with the comma that separates it from a neighbour
+        const siblings = (path.parent as t.ObjectExpression).properties;
+        const index = siblings.indexOf(node);
+        const edit: LintEdit = index < siblings.length - 1
+          ? { start: node.start!, end: siblings[index + 1].start!, text: '' }
+          : index > 0
+            ? { start: siblings[index - 1].end!, end: node.end!, text: '' }
+            : { start: node.start!, end: node.end!, text: '' };
+
+        reports.push({
+          node,
+          message: `CSS ${key} is not frame-accurate in renders - drive the value from useCurrentFrame() with interpolate() or spring()`,
+          fix: [edit]
+        });
+      },
+      StringLiteral(path) {
+        if (path.node.value.includes('@keyframes')) {
+          reports.push({ node: path.node, message: '@keyframes animations are not frame-accurate in renders - animate with useCurrentFrame()' });
+        }
+      },
+      TemplateLiteral(path) {
+        if (path.node.quasis.some(quasi => quasi.value.raw.includes('@keyframes'))) {
+          reports.push({ node: path.node, message: '@keyframes animations are not frame-accurate in renders - animate with useCurrentFrame()' });
+        }
+      }
+    });
+
+    return reports;
+  }
+};
+
+export const REMOTION_LINT_RULES: LintRule[] = [
+  interpolateMonotonicInput,
+  interpolateColorOutput,
+  validEasing,
+  noMathRandom,
+  noCssAnimation
+];
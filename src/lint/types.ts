@@ -0,0 +1,44 @@
+// Remotion Lint - Shared shapes for lint rules and the problems they report
+import type { File, Node } from '@babel/types';
+
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Replace source[start, end) with text (start === end inserts)
+ */
+export interface LintEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * What a rule reports - the engine adds the rule id, severity and position
+ */
+export interface LintReport {
+  node: Node;
+  message: string;
+  fix?: LintEdit[];
+}
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  line: number;   // 1-based
+  column: number; // 1-based
+  fix?: LintEdit[];
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+
+  /**
+   * True when at least some reports from this rule carry an autofix
+   */
+  fixable: boolean;
+
+  check(ast: File, source: string): LintReport[];
+}
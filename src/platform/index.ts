@@ -0,0 +1,29 @@
+// Platform Selection - Picks the adapter for the OS the server is running on
+import { PlatformAdapter } from './types.js';
+import { windowsPlatform } from './windows.js';
+import { linuxPlatform } from './linux.js';
+import { macosPlatform } from './macos.js';
+
+export type { PlatformAdapter, PlatformName } from './types.js';
+
+/**
+ * Adapter for a Node.js platform id (process.platform).
+ * Other Unix flavours get the macOS adapter since it only relies on lsof and ps.
+ */
+export function getPlatformAdapter(platform: NodeJS.Platform = process.platform): PlatformAdapter {
+  if (platform === 'win32') return windowsPlatform;
+  if (platform === 'linux') return linuxPlatform;
+  return macosPlatform;
+}
+
+let current: PlatformAdapter | null = null;
+
+/**
+ * Adapter for the current process, selected once at runtime
+ */
+export function getPlatform(): PlatformAdapter {
+  if (!current) {
+    current = getPlatformAdapter();
+  }
+  return current;
+}
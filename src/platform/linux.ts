@@ -0,0 +1,140 @@
+// Linux Platform - /proc/net/tcp first, then ss, then lsof
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PlatformAdapter } from './types.js';
+import { findPidWithLsof, getProcessNameWithPs, killTree } from './posix.js';
+
+const execAsync = promisify(exec);
+
+const TCP_LISTEN_STATE = '0A';
+
+/**
+ * Find the socket inode LISTENING on a port in /proc/net/tcp or /proc/net/tcp6 content
+ */
+export function parseProcNetTcp(content: string, port: number): number | null {
+  const portHex = port.toString(16).toUpperCase().padStart(4, '0');
+
+  for (const line of content.split(/\r?\n/).slice(1)) {
+    // "0: 00000000:19C8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000  0 123456 1 ..."
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 10) continue;
+
+    const localPort = columns[1].split(':')[1];
+    if (localPort === portHex && columns[3] === TCP_LISTEN_STATE) {
+      const inode = parseInt(columns[9], 10);
+      if (inode > 0) {
+        return inode;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the PID in `ss -ltnpH 'sport = :<port>'` output
+ * ("LISTEN 0 511 *:6600 *:* users:(("node",pid=1234,fd=21))")
+ */
+export function parseSsOutput(output: string, port: number): number | null {
+  for (const line of output.split(/\r?\n/)) {
+    const columns = line.trim().split(/\s+/);
+    if (columns[0] !== 'LISTEN' || !columns[3]?.endsWith(`:${port}`)) continue;
+
+    const match = line.match(/pid=(\d+)/);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a socket inode to the owning PID by scanning /proc/<pid>/fd.
+ * Only sees processes owned by the current user unless running as root.
+ */
+async function findPidForInode(inode: number): Promise<number | null> {
+  const target = `socket:[${inode}]`;
+
+  for (const entry of await fs.readdir('/proc')) {
+    if (!/^\d+$/.test(entry)) continue;
+
+    const fdDir = path.join('/proc', entry, 'fd');
+    let fds: string[];
+    try {
+      fds = await fs.readdir(fdDir);
+    } catch {
+      continue;
+    }
+
+    for (const fd of fds) {
+      try {
+        if (await fs.readlink(path.join(fdDir, fd)) === target) {
+          return parseInt(entry, 10);
+        }
+      } catch {
+        // fd closed while scanning
+      }
+    }
+  }
+  return null;
+}
+
+const PROC_UNAVAILABLE = 'unavailable';
+
+/**
+ * PID listening on a port according to /proc; null means /proc was read and nothing listens
+ */
+async function findPidWithProc(port: number): Promise<number | null | typeof PROC_UNAVAILABLE> {
+  let readable = false;
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      // /proc not mounted (containers, WSL1), or no IPv6
+      continue;
+    }
+    readable = true;
+    const inode = parseProcNetTcp(content, port);
+    if (inode) {
+      return await findPidForInode(inode);
+    }
+  }
+  return readable ? null : PROC_UNAVAILABLE;
+}
+
+async function findPidWithSs(port: number): Promise<number | null> {
+  try {
+    const result = await execAsync(`ss -ltnpH "sport = :${port}"`, { timeout: 10000 });
+    return parseSsOutput(result.stdout, port);
+  } catch {
+    return null;
+  }
+}
+
+export const linuxPlatform: PlatformAdapter = {
+  name: 'linux',
+  npxCommand: 'npx',
+
+  async findPidOnPort(port: number): Promise<number | null> {
+    const pid = await findPidWithProc(port);
+    if (pid !== PROC_UNAVAILABLE) {
+      return pid;
+    }
+    // ss and lsof are only asked when /proc could not be read
+    return await findPidWithSs(port) ?? await findPidWithLsof(port);
+  },
+
+  async getProcessName(pid: number): Promise<string | null> {
+    try {
+      return (await fs.readFile(`/proc/${pid}/comm`, 'utf8')).trim() || null;
+    } catch {
+      return getProcessNameWithPs(pid);
+    }
+  },
+
+  async killProcessTree(pid: number): Promise<void> {
+    await killTree(pid);
+  }
+};
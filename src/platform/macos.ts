@@ -0,0 +1,20 @@
+// macOS Platform - lsof (macOS netstat does not report PIDs)
+import { PlatformAdapter } from './types.js';
+import { findPidWithLsof, getProcessNameWithPs, killTree } from './posix.js';
+
+export const macosPlatform: PlatformAdapter = {
+  name: 'macos',
+  npxCommand: 'npx',
+
+  async findPidOnPort(port: number): Promise<number | null> {
+    return findPidWithLsof(port);
+  },
+
+  async getProcessName(pid: number): Promise<string | null> {
+    return getProcessNameWithPs(pid);
+  },
+
+  async killProcessTree(pid: number): Promise<void> {
+    await killTree(pid);
+  }
+};
@@ -0,0 +1,45 @@
+// POSIX Helpers - lsof, ps and tree-kill shared by Linux and macOS
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import treeKill from 'tree-kill';
+
+const execAsync = promisify(exec);
+
+/**
+ * Read the first PID from `lsof -nP -iTCP:<port> -sTCP:LISTEN -Fp` output ("p1234" lines)
+ */
+export function parseLsofOutput(output: string): number | null {
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.trim().match(/^p(\d+)$/);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return null;
+}
+
+export async function findPidWithLsof(port: number): Promise<number | null> {
+  try {
+    const result = await execAsync(`lsof -nP -iTCP:${port} -sTCP:LISTEN -Fp`, { timeout: 10000 });
+    return parseLsofOutput(result.stdout);
+  } catch {
+    // lsof exits 1 when nothing matches
+    return null;
+  }
+}
+
+export async function getProcessNameWithPs(pid: number): Promise<string | null> {
+  try {
+    const result = await execAsync(`ps -p ${pid} -o comm=`, { timeout: 10000 });
+    const name = result.stdout.trim();
+    return name ? name.split('/').pop() || name : null;
+  } catch {
+    return null;
+  }
+}
+
+export function killTree(pid: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    treeKill(pid, 'SIGKILL', error => (error ? reject(error) : resolve()));
+  });
+}
@@ -0,0 +1,27 @@
+// Platform Abstraction - One interface for process and port operations on every OS
+
+export type PlatformName = 'windows' | 'linux' | 'macos';
+
+export interface PlatformAdapter {
+  name: PlatformName;
+
+  /**
+   * Command used to run npx (Windows needs the .cmd shim)
+   */
+  npxCommand: string;
+
+  /**
+   * PID of the process LISTENING on a TCP port, or null if the port is free
+   */
+  findPidOnPort(port: number): Promise<number | null>;
+
+  /**
+   * Executable name of a process (e.g. "node.exe", "node"), or null if unknown
+   */
+  getProcessName(pid: number): Promise<string | null>;
+
+  /**
+   * Force-kill a process and all of its children
+   */
+  killProcessTree(pid: number): Promise<void>;
+}
@@ -0,0 +1,67 @@
+// Windows Platform - netstat, tasklist and taskkill
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { PlatformAdapter } from './types.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Find the LISTENING PID for an exact port in `netstat -ano` output.
+ * Matches the port exactly, so :660 does not match :6600.
+ */
+export function parseNetstatOutput(output: string, port: number): number | null {
+  for (const line of output.split(/\r?\n/)) {
+    // "  TCP    0.0.0.0:6600    0.0.0.0:0    LISTENING    1234"
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 5 || columns[0] !== 'TCP' || columns[3] !== 'LISTENING') {
+      continue;
+    }
+    if (columns[1].endsWith(`:${port}`)) {
+      const pid = parseInt(columns[4], 10);
+      if (Number.isInteger(pid) && pid > 0) {
+        return pid;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the image name from `tasklist /fo csv /nh` output ("node.exe","1234","Console","1","50,000 K")
+ */
+export function parseTasklistCsv(output: string, pid: number): string | null {
+  for (const line of output.split(/\r?\n/)) {
+    const columns = line.match(/"([^"]*)"/g)?.map(column => column.slice(1, -1));
+    if (columns && columns.length >= 2 && parseInt(columns[1], 10) === pid) {
+      return columns[0];
+    }
+  }
+  return null;
+}
+
+export const windowsPlatform: PlatformAdapter = {
+  name: 'windows',
+  npxCommand: 'npx.cmd',
+
+  async findPidOnPort(port: number): Promise<number | null> {
+    try {
+      const result = await execAsync('netstat -ano', { timeout: 10000 });
+      return parseNetstatOutput(result.stdout, port);
+    } catch {
+      return null;
+    }
+  },
+
+  async getProcessName(pid: number): Promise<string | null> {
+    try {
+      const result = await execAsync(`tasklist /fi "PID eq ${pid}" /fo csv /nh`, { timeout: 10000 });
+      return parseTasklistCsv(result.stdout, pid);
+    } catch {
+      return null;
+    }
+  },
+
+  async killProcessTree(pid: number): Promise<void> {
+    await execAsync(`taskkill /f /t /pid ${pid}`, { timeout: 10000 });
+  }
+};
@@ -0,0 +1,199 @@
+// Project Info - Structured snapshot of a video project for read-video-jsx and get-project-info
+// Everything is read from disk on each call; only the studio binding comes from the caller
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { readProjectManifest, componentFilePath, CompositionSettings, PROJECT_MANIFEST_FILE } from './compositions.js';
+import { getRenderQueue, RenderJobStatus } from './render-jobs.js';
+import { STAGING_DIR } from './project-transaction.js';
+
+export interface StudioBinding {
+  port: number;
+  pid: number | null;
+  url: string;
+  startedAt: string;
+  managed: boolean; // false for a studio left running by an earlier server session
+}
+
+export interface RenderOutputInfo {
+  file: string;
+  sizeBytes: number;
+  modified: string;
+}
+
+export type ProjectHealthStatus = 'ready' | 'needs-install' | 'incomplete';
+
+export interface ProjectHealth {
+  status: ProjectHealthStatus;
+  missing: string[];
+  problems: string[];
+}
+
+export interface ProjectInfo {
+  project: string;
+  path: string;
+  remotion: {
+    declared: string | null;
+    installed: string | null;
+  };
+  dependenciesInstalled: boolean;
+  health: ProjectHealth;
+  lastModified: string | null;
+  settingsSource: string;
+  compositions: Array<CompositionSettings & { componentFile: string }>;
+  studio: StudioBinding | null;
+  renders: RenderOutputInfo[];
+  renderJobs: Array<{ id: string; status: RenderJobStatus; compositionId: string | null; createdAt: string }>;
+}
+
+/**
+ * Files under a directory as '/'-separated paths with a prefix, skipping dotfiles and node_modules
+ */
+export async function listProjectFiles(dir: string, prefix = ''): Promise<string[]> {
+  if (!await fs.pathExists(dir)) return [];
+
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      files.push(...await listProjectFiles(path.join(dir, entry.name), `${relativePath}/`));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Project-relative path with '/' separators
+ */
+export function toProjectRelative(projectPath: string, filePath: string): string {
+  return path.relative(projectPath, filePath).split(path.sep).join('/');
+}
+
+async function readVersion(packageJsonPath: string, field?: string): Promise<string | null> {
+  try {
+    const packageJson = await fs.readJson(packageJsonPath);
+    return (field ? packageJson.dependencies?.[field] : packageJson.version) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Newest modification time of the project's sources and settings
+ */
+async function lastModified(projectPath: string): Promise<string | null> {
+  const files = [
+    ...await listProjectFiles(path.join(projectPath, 'src'), 'src/'),
+    'package.json',
+    PROJECT_MANIFEST_FILE
+  ];
+
+  let latest = 0;
+  for (const file of files) {
+    try {
+      latest = Math.max(latest, (await fs.stat(path.join(projectPath, file))).mtimeMs);
+    } catch {
+      // Optional files (the manifest in older projects) may be missing
+    }
+  }
+  return latest > 0 ? new Date(latest).toISOString() : null;
+}
+
+// Files the studio and renders need besides the composition components
+const REQUIRED_FILES = ['package.json', 'src/index.ts', 'src/Root.tsx'];
+
+/**
+ * Whether a project has everything needed to open in the studio and render
+ */
+export async function checkProjectHealth(projectPath: string): Promise<ProjectHealth> {
+  const missing: string[] = [];
+  const problems: string[] = [];
+
+  for (const file of REQUIRED_FILES) {
+    if (!await fs.pathExists(path.join(projectPath, file))) missing.push(file);
+  }
+
+  try {
+    await fs.readJson(path.join(projectPath, 'package.json'));
+  } catch {
+    if (!missing.includes('package.json')) problems.push('package.json is not valid JSON');
+  }
+
+  try {
+    const manifest = await readProjectManifest(projectPath);
+    for (const composition of manifest.compositions) {
+      const file = toProjectRelative(projectPath, componentFilePath(projectPath, composition));
+      if (!missing.includes(file) && !await fs.pathExists(path.join(projectPath, file))) missing.push(file);
+    }
+  } catch (error) {
+    if (!missing.includes('src/Root.tsx')) {
+      problems.push(`Compositions could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const staged = await fs.readdir(path.join(projectPath, STAGING_DIR)).catch(() => [] as string[]);
+  if (staged.length > 0) {
+    problems.push(`An interrupted write left ${staged.length} staged change(s) in ${STAGING_DIR.split(path.sep).join('/')}`);
+  }
+
+  const status: ProjectHealthStatus = missing.length > 0 || problems.length > 0
+    ? 'incomplete'
+    : await fs.pathExists(path.join(projectPath, 'node_modules')) ? 'ready' : 'needs-install';
+  return { status, missing, problems };
+}
+
+/**
+ * One-line health summary like "Incomplete - missing src/index.ts"
+ */
+export function formatProjectHealth(health: ProjectHealth): string {
+  if (health.status === 'ready') return 'Ready';
+  if (health.status === 'needs-install') return 'Needs install - run install-dependencies';
+  const details = [
+    ...(health.missing.length > 0 ? [`missing ${health.missing.join(', ')}`] : []),
+    ...health.problems
+  ];
+  return `Incomplete - ${details.join('; ')}`;
+}
+
+/**
+ * Collect settings, install state, renders and studio for a project; throws if it has no src/
+ */
+export async function collectProjectInfo(project: string, projectPath: string, studio: StudioBinding | null = null): Promise<ProjectInfo> {
+  if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+    throw new Error(`Project '${project}' not found`);
+  }
+
+  const manifest = await readProjectManifest(projectPath);
+  const outDir = path.join(projectPath, 'out');
+  const renders: RenderOutputInfo[] = [];
+  for (const file of await listProjectFiles(outDir)) {
+    const stats = await fs.stat(path.join(outDir, file));
+    renders.push({ file: `out/${file}`, sizeBytes: stats.size, modified: stats.mtime.toISOString() });
+  }
+
+  const renderJobs = (await getRenderQueue().list())
+    .filter(job => job.project === project && (job.status === 'queued' || job.status === 'running'))
+    .map(job => ({ id: job.id, status: job.status, compositionId: job.options.compositionId || null, createdAt: job.createdAt }));
+
+  return {
+    project,
+    path: projectPath,
+    remotion: {
+      declared: await readVersion(path.join(projectPath, 'package.json'), 'remotion'),
+      installed: await readVersion(path.join(projectPath, 'node_modules', 'remotion', 'package.json'))
+    },
+    dependenciesInstalled: await fs.pathExists(path.join(projectPath, 'node_modules')),
+    health: await checkProjectHealth(projectPath),
+    lastModified: await lastModified(projectPath),
+    settingsSource: await fs.pathExists(path.join(projectPath, PROJECT_MANIFEST_FILE)) ? PROJECT_MANIFEST_FILE : 'src/Root.tsx',
+    compositions: manifest.compositions.map(composition => ({
+      ...composition,
+      componentFile: toProjectRelative(projectPath, componentFilePath(projectPath, composition))
+    })),
+    studio,
+    renders,
+    renderJobs
+  };
+}
@@ -0,0 +1,145 @@
+// Project Transactions - Multi-file writes that land all at once or not at all
+// Files are staged under <project>/.roughcut, swapped in with renames and rolled back on any failure
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export const STAGING_DIR = path.join('.roughcut', 'staging');
+
+// Windows briefly locks freshly written files (antivirus, indexer); renames are retried
+const RENAME_ATTEMPTS = 5;
+const RENAME_RETRY_MS = 200;
+
+export async function renameWithRetry(from: string, to: string): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await fs.rename(from, to);
+      return;
+    } catch (error: any) {
+      const locked = error?.code === 'EPERM' || error?.code === 'EACCES' || error?.code === 'EBUSY';
+      if (!locked || attempt >= RENAME_ATTEMPTS) throw error;
+      await new Promise(resolve => setTimeout(resolve, RENAME_RETRY_MS * attempt));
+    }
+  }
+}
+
+function assertInsideProject(file: string): void {
+  const normalized = path.normalize(file);
+  if (path.isAbsolute(file) || normalized.startsWith('..') || normalized === '.') {
+    throw new Error(`Invalid project file path: ${file}`);
+  }
+}
+
+export class ProjectTransaction {
+  private writes = new Map<string, string | Buffer>();
+  private removals = new Set<string>();
+
+  constructor(private projectPath: string) {}
+
+  /**
+   * Stage a project-relative file to be written on commit
+   */
+  write(file: string, content: string | Buffer): this {
+    assertInsideProject(file);
+    this.removals.delete(file);
+    this.writes.set(file, content);
+    return this;
+  }
+
+  /**
+   * Stage a project-relative file to be deleted on commit (missing files are ignored)
+   */
+  remove(file: string): this {
+    assertInsideProject(file);
+    this.writes.delete(file);
+    this.removals.add(file);
+    return this;
+  }
+
+  /**
+   * Write every staged file, or none: originals are backed up and put back if any step fails
+   */
+  async commit(): Promise<void> {
+    if (this.writes.size === 0 && this.removals.size === 0) return;
+
+    const stagingDir = path.join(this.projectPath, STAGING_DIR, uuidv4());
+    const applied: Array<{ target: string; backup: string | null }> = [];
+    let keepStaging = false;
+
+    try {
+      // Stage everything first - a full disk or bad path fails before any project file changes
+      for (const [file, content] of this.writes) {
+        await fs.outputFile(path.join(stagingDir, 'files', file), content);
+      }
+
+      for (const file of [...this.writes.keys(), ...this.removals]) {
+        const target = path.join(this.projectPath, file);
+        let backup: string | null = null;
+        if (await fs.pathExists(target)) {
+          backup = path.join(stagingDir, 'backup', file);
+          await fs.copy(target, backup);
+        }
+        applied.push({ target, backup });
+
+        if (this.writes.has(file)) {
+          await fs.ensureDir(path.dirname(target));
+          // Rename replaces the file in one step, so the studio never reads a half-written file
+          await renameWithRetry(path.join(stagingDir, 'files', file), target);
+        } else {
+          await fs.remove(target);
+        }
+      }
+    } catch (error) {
+      for (const { target, backup } of applied.reverse()) {
+        try {
+          if (backup) {
+            await renameWithRetry(backup, target);
+          } else {
+            await fs.remove(target);
+          }
+        } catch {
+          // Keep restoring the rest; the backup stays in the staging directory for manual recovery
+          keepStaging = true;
+        }
+      }
+      throw error;
+    } finally {
+      if (!keepStaging) await fs.remove(stagingDir).catch(() => undefined);
+      await fs.rmdir(path.dirname(stagingDir)).catch(() => undefined); // only if no other commit is running
+    }
+  }
+}
+
+/**
+ * Write files to a project in one transaction
+ */
+export async function writeProjectFiles(projectPath: string, files: Record<string, string | Buffer>): Promise<void> {
+  const transaction = new ProjectTransaction(projectPath);
+  for (const [file, content] of Object.entries(files)) {
+    transaction.write(file, content);
+  }
+  await transaction.commit();
+}
+
+/**
+ * Build a new project in a hidden sibling directory and rename it into place once complete.
+ * On any failure the staging directory is removed and no project appears.
+ */
+export async function createProjectAtomically(projectPath: string, build: (stagingPath: string) => Promise<void>): Promise<void> {
+  if (await fs.pathExists(projectPath)) {
+    if ((await fs.readdir(projectPath)).length > 0) {
+      throw new Error(`Project '${path.basename(projectPath)}' already exists - edit it or delete it first`);
+    }
+    await fs.remove(projectPath);
+  }
+
+  const stagingPath = path.join(path.dirname(projectPath), `.${path.basename(projectPath)}.staging-${uuidv4()}`);
+  try {
+    await fs.ensureDir(stagingPath);
+    await build(stagingPath);
+    await renameWithRetry(stagingPath, projectPath);
+  } catch (error) {
+    await fs.remove(stagingPath).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,197 @@
+// Built-in Prompt Templates - The enhance-animation-prompt recipes as data
+// Same shape as user templates: {{ expression }} placeholders, derived values in `variables`
+import { PromptTemplate } from './types.js';
+
+const COMPOSITION_SETTINGS = `COMPOSITION SETTINGS (CRITICAL - pass to create-video or update-composition-settings):
+- Duration: {{seconds}} seconds (durationInFrames={{frames}} at fps={{fps}})
+- Dimensions: {{width}}x{{height}} ({{orientation}})`;
+
+export const BUILTIN_PROMPT_TEMPLATES: Omit<PromptTemplate, 'source'>[] = [
+  {
+    id: 'github-profile',
+    name: 'GitHub profile showcase',
+    description: 'Profile card, repository grid and contribution graph in GitHub brand colours',
+    keywords: ['github', 'profile', 'repository', 'contributions'],
+    variables: {},
+    body: `Create a GitHub profile showcase animation: {{prompt}}
+
+${COMPOSITION_SETTINGS}
+- Component: VideoComposition (ensure proper export)
+
+LAYOUT SPECIFICATIONS:
+- Profile card: 320px width, positioned top-left, contains 80px round avatar, username in 24px GitHub font, bio text 16px gray
+- Repository grid: 3x2 layout, each card 280px x 120px with 16px gaps, repo name 18px bold, description 14px, language dot 12px
+- Contribution graph: 728px x 104px, 13x53 grid of 10px squares with 2px gaps
+
+EXACT COLORS (GitHub Brand):
+- Background: #0d1117 (GitHub dark)
+- Cards: #21262d with 1px border #30363d
+- Primary text: #f0f6fc
+- Secondary text: #7d8590
+- Links/accents: #58a6ff
+- Contributions: #39d353
+
+ANIMATION TIMELINE ({{seconds}} seconds = {{frames}} frames):
+- Sequence 1 (0-{{round(frames * 0.15)}} frames): Profile card slides in from left with Easing.bezier(0.25, 0.46, 0.45, 0.94)
+- Sequence 2 ({{round(frames * 0.15)}}-{{round(frames * 0.6)}} frames): Repository cards fade in with staggered timing (each card {{round(fps * 0.2)}} frames after previous)
+- Sequence 3 ({{round(frames * 0.4)}}-{{round(frames * 0.8)}} frames): Contribution squares fill row-by-row from left
+- Sequence 4 ({{round(frames * 0.7)}}-{{frames}} frames): Subtle final polish animations
+
+REMOTION IMPLEMENTATION:
+- Use <Sequence from={frameStart} durationInFrames={frameLength}> for timeline control
+- Calculate frame positions based on {{frames}} total frames
+- Use useCurrentFrame() for smooth interpolation within sequences
+
+TYPOGRAPHY:
+- Font: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif
+- Username: 24px weight 600
+- Repo names: 18px weight 500
+- Descriptions: 14px weight 400 color #7d8590
+
+{{styleGuide}}`
+  },
+  {
+    id: 'bouncing-ball',
+    name: 'Bouncing ball',
+    description: 'Physics-based bounces with squash, shadow and energy loss',
+    keywords: ['ball', 'bounce', 'bouncing', 'physics'],
+    variables: {
+      bounces: 'clamp(floor(seconds / 3), 3, 8)',
+      bounceFrames: 'round(frames / bounces)'
+    },
+    body: `Create a realistic bouncing ball animation with precise physics: {{prompt}}
+
+${COMPOSITION_SETTINGS}
+- Timeline: Plan {{bounces}} bounces across {{seconds}} seconds
+
+BALL SPECIFICATIONS:
+- Size: 60px diameter with radial gradient from {{primaryColor}} (top-left) to {{secondaryColor}} (bottom-right)
+- Compression: Scale Y to 0.8 when within 5px of ground contact
+- Shadow: 40px width ellipse, opacity varies 0.3 (high) to 0.8 (ground contact)
+
+PHYSICS CALCULATIONS:
+- Initial height: 80% of canvas height
+- Energy loss: Each bounce 25% lower (multiply by 0.75)
+- Bounce timing: {{bounceFrames}} frames per bounce cycle
+- Arc trajectory: Follow parabolic path y = -4.9t² + v₀t + y₀
+- Ground contact detection: ball bottom ≤ ground level + 5px
+
+VISUAL ENVIRONMENT:
+- Background: {{backgroundColor}}
+- Ground: 20px height bar with gradient rgba(255,255,255,0.2) to rgba(255,255,255,0.4)
+
+ANIMATION TIMELINE ({{seconds}} seconds = {{frames}} frames):
+- Each bounce: {{bounceFrames}} frames
+- Use frame-based timing: const bounceProgress = (frame % {{bounceFrames}}) / {{bounceFrames}}
+- Easing: Easing.out(Easing.quad) for natural deceleration
+
+{{styleGuide}}`
+  },
+  {
+    id: 'text-reveal',
+    name: 'Text reveal',
+    description: 'Word-by-word typography reveal with staggered entrances and a hold',
+    keywords: ['text', 'reveal', 'typography', 'title', 'words'],
+    variables: {
+      revealSeconds: 'min(seconds * 0.5, words * 0.2)',
+      revealFrames: 'round(frames * revealSeconds / seconds)',
+      staggerFrames: 'max(1, round(revealSeconds * fps / words))'
+    },
+    body: `Create a professional text reveal animation with precise typography: {{prompt}}
+
+${COMPOSITION_SETTINGS}
+- Timeline: Reveal text across {{fixed(revealSeconds, 1)}} seconds, hold for the remaining time
+
+TEXT SPECIFICATIONS:
+- Font stack: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif
+- Size: {{round(height / 22)}}-{{round(height / 15)}}px
+- Weight: 300 (light) for elegance
+- Letter spacing: 0.02em for readability
+- Line height: 1.2 for tight, modern look
+- Color: {{textColor}} on {{backgroundColor}} (4.5:1 contrast minimum)
+
+ANIMATION TIMELINE ({{seconds}} seconds = {{frames}} frames):
+- Word reveal phase: 0-{{revealFrames}} frames ({{fixed(revealSeconds, 1)}}s)
+- Hold phase: {{revealFrames}}-{{frames}} frames ({{fixed(seconds - revealSeconds, 1)}}s)
+- Stagger: {{staggerFrames}} frames between words ({{words}} words in the prompt)
+- Word entrance: slide up 25px with opacity 0→1 over {{round(fps * 0.4)}} frames
+- Easing: Easing.bezier(0.25, 0.46, 0.45, 0.94) for smooth natural motion
+
+VISUAL TREATMENT:
+- Text shadow: 0 4px 12px rgba(0,0,0,0.3) for depth
+- Center horizontally with max-width 80% of the frame, vertically centered with flexbox
+
+{{styleGuide}}`
+  },
+  {
+    id: 'logo-reveal',
+    name: 'Logo reveal',
+    description: 'Scale-and-fade logo entrance followed by a stable brand hold',
+    keywords: ['logo', 'brand', 'intro', 'ident'],
+    variables: {
+      revealSeconds: 'min(3, seconds * 0.3)',
+      anticipationFrames: 'round(frames * 0.1)',
+      revealEndFrame: 'round(frames * revealSeconds / seconds)'
+    },
+    body: `Create a professional logo reveal animation with brand presentation focus: {{prompt}}
+
+${COMPOSITION_SETTINGS}
+- Timeline: {{fixed(revealSeconds, 1)}}s reveal + {{fixed(seconds - revealSeconds, 1)}}s presentation hold
+
+LOGO SPECIFICATIONS:
+- Logo container: Center screen, max {{round(min(width, height) * 0.28)}}px width/height
+- Scale entrance: Start 0.3x, animate to 1.0x over {{fixed(revealSeconds, 1)}}s
+- Entrance easing: Easing.bezier(0.34, 1.56, 0.64, 1) for a confident overshoot
+
+ANIMATION TIMELINE ({{seconds}} seconds = {{frames}} frames):
+- Preparation phase: 0-{{anticipationFrames}} frames (anticipation)
+- Reveal phase: {{anticipationFrames}}-{{revealEndFrame}} frames (logo entrance)
+- Hold phase: {{revealEndFrame}}-{{frames}} frames (stable presentation)
+- Frame calculations: interpolate(frame, [{{anticipationFrames}}, {{revealEndFrame}}], [0.3, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' })
+
+REVEAL SEQUENCE:
+- Background: subtle gradient from {{backgroundColor}} toward {{secondaryColor}}
+- Logo entrance: Scale + fade (opacity 0→1) simultaneously
+- Optional glow: 0 0 20px {{primaryColor}} at 20% opacity
+
+BRAND CONSIDERATIONS:
+- Respect logo safe area (minimum 1/4 logo width spacing)
+- Maintain aspect ratio during animation
+- Ensure logo legibility throughout animation
+
+{{styleGuide}}`
+  },
+  {
+    id: 'generic',
+    name: 'Generic animation',
+    description: 'Three-phase entrance / main / exit structure for any idea (used when nothing else matches)',
+    keywords: [],
+    variables: {},
+    body: `Create a {{style}} {{prompt}} animation with specific technical requirements:
+
+${COMPOSITION_SETTINGS}
+- Timeline: Plan the animation sequence across the full {{seconds}} seconds
+
+VISUAL SPECIFICATIONS:
+- Container: Full frame, layout adapted to {{orientation}} {{width}}x{{height}}
+- Main element: Center-positioned with responsive sizing
+- Color scheme: {{primaryColor}} and {{accentColor}} on {{backgroundColor}}, text {{textColor}} (4.5:1 contrast minimum)
+- Typography: System font stack with proper scale (16px base, 1.25 ratio for headings)
+
+ANIMATION TIMELINE ({{seconds}} seconds = {{frames}} frames):
+- Entrance phase: 0-{{round(frames * 0.2)}} frames ({{fixed(seconds * 0.2, 1)}}s)
+- Main animation: {{round(frames * 0.2)}}-{{round(frames * 0.8)}} frames ({{fixed(seconds * 0.6, 1)}}s)
+- Exit/hold phase: {{round(frames * 0.8)}}-{{frames}} frames ({{fixed(seconds * 0.2, 1)}}s)
+
+ANIMATION TECHNICAL SPECS:
+- Frame rate: {{fps}}fps, every value derived from useCurrentFrame()
+- Performance: Animate transform and opacity only
+
+VISUAL EFFECTS:
+- Depth: Subtle box-shadows 0 4px 8px rgba(0,0,0,0.15)
+- Gradients: 135deg linear gradients
+- Spacing: 8px grid system (8px, 16px, 24px, 32px increments)
+
+{{styleGuide}}`
+  }
+];
@@ -0,0 +1,139 @@
+// Template Expressions - Tiny arithmetic language used inside {{ }} placeholders
+// Supports numbers, strings from scope, + - * / %, parentheses and a few functions. No eval.
+
+export type TemplateValue = number | string;
+export type TemplateScope = Record<string, TemplateValue>;
+
+const FUNCTIONS: Record<string, (...args: number[]) => TemplateValue> = {
+  round: value => Math.round(value),
+  floor: value => Math.floor(value),
+  ceil: value => Math.ceil(value),
+  min: (...values) => Math.min(...values),
+  max: (...values) => Math.max(...values),
+  clamp: (value, low, high) => Math.min(high, Math.max(low, value)),
+  fixed: (value, digits = 1) => value.toFixed(digits)
+};
+
+type Token = { type: 'number' | 'name' | 'op'; value: string };
+
+// Names must never resolve through Object.prototype ({{constructor}}, toString(1))
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][\w]*)|([-+*/%(),]))/y;
+  let position = 0;
+
+  while (position < source.length) {
+    if (/^\s*$/.test(source.slice(position))) break;
+    pattern.lastIndex = position;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new Error(`unexpected '${source.slice(position).trim()[0]}' in "${source}"`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2] });
+    else tokens.push({ type: 'op', value: match[3] });
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+/**
+ * Evaluate an expression like "round(frames * 0.15)" against the template variables
+ */
+export function evaluateExpression(source: string, scope: TemplateScope): TemplateValue {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const expect = (value: string) => {
+    if (peek()?.value !== value) {
+      throw new Error(`expected '${value}' in "${source}"`);
+    }
+    index++;
+  };
+  const toNumber = (value: TemplateValue): number => {
+    if (typeof value !== 'number') {
+      throw new Error(`'${value}' is not a number in "${source}"`);
+    }
+    return value;
+  };
+
+  const parseExpression = (): TemplateValue => {
+    let left = parseTerm();
+    while (peek()?.value === '+' || peek()?.value === '-') {
+      const operator = tokens[index++].value;
+      const right = parseTerm();
+      left = operator === '+' ? toNumber(left) + toNumber(right) : toNumber(left) - toNumber(right);
+    }
+    return left;
+  };
+
+  const parseTerm = (): TemplateValue => {
+    let left = parseFactor();
+    while (peek()?.value === '*' || peek()?.value === '/' || peek()?.value === '%') {
+      const operator = tokens[index++].value;
+      const right = toNumber(parseFactor());
+      left = operator === '*' ? toNumber(left) * right : operator === '/' ? toNumber(left) / right : toNumber(left) % right;
+    }
+    return left;
+  };
+
+  const parseFactor = (): TemplateValue => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new Error(`unexpected end of "${source}"`);
+    }
+    if (token.value === '-') {
+      return -toNumber(parseFactor());
+    }
+    if (token.value === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (token.type === 'number') {
+      return Number(token.value);
+    }
+    if (token.type === 'name') {
+      if (peek()?.value === '(') {
+        const fn = hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+        if (!fn) {
+          throw new Error(`unknown function '${token.value}' (available: ${Object.keys(FUNCTIONS).join(', ')})`);
+        }
+        index++;
+        const args: number[] = [];
+        while (peek()?.value !== ')') {
+          args.push(toNumber(parseExpression()));
+          if (peek()?.value === ',') index++;
+          else break;
+        }
+        expect(')');
+        return fn(...args);
+      }
+      if (!hasOwn(scope, token.value)) {
+        throw new Error(`unknown variable '${token.value}'`);
+      }
+      return scope[token.value];
+    }
+    throw new Error(`unexpected '${token.value}' in "${source}"`);
+  };
+
+  const value = parseExpression();
+  if (index < tokens.length) {
+    throw new Error(`unexpected '${tokens[index].value}' in "${source}"`);
+  }
+  return value;
+}
+
+/**
+ * Format a value for prompt text - whole numbers as is, others to two decimals
+ */
+export function formatTemplateValue(value: TemplateValue): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+}
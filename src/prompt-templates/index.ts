@@ -0,0 +1,202 @@
+// Prompt Template Library - Built-in recipes plus user templates from <assets>/prompt-templates
+// User templates are JSON or Markdown files; a user template with a built-in id replaces it
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { getAssetsDir } from '../utils.js';
+import { BUILTIN_PROMPT_TEMPLATES } from './builtin.js';
+import { evaluateExpression, formatTemplateValue, TemplateScope } from './expression.js';
+import { AnimationStyle, BrandColors, PromptTemplate, PromptTemplateParams } from './types.js';
+
+export type { AnimationStyle, BrandColors, PromptTemplate, PromptTemplateParams } from './types.js';
+
+export const ANIMATION_STYLES: AnimationStyle[] = ['professional', 'creative', 'elegant', 'energetic'];
+
+const STYLE_PRESETS: Record<AnimationStyle, { description: string; easing: string; palette: Required<BrandColors> }> = {
+  professional: {
+    description: 'Clean, restrained motion with generous spacing and no gimmicks',
+    easing: 'Easing.out(Easing.cubic)',
+    palette: { primary: '#2563eb', secondary: '#0f172a', accent: '#38bdf8', background: '#0b1120', text: '#f8fafc' }
+  },
+  creative: {
+    description: 'Playful, layered motion with overlapping timing and bold colour',
+    easing: 'Easing.out(Easing.back(1.7))',
+    palette: { primary: '#f43f5e', secondary: '#8b5cf6', accent: '#facc15', background: '#1e1b4b', text: '#ffffff' }
+  },
+  elegant: {
+    description: 'Slow, graceful fades and small movements with lots of negative space',
+    easing: 'Easing.inOut(Easing.sin)',
+    palette: { primary: '#d4af37', secondary: '#1c1917', accent: '#e7e5e4', background: '#0c0a09', text: '#fafaf9' }
+  },
+  energetic: {
+    description: 'Fast cuts, punchy scale changes and springy motion',
+    easing: 'spring({ frame, fps, config: { damping: 10 } })',
+    palette: { primary: '#22c55e', secondary: '#f97316', accent: '#eab308', background: '#111827', text: '#ffffff' }
+  }
+};
+
+const BRAND_COLOR_KEYS: (keyof BrandColors)[] = ['primary', 'secondary', 'accent', 'background', 'text'];
+
+/**
+ * Directory scanned for user templates (*.json, *.md)
+ */
+export function getPromptTemplatesDir(): string {
+  return path.join(getAssetsDir(), 'prompt-templates');
+}
+
+function toKeywords(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return list.map(keyword => String(keyword).trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Parse a user template. JSON files hold the template fields (body may be an array of lines);
+ * Markdown files use "key: value" front matter with "variables.<name>: <expression>" entries.
+ */
+export function parsePromptTemplateFile(filePath: string, content: string): PromptTemplate {
+  const fallbackId = path.basename(filePath).replace(/\.(json|md)$/i, '');
+  let data: Record<string, unknown>;
+
+  if (/\.json$/i.test(filePath)) {
+    data = JSON.parse(content);
+    if (Array.isArray(data.body)) {
+      data.body = data.body.join('\n');
+    }
+  } else {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+    data = { body: match ? match[2] : content, variables: {} };
+    for (const line of (match ? match[1] : '').split(/\r?\n/)) {
+      const field = line.match(/^\s*([\w.]+)\s*:\s*(.*)$/);
+      if (!field) continue;
+      if (field[1].startsWith('variables.')) {
+        (data.variables as Record<string, string>)[field[1].slice('variables.'.length)] = field[2].trim();
+      } else {
+        data[field[1]] = field[2].trim();
+      }
+    }
+  }
+
+  const id = String(data.id || fallbackId);
+  if (!/^[A-Za-z0-9][A-Za-z0-9-]*$/.test(id)) {
+    throw new Error(`invalid template id '${id}' (letters, digits and -)`);
+  }
+  if (typeof data.body !== 'string' || !data.body.trim()) {
+    throw new Error('template body is empty');
+  }
+  const variables = data.variables && typeof data.variables === 'object' ? data.variables as Record<string, unknown> : {};
+
+  return {
+    id,
+    name: String(data.name || id),
+    description: String(data.description || ''),
+    keywords: toKeywords(data.keywords),
+    variables: Object.fromEntries(Object.entries(variables).map(([name, expression]) => [name, String(expression)])),
+    body: data.body.trim(),
+    source: filePath
+  };
+}
+
+/**
+ * Built-in and user templates. Unreadable user files are reported, not fatal.
+ */
+export async function loadPromptTemplates(): Promise<{ templates: PromptTemplate[]; errors: string[] }> {
+  const templates = new Map<string, PromptTemplate>();
+  const errors: string[] = [];
+
+  for (const template of BUILTIN_PROMPT_TEMPLATES) {
+    templates.set(template.id, { ...template, source: 'built-in' });
+  }
+
+  const dir = getPromptTemplatesDir();
+  if (await fs.pathExists(dir)) {
+    for (const file of (await fs.readdir(dir)).filter(name => /\.(json|md)$/i.test(name)).sort()) {
+      const filePath = path.join(dir, file);
+      try {
+        const template = parsePromptTemplateFile(filePath, await fs.readFile(filePath, 'utf-8'));
+        templates.set(template.id, template);
+      } catch (error) {
+        errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return { templates: [...templates.values()], errors };
+}
+
+/**
+ * Template for a prompt: the requested id, else the one with most keyword hits, else "generic"
+ */
+export function selectPromptTemplate(templates: PromptTemplate[], prompt: string, id?: string): PromptTemplate {
+  if (id) {
+    const template = templates.find(candidate => candidate.id === id);
+    if (!template) {
+      throw new Error(`Unknown prompt template '${id}' (available: ${templates.map(candidate => candidate.id).join(', ')})`);
+    }
+    return template;
+  }
+
+  let best: PromptTemplate | undefined;
+  let bestScore = 0;
+  for (const template of templates) {
+    const score = template.keywords.filter(keyword =>
+      new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i').test(prompt)).length;
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+
+  return best || templates.find(template => template.id === 'generic') || templates[0];
+}
+
+function buildStyleGuide(style: AnimationStyle, palette: Required<BrandColors>, brandColors: BrandColors = {}): string {
+  const preset = STYLE_PRESETS[style];
+  const brand = BRAND_COLOR_KEYS.filter(key => brandColors[key]);
+  const lines = [
+    `STYLE (${style}): ${preset.description}`,
+    `- Signature easing: ${preset.easing}`,
+    `- Palette: ${BRAND_COLOR_KEYS.map(key => `${key} ${palette[key]}`).join(', ')}`
+  ];
+  if (brand.length > 0) {
+    lines.push(`- Brand colours are fixed - use exactly: ${brand.map(key => `${key} ${brandColors[key]}`).join(', ')}`);
+  }
+  lines.push('- Drive every animated value from useCurrentFrame() (no CSS transitions or Math.random())');
+  return lines.join('\n');
+}
+
+/**
+ * Fill a template's placeholders for the given prompt and composition settings
+ */
+export function renderPromptTemplate(template: PromptTemplate, params: PromptTemplateParams): string {
+  const palette = { ...STYLE_PRESETS[params.style].palette };
+  for (const key of BRAND_COLOR_KEYS) {
+    if (params.brandColors?.[key]) palette[key] = params.brandColors[key]!;
+  }
+
+  const scope: TemplateScope = {
+    prompt: params.prompt,
+    style: params.style,
+    seconds: params.durationSeconds,
+    fps: params.fps,
+    frames: Math.max(1, Math.round(params.durationSeconds * params.fps)),
+    width: params.width,
+    height: params.height,
+    orientation: params.width > params.height ? 'landscape' : params.width < params.height ? 'portrait' : 'square',
+    words: Math.max(1, params.prompt.trim().split(/\s+/).filter(Boolean).length),
+    primaryColor: palette.primary,
+    secondaryColor: palette.secondary,
+    accentColor: palette.accent,
+    backgroundColor: palette.background,
+    textColor: palette.text,
+    styleGuide: buildStyleGuide(params.style, palette, params.brandColors)
+  };
+
+  try {
+    for (const [name, expression] of Object.entries(template.variables)) {
+      scope[name] = evaluateExpression(expression, scope);
+    }
+    return template.body.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_, expression: string) =>
+      formatTemplateValue(evaluateExpression(expression, scope)));
+  } catch (error) {
+    throw new Error(`Template '${template.id}' (${template.source}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
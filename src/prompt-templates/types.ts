@@ -0,0 +1,47 @@
+// Prompt Templates - Shapes shared by built-in and user-supplied templates
+
+export type AnimationStyle = 'professional' | 'creative' | 'elegant' | 'energetic';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+
+  /**
+   * Words matched against the basic prompt; the template with the most matches wins
+   */
+  keywords: string[];
+
+  /**
+   * Derived values, evaluated in order - each may use the standard variables and earlier entries
+   */
+  variables: Record<string, string>;
+
+  /**
+   * Prompt text with {{ expression }} placeholders
+   */
+  body: string;
+
+  /**
+   * "built-in" or the file the template was loaded from
+   */
+  source: string;
+}
+
+export interface BrandColors {
+  primary?: string;
+  secondary?: string;
+  accent?: string;
+  background?: string;
+  text?: string;
+}
+
+export interface PromptTemplateParams {
+  prompt: string;
+  style: AnimationStyle;
+  durationSeconds: number;
+  fps: number;
+  width: number;
+  height: number;
+  brandColors?: BrandColors;
+}
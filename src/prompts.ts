@@ -0,0 +1,204 @@
+// MCP Prompts - Reusable video-creation prompts that clients can offer as slash-commands
+// Every prompt carries the Remotion authoring rules so generated code passes the validator
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from './config.js';
+import { REMOTION_LINT_RULES } from './lint/index.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface VideoPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build(args: Record<string, string>): string;
+}
+
+// Shipped next to build/ in the package; read once and cached
+const GUIDELINES_FILE = path.join(__dirname, '..', 'ANIMATION-QUALITY-GUIDELINES.md');
+let guidelines: string | null = null;
+
+function getGuidelines(): string {
+  if (guidelines === null) {
+    try {
+      guidelines = fs.readFileSync(GUIDELINES_FILE, 'utf-8').trim();
+    } catch {
+      guidelines = '';
+    }
+  }
+  return guidelines;
+}
+
+/**
+ * Hard rules (enforced by the validator) followed by the quality guidelines
+ */
+function authoringRules(): string {
+  const rules = [
+    'REMOTION AUTHORING RULES (code that breaks these is rejected before it is written):',
+    '- The component file must `export default` a React component; Root.tsx imports it',
+    '- Derive every animated value from useCurrentFrame() and useVideoConfig() - renders are frame by frame',
+    ...REMOTION_LINT_RULES.map(rule => `- ${rule.description}${rule.severity === 'warning' ? ' (warning)' : ''}`)
+  ].join('\n');
+
+  const quality = getGuidelines();
+  return quality ? `${rules}\n\nANIMATION QUALITY GUIDELINES:\n\n${quality}` : rules;
+}
+
+function durationText(args: Record<string, string>, fallbackSeconds: number): string {
+  const config = getConfig();
+  const seconds = Number(args.durationSeconds) > 0 ? Number(args.durationSeconds) : fallbackSeconds;
+  return `${seconds} seconds at ${config.defaultFps}fps (durationInFrames=${Math.round(seconds * config.defaultFps)})`;
+}
+
+const ASPECT_RATIOS: Record<string, [number, number]> = {
+  '16:9': [1920, 1080],
+  '9:16': [1080, 1920],
+  '1:1': [1080, 1080],
+  '4:5': [1080, 1350]
+};
+
+function sizeText(aspectRatio: string | undefined): string {
+  const config = getConfig();
+  const [width, height] = ASPECT_RATIOS[aspectRatio || ''] || [config.defaultWidth, config.defaultHeight];
+  return `${width}x${height}`;
+}
+
+const PROMPTS: VideoPrompt[] = [
+  {
+    name: 'create-title-card',
+    description: 'Create a title card video - a headline with optional subtitle, animated in and held',
+    arguments: [
+      { name: 'title', description: 'Headline text', required: true },
+      { name: 'subtitle', description: 'Optional line under the title' },
+      { name: 'project', description: 'Project name to create (default: derived from the title)' },
+      { name: 'durationSeconds', description: 'Length in seconds (default: 5)' },
+      { name: 'aspectRatio', description: '16:9, 9:16, 1:1 or 4:5 (default: configured size)' },
+      { name: 'style', description: 'professional, creative, elegant or energetic' }
+    ],
+    build: args => `Create a title card video with the create-video tool.
+
+Title: "${args.title}"${args.subtitle ? `\nSubtitle: "${args.subtitle}"` : ''}
+Project name: ${args.project || 'a short kebab-case name derived from the title'}
+Duration: ${durationText(args, 5)}
+Size: ${sizeText(args.aspectRatio)} - pass width/height and durationInFrames to create-video
+Style: ${args.style || 'professional'}
+
+Structure: the title enters in the first 20% of the video (fade + slight upward slide with an eased interpolate), the subtitle follows a few frames later, both hold, then fade out over the last 10%. Keep text inside a 10% safe margin and size it from useVideoConfig().width so it works in any aspect ratio.
+
+${authoringRules()}`
+  },
+  {
+    name: 'make-product-explainer',
+    description: 'Plan and build a short product explainer with an intro, feature scenes and a call to action',
+    arguments: [
+      { name: 'product', description: 'Product name and one-line pitch', required: true },
+      { name: 'features', description: 'Key features or benefits, one per line or comma separated' },
+      { name: 'audience', description: 'Who the video is for' },
+      { name: 'callToAction', description: 'Closing call to action (e.g. a URL)' },
+      { name: 'durationSeconds', description: 'Length in seconds (default: 30)' },
+      { name: 'aspectRatio', description: '16:9, 9:16, 1:1 or 4:5 (default: configured size)' }
+    ],
+    build: args => {
+      const features = (args.features || '').split(/\n|,/).map(feature => feature.trim()).filter(Boolean);
+      return `Make a product explainer video for: ${args.product}
+${args.audience ? `Audience: ${args.audience}\n` : ''}Duration: ${durationText(args, 30)}
+Size: ${sizeText(args.aspectRatio)}
+
+First write a scene plan (scene, start frame, length in frames, on-screen text, motion), then build it with create-video:
+1. Hook - the problem in one line
+2. Product intro - name and pitch
+${features.length > 0
+  ? features.map((feature, i) => `${i + 3}. Feature: ${feature}`).join('\n')
+  : '3. Two or three feature scenes, one benefit each'}
+${features.length > 0 ? features.length + 3 : 6}. Call to action${args.callToAction ? `: ${args.callToAction}` : ''}
+
+Put each scene in its own <Sequence from={...} durationInFrames={...}> and compute the frame numbers from the plan so they add up exactly to the total duration. Overlap scene transitions by a few frames instead of hard cuts.
+
+${authoringRules()}`;
+    }
+  },
+  {
+    name: 'convert-script-to-scenes',
+    description: 'Turn a narration script into timed scenes and a composition that follows it',
+    arguments: [
+      { name: 'script', description: 'Narration or voice-over script', required: true },
+      { name: 'project', description: 'Existing project to update with edit-video-jsx (default: create a new one)' },
+      { name: 'wordsPerMinute', description: 'Speaking rate used for timing (default: 150)' }
+    ],
+    build: args => {
+      const wordsPerMinute = Number(args.wordsPerMinute) > 0 ? Number(args.wordsPerMinute) : 150;
+      const words = args.script.trim().split(/\s+/).filter(Boolean).length;
+      const seconds = Math.max(3, Math.ceil(words / wordsPerMinute * 60));
+      return `Convert this script into scenes and build the video:
+
+"""
+${args.script.trim()}
+"""
+
+The script has ${words} words - at ${wordsPerMinute} words per minute that is about ${durationText({}, seconds)}.
+
+1. Split the script into scenes at sentence or idea boundaries. For each scene give: start frame, length in frames (proportional to its word count), the on-screen text (short, not the full narration) and the visual.
+2. ${args.project
+  ? `Update project "${args.project}": set the duration with update-composition-settings, then replace the composition with edit-video-jsx.`
+  : 'Create a new project with create-video using that duration.'}
+3. One <Sequence> per scene with the planned frames; captions appear with the narration timing.
+
+${authoringRules()}`;
+    }
+  },
+  {
+    name: 'fix-studio-error',
+    description: 'Diagnose an error shown by Remotion Studio or a render and fix the composition',
+    arguments: [
+      { name: 'project', description: 'Project name', required: true },
+      { name: 'error', description: 'Error message or stack trace from the studio, browser console or render', required: true }
+    ],
+    build: args => `Remotion reports this error in project "${args.project}":
+
+"""
+${args.error.trim()}
+"""
+
+1. Run lint-project for "${args.project}" - most studio crashes (bad interpolate ranges, colours in interpolate(), invalid Easing names) are reported with a line number and often an autofix. If the studio fails to build, get-compile-errors lists the file, line and message of each build error.
+2. Use read-video-jsx to get the compositions, their component files and the failing component's current source.
+3. Explain the root cause in one or two sentences, pointing at the line.
+4. Fix it with edit-video-jsx using search/replace edits or a patch (typeCheck: "warn" once dependencies are installed) and keep everything that was working unchanged.
+
+${authoringRules()}`
+  }
+];
+
+/**
+ * Prompt list for prompts/list
+ */
+export function listPrompts(): Array<{ name: string; description: string; arguments: PromptArgument[] }> {
+  return PROMPTS.map(prompt => ({ name: prompt.name, description: prompt.description, arguments: prompt.arguments }));
+}
+
+/**
+ * Render a prompt for prompts/get; missing required arguments are an InvalidParams error
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt '${name}' (available: ${PROMPTS.map(candidate => candidate.name).join(', ')})`);
+  }
+
+  const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' requires: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user' as const,
+      content: { type: 'text' as const, text: prompt.build(args) }
+    }]
+  };
+}
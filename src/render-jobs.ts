@@ -0,0 +1,412 @@
+// Render Job Queue - Long renders run in the background and report progress
+// Jobs are persisted under <assets>/render-jobs so they survive a server restart
+import spawn from 'cross-spawn';
+import treeKill from 'tree-kill';
+import { ChildProcess } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { getAssetsDir } from './utils.js';
+import { getConfig } from './config.js';
+import { renameWithRetry } from './project-transaction.js';
+import {
+  RenderVideoOptions,
+  RenderVideoResult,
+  buildRenderArgs,
+  parseRenderProgress,
+  resolveRenderOutputPath,
+  describeRenderOutput
+} from './render.js';
+
+export type RenderJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RenderJob {
+  id: string;
+  project: string;
+  projectPath: string;
+  options: RenderVideoOptions;
+  outputPath: string;
+  status: RenderJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  stage?: 'rendering' | 'encoding';
+  framesRendered: number;
+  framesEncoded: number;
+  totalFrames: number | null;
+  etaSeconds: number | null;
+  logTail: string[];
+  result?: RenderVideoResult;
+  error?: string;
+}
+
+const LOG_TAIL_LINES = 50;
+const PERSIST_INTERVAL_MS = 1000;
+const MAX_FINISHED_JOBS = 50; // older completed, failed and cancelled jobs are pruned
+const CANCEL_EXIT_WAIT_MS = 10000;
+
+/**
+ * Maximum renders allowed to run at once (each render already uses every core)
+ */
+export function getMaxConcurrentRenders(): number {
+  return getConfig().maxRenderJobs;
+}
+
+/**
+ * Directory holding one JSON file per render job
+ */
+export function getRenderJobsDir(): string {
+  return path.join(getAssetsDir(), 'render-jobs');
+}
+
+export class RenderQueue {
+  private jobs = new Map<string, RenderJob>();
+  private processes = new Map<string, ChildProcess>();
+  private lastPersisted = new Map<string, number>();
+  private writes: Promise<void> = Promise.resolve(); // every job file write and prune, in order
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Load persisted jobs once; concurrent callers wait for the same read
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readPersistedJobs().catch(error => {
+        this.loading = null; // retry on the next call
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Renders that were running when the server stopped cannot be resumed,
+   * so they are marked failed; queued jobs restart unless their project is gone.
+   */
+  private async readPersistedJobs(): Promise<void> {
+    const dir = getRenderJobsDir();
+    if (!await fs.pathExists(dir)) return;
+
+    for (const file of await fs.readdir(dir)) {
+      if (file.endsWith('.tmp')) {
+        // Left by a write the server did not finish
+        await fs.remove(path.join(dir, file)).catch(() => undefined);
+        continue;
+      }
+      if (!file.endsWith('.json')) continue;
+      try {
+        const job: RenderJob = await fs.readJson(path.join(dir, file));
+        if (job.status === 'running') {
+          job.status = 'failed';
+          job.error = 'Render interrupted by server restart';
+          job.finishedAt = new Date().toISOString();
+          await this.persist(job, true);
+        } else if (job.status === 'queued' && !await fs.pathExists(job.projectPath)) {
+          job.status = 'failed';
+          job.error = `Project '${job.project}' no longer exists`;
+          job.finishedAt = new Date().toISOString();
+          await this.persist(job, true);
+        }
+        this.jobs.set(job.id, job);
+      } catch {
+        // Skip unreadable job files rather than failing every render tool
+      }
+    }
+
+    this.prune();
+    this.pump();
+  }
+
+  /**
+   * Queue a write of the job file. Progress writes are throttled; all writes go through
+   * one chain so an older snapshot never lands after a newer one.
+   */
+  private persist(job: RenderJob, force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - (this.lastPersisted.get(job.id) || 0) < PERSIST_INTERVAL_MS) {
+      return this.writes;
+    }
+    this.lastPersisted.set(job.id, now);
+
+    this.writes = this.writes.then(() => this.writeJobFile(job));
+    return this.writes;
+  }
+
+  /**
+   * Write to a temp file and rename it into place, so readers never see half a job
+   */
+  private async writeJobFile(job: RenderJob): Promise<void> {
+    const filePath = path.join(getRenderJobsDir(), `${job.id}.json`);
+    const tempPath = `${filePath}.tmp`;
+    try {
+      await fs.ensureDir(getRenderJobsDir());
+      await fs.writeJson(tempPath, job, { spaces: 2 });
+      await renameWithRetry(tempPath, filePath);
+    } catch {
+      // Persistence is best effort - the in-memory job is still authoritative
+      await fs.remove(tempPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Forget finished jobs beyond the newest MAX_FINISHED_JOBS and delete their files
+   */
+  private prune(): void {
+    const finished = [...this.jobs.values()]
+      .filter(job => job.status !== 'queued' && job.status !== 'running')
+      .sort((a, b) => (b.finishedAt || b.createdAt).localeCompare(a.finishedAt || a.createdAt));
+
+    const pruned = finished.slice(MAX_FINISHED_JOBS);
+    for (const job of pruned) {
+      this.jobs.delete(job.id);
+      this.lastPersisted.delete(job.id);
+    }
+    if (pruned.length > 0) {
+      this.writes = this.writes.then(async () => {
+        for (const job of pruned) {
+          await fs.remove(path.join(getRenderJobsDir(), `${job.id}.json`)).catch(() => undefined);
+        }
+      });
+    }
+  }
+
+  /**
+   * Feed one output stream of a render into the job log. A chunk can end mid-line,
+   * so its trailing partial line waits for the next chunk or the end of the stream.
+   */
+  private logStream(job: RenderJob, stream: NodeJS.ReadableStream | null): void {
+    let partial = '';
+    stream?.setEncoding('utf8'); // a multi-byte character can be split across chunks too
+    stream?.on('data', data => {
+      const lines = (partial + data).split(/\r?\n|\r/);
+      partial = lines.pop() || '';
+      this.appendLog(job, lines);
+    });
+    stream?.on('end', () => {
+      if (partial) this.appendLog(job, [partial]);
+      partial = '';
+    });
+  }
+
+  private appendLog(job: RenderJob, lines: string[]): void {
+    for (const rawLine of lines) {
+      // Strip ANSI colour codes from the CLI output
+      const line = rawLine.replace(/\u001b\[[0-9;]*m/g, '').trim();
+      if (!line) continue;
+
+      job.logTail.push(line);
+      if (job.logTail.length > LOG_TAIL_LINES) {
+        job.logTail.shift();
+      }
+
+      const progress = parseRenderProgress(line);
+      if (progress) {
+        job.stage = progress.stage;
+        job.totalFrames = progress.totalFrames;
+        if (progress.stage === 'rendering') {
+          job.framesRendered = progress.frames;
+        } else {
+          job.framesRendered = progress.totalFrames;
+          job.framesEncoded = progress.frames;
+        }
+        job.etaSeconds = progress.etaSeconds ?? this.estimateEta(job);
+      }
+    }
+
+    this.persist(job);
+  }
+
+  private estimateEta(job: RenderJob): number | null {
+    if (!job.startedAt || !job.totalFrames || job.framesRendered === 0) {
+      return null;
+    }
+    const elapsed = (Date.now() - new Date(job.startedAt).getTime()) / 1000;
+    const remaining = job.totalFrames - job.framesRendered;
+    return Math.round((elapsed / job.framesRendered) * remaining);
+  }
+
+  private pump(): void {
+    const running = [...this.jobs.values()].filter(job => job.status === 'running').length;
+    let slots = getMaxConcurrentRenders() - running;
+
+    const queued = [...this.jobs.values()]
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of queued) {
+      if (slots <= 0) break;
+      slots--;
+      this.run(job);
+    }
+  }
+
+  private run(job: RenderJob): void {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.persist(job, true);
+
+    let child: ChildProcess;
+    try {
+      fs.ensureDirSync(path.dirname(job.outputPath));
+      child = spawn('npx', buildRenderArgs(job.outputPath, job.options), {
+        cwd: job.projectPath,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+    } catch (error) {
+      this.finish(job, 'failed', `Could not start renderer: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    this.processes.set(job.id, child);
+    this.logStream(job, child.stdout);
+    this.logStream(job, child.stderr);
+
+    child.on('error', error => {
+      this.processes.delete(job.id);
+      this.finish(job, 'failed', `Renderer process error: ${error.message}`);
+    });
+
+    child.on('close', async code => {
+      this.processes.delete(job.id);
+      if (job.status !== 'running') {
+        return; // Cancelled or already failed
+      }
+      if (code !== 0) {
+        this.finish(job, 'failed', `Remotion render exited with code ${code}: ${job.logTail.slice(-5).join(' | ')}`);
+        return;
+      }
+      try {
+        job.result = await describeRenderOutput(job.projectPath, job.outputPath, job.options);
+        this.finish(job, 'completed');
+      } catch (error) {
+        this.finish(job, 'failed', error instanceof Error ? error.message : String(error));
+      }
+    });
+  }
+
+  private finish(job: RenderJob, status: RenderJobStatus, error?: string): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.etaSeconds = status === 'completed' ? 0 : null;
+    if (error) {
+      job.error = error;
+    }
+    this.persist(job, true);
+    this.prune();
+    this.pump();
+  }
+
+  /**
+   * Queue a render and return immediately with the job record
+   */
+  async enqueue(project: string, projectPath: string, options: RenderVideoOptions): Promise<RenderJob> {
+    await this.load();
+
+    const job: RenderJob = {
+      id: uuidv4(),
+      project,
+      projectPath,
+      options,
+      outputPath: resolveRenderOutputPath(projectPath, options),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      framesRendered: 0,
+      framesEncoded: 0,
+      totalFrames: null,
+      etaSeconds: null,
+      logTail: []
+    };
+
+    this.jobs.set(job.id, job);
+    await this.persist(job, true);
+    this.pump();
+    return job;
+  }
+
+  async get(id: string): Promise<RenderJob | undefined> {
+    await this.load();
+    return this.jobs.get(id);
+  }
+
+  async list(): Promise<RenderJob[]> {
+    await this.load();
+    return [...this.jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Cancel a queued or running job. Running renders have their whole process tree killed.
+   */
+  async cancel(id: string): Promise<RenderJob> {
+    await this.load();
+
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Render job '${id}' not found`);
+    }
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new Error(`Render job '${id}' is already ${job.status}`);
+    }
+
+    const child = this.processes.get(id);
+    this.finish(job, 'cancelled');
+    if (child?.pid) {
+      treeKill(child.pid, 'SIGTERM');
+    }
+    return job;
+  }
+
+  /**
+   * Cancel every queued and running render of a project, e.g. before it is deleted.
+   * Waits for the killed renderers to exit so none keeps writing into or locking the project directory.
+   */
+  async cancelProject(projectPath: string): Promise<RenderJob[]> {
+    await this.load();
+
+    const target = path.resolve(projectPath);
+    const jobs = [...this.jobs.values()]
+      .filter(job => (job.status === 'queued' || job.status === 'running') && path.resolve(job.projectPath) === target)
+      // Queued jobs first - cancelling a running one frees a slot, which must not start another render of this project
+      .sort((a, b) => (a.status === 'queued' ? 0 : 1) - (b.status === 'queued' ? 0 : 1));
+
+    const exits: Array<Promise<void>> = [];
+    for (const job of jobs) {
+      const child = this.processes.get(job.id);
+      this.finish(job, 'cancelled');
+      if (child?.pid) {
+        exits.push(new Promise(resolve => child.once('close', () => resolve())));
+        treeKill(child.pid, 'SIGTERM');
+      }
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(exits),
+      new Promise(resolve => { timer = setTimeout(resolve, CANCEL_EXIT_WAIT_MS); })
+    ]);
+    clearTimeout(timer);
+    await this.writes;
+    return jobs;
+  }
+}
+
+let queue: RenderQueue | null = null;
+
+/**
+ * Shared render queue for the server process
+ */
+export function getRenderQueue(): RenderQueue {
+  if (!queue) {
+    queue = new RenderQueue();
+  }
+  return queue;
+}
+
+/**
+ * Format seconds as "1m 05s"
+ */
+export function formatEta(seconds: number | null): string {
+  if (seconds === null) return 'Unknown';
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${String(rest).padStart(2, '0')}s` : `${rest}s`;
+}
@@ -0,0 +1,285 @@
+// Video Rendering - Runs the Remotion CLI inside the project directory
+// Uses the project's own @remotion/cli so the renderer matches the studio version
+import spawn from 'cross-spawn';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { COMPOSITION_ID_PATTERN } from './compositions.js';
+
+const MAX_OUTPUT_CHARS = 10 * 1024 * 1024;
+
+export type RenderCodec = 'h264' | 'h265' | 'vp8' | 'vp9' | 'prores';
+
+/**
+ * File extension produced by each supported codec
+ */
+export const CODEC_EXTENSIONS: Record<RenderCodec, string> = {
+  h264: 'mp4',
+  h265: 'mp4',
+  vp8: 'webm',
+  vp9: 'webm',
+  prores: 'mov'
+};
+
+export interface RenderVideoOptions {
+  compositionId?: string;
+  codec?: RenderCodec;
+  crf?: number;
+  videoBitrate?: string;
+  startFrame?: number;
+  endFrame?: number;
+  outputPath?: string;
+}
+
+export interface RenderVideoResult {
+  outputPath: string;
+  compositionId: string;
+  codec: RenderCodec;
+  sizeBytes: number;
+  durationInSeconds: number | null;
+}
+
+/**
+ * Check render options before spending minutes in the renderer
+ */
+export function validateRenderOptions(options: RenderVideoOptions): string[] {
+  const errors: string[] = [];
+
+  if (options.compositionId !== undefined && !COMPOSITION_ID_PATTERN.test(options.compositionId)) {
+    errors.push(`compositionId '${options.compositionId}' may only contain letters, digits and '-'`);
+  }
+  if (options.codec && !(options.codec in CODEC_EXTENSIONS)) {
+    errors.push(`Unsupported codec '${options.codec}' (use ${Object.keys(CODEC_EXTENSIONS).join(', ')})`);
+  }
+  if (options.crf !== undefined && options.videoBitrate !== undefined) {
+    errors.push('Specify either crf or videoBitrate, not both');
+  }
+  if (options.crf !== undefined && (!Number.isInteger(options.crf) || options.crf < 0 || options.crf > 63)) {
+    errors.push(`crf must be an integer between 0 and 63 (got ${options.crf})`);
+  }
+  if (options.videoBitrate !== undefined && !/^\d+(\.\d+)?[KM]$/.test(options.videoBitrate)) {
+    errors.push(`videoBitrate must look like "5M" or "800K" (got ${options.videoBitrate})`);
+  }
+  if (options.startFrame !== undefined && (!Number.isInteger(options.startFrame) || options.startFrame < 0)) {
+    errors.push(`startFrame must be a non-negative integer (got ${options.startFrame})`);
+  }
+  if (options.endFrame !== undefined && (!Number.isInteger(options.endFrame) || options.endFrame < 0)) {
+    errors.push(`endFrame must be a non-negative integer (got ${options.endFrame})`);
+  }
+  if (options.startFrame !== undefined && options.endFrame !== undefined && options.endFrame < options.startFrame) {
+    errors.push(`endFrame (${options.endFrame}) is before startFrame (${options.startFrame})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Resolve where the rendered file goes (defaults to <project>/out/<composition>.<ext>)
+ */
+export function resolveRenderOutputPath(projectPath: string, options: RenderVideoOptions): string {
+  const codec = options.codec || 'h264';
+  const compositionId = options.compositionId || 'Main';
+
+  if (!options.outputPath) {
+    return path.join(projectPath, 'out', `${compositionId}.${CODEC_EXTENSIONS[codec]}`);
+  }
+  return path.resolve(projectPath, options.outputPath);
+}
+
+/**
+ * Build the `remotion render` argument list for the given options
+ */
+export function buildRenderArgs(outputPath: string, options: RenderVideoOptions): string[] {
+  const args = [
+    'remotion', 'render', 'src/index.ts',
+    options.compositionId || 'Main',
+    outputPath,
+    `--codec=${options.codec || 'h264'}`,
+    '--log=info'
+  ];
+
+  if (options.crf !== undefined) {
+    args.push(`--crf=${options.crf}`);
+  }
+  if (options.videoBitrate !== undefined) {
+    args.push(`--video-bitrate=${options.videoBitrate}`);
+  }
+  if (options.startFrame !== undefined || options.endFrame !== undefined) {
+    // Remotion accepts "10-" for an open-ended range
+    args.push(`--frames=${options.startFrame ?? 0}-${options.endFrame ?? ''}`);
+  }
+
+  return args;
+}
+
+export interface RenderProgress {
+  stage: 'rendering' | 'encoding';
+  frames: number;
+  totalFrames: number;
+  etaSeconds: number | null;
+}
+
+/**
+ * Parse a Remotion CLI progress line ("Rendered 45/300, time remaining: 1m 5s" or "Encoded 10/300")
+ */
+export function parseRenderProgress(line: string): RenderProgress | null {
+  const match = line.match(/(Rendered|Encoded) (\d+)\/(\d+)(?:, time remaining: ([\dhms ]+))?/);
+  if (!match) {
+    return null;
+  }
+
+  let etaSeconds: number | null = null;
+  if (match[4]) {
+    etaSeconds = 0;
+    for (const part of match[4].trim().split(' ')) {
+      const value = parseInt(part, 10);
+      if (part.endsWith('h')) etaSeconds += value * 3600;
+      else if (part.endsWith('m')) etaSeconds += value * 60;
+      else if (part.endsWith('s')) etaSeconds += value;
+    }
+  }
+
+  return {
+    stage: match[1] === 'Rendered' ? 'rendering' : 'encoding',
+    frames: parseInt(match[2], 10),
+    totalFrames: parseInt(match[3], 10),
+    etaSeconds
+  };
+}
+
+/**
+ * Run the project's Remotion CLI with an argument list (no shell) and resolve with its stdout.
+ * Rejects with its stderr, so paths and ids from tool arguments are never interpreted by a shell.
+ */
+export function runRemotion(projectPath: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('npx', ['remotion', ...args], { cwd: projectPath, stdio: ['ignore', 'pipe', 'pipe'], windowsHide: true });
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.on('data', data => {
+      stdout = (stdout + data.toString()).slice(-MAX_OUTPUT_CHARS);
+    });
+    child.stderr?.on('data', data => {
+      stderr = (stderr + data.toString()).slice(-10000);
+    });
+    const timer = setTimeout(() => child.kill(), timeoutMs);
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(stderr.trim() || (signal ? `Timed out after ${Math.round(timeoutMs / 1000)}s` : `Exited with code ${code}`)));
+      }
+    });
+  });
+}
+
+/**
+ * Read the duration of a rendered file using the ffprobe bundled with Remotion
+ */
+export async function probeDuration(projectPath: string, filePath: string): Promise<number | null> {
+  try {
+    const stdout = await runRemotion(projectPath, [
+      'ffprobe', '-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath
+    ], 30000);
+    const duration = parseFloat(stdout.trim());
+    return Number.isFinite(duration) ? duration : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface CompositionInfo {
+  id: string;
+  fps: number | null;
+  width: number;
+  height: number;
+  durationInFrames: number;
+}
+
+/**
+ * Parse the table printed by `remotion compositions`
+ * ("Main    30      1920x1080      300 (10.00 sec)" or "Thumb           1280x720       Still")
+ */
+export function parseCompositionsOutput(output: string): CompositionInfo[] {
+  const compositions: CompositionInfo[] = [];
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.replace(/\u001b\[[0-9;]*m/g, '').trim();
+    const match = line.match(/^(\S+)\s+(?:(\d+(?:\.\d+)?)\s+)?(\d+)x(\d+)\s+(?:(\d+) \(|Still)/);
+    if (!match) continue;
+
+    compositions.push({
+      id: match[1],
+      fps: match[2] ? parseFloat(match[2]) : null,
+      width: parseInt(match[3], 10),
+      height: parseInt(match[4], 10),
+      durationInFrames: match[5] ? parseInt(match[5], 10) : 1
+    });
+  }
+
+  return compositions;
+}
+
+/**
+ * Ask Remotion which compositions an entry point (source file or bundle directory) registers
+ */
+export async function listCompositions(projectPath: string, entryPoint: string = 'src/index.ts'): Promise<CompositionInfo[]> {
+  try {
+    return parseCompositionsOutput(await runRemotion(projectPath, ['compositions', entryPoint], 120000));
+  } catch (error) {
+    throw new Error(`Could not read compositions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Bundle the project once so several stills can be rendered without rebundling
+ */
+export async function bundleProject(projectPath: string, outDir: string): Promise<void> {
+  try {
+    await runRemotion(projectPath, ['bundle', 'src/index.ts', `--out-dir=${outDir}`, '--log=error'], 180000);
+  } catch (error) {
+    throw new Error(`Remotion bundle failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check that the project can be rendered at all
+ */
+export async function assertRenderable(projectPath: string): Promise<void> {
+  if (!await fs.pathExists(path.join(projectPath, 'node_modules', '@remotion', 'cli'))) {
+    throw new Error('Project dependencies are not installed - run install-dependencies first');
+  }
+}
+
+/**
+ * Describe a finished render: size and duration of the written file
+ */
+export async function describeRenderOutput(projectPath: string, outputPath: string, options: RenderVideoOptions): Promise<RenderVideoResult> {
+  if (!await fs.pathExists(outputPath)) {
+    throw new Error(`Render finished but no file was written to ${outputPath}`);
+  }
+
+  const stats = await fs.stat(outputPath);
+  const durationInSeconds = await probeDuration(projectPath, outputPath);
+
+  return {
+    outputPath,
+    compositionId: options.compositionId || 'Main',
+    codec: options.codec || 'h264',
+    sizeBytes: stats.size,
+    durationInSeconds
+  };
+}
+
+/**
+ * Human-readable file size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,466 @@
+// MCP Resources - Read-only view of video projects under roughcut://projects/{name}/...
+// Source files, composition settings, render outputs and render logs; subscriptions follow changes on disk
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getProjectsDir, getWindowsProjectPath } from './utils.js';
+import { PROJECT_MANIFEST_FILE } from './compositions.js';
+import { collectProjectInfo, listProjectFiles } from './project-info.js';
+import { getRenderJobsDir, getRenderQueue, RenderJob } from './render-jobs.js';
+
+export const RESOURCE_URI_PREFIX = 'roughcut://projects/';
+
+/**
+ * roughcut://projects/{name}/files/{path}    project file (src/**, package.json, ...)
+ * roughcut://projects/{name}/compositions    composition settings as JSON
+ * roughcut://projects/{name}/renders/{file}  rendered video or still in out/
+ * roughcut://projects/{name}/logs/renders    render job history with log tails
+ */
+export type ResourceTarget =
+  | { kind: 'file'; project: string; path: string }
+  | { kind: 'compositions'; project: string }
+  | { kind: 'render'; project: string; path: string }
+  | { kind: 'render-logs'; project: string };
+
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export type ResourceContents =
+  | { uri: string; mimeType: string; text: string }
+  | { uri: string; mimeType: string; blob: string };
+
+export const RESOURCE_TEMPLATES = [
+  { uriTemplate: `${RESOURCE_URI_PREFIX}{project}/files/{path}`, name: 'Project file', description: 'Source and config files of a video project (src/**, package.json, tsconfig.json, ...)' },
+  { uriTemplate: `${RESOURCE_URI_PREFIX}{project}/compositions`, name: 'Compositions', description: 'Composition settings of a project as JSON', mimeType: 'application/json' },
+  { uriTemplate: `${RESOURCE_URI_PREFIX}{project}/renders/{file}`, name: 'Render output', description: 'Rendered videos and stills in the project out/ directory' },
+  { uriTemplate: `${RESOURCE_URI_PREFIX}{project}/logs/renders`, name: 'Render logs', description: 'Render jobs of a project with the last lines of their output', mimeType: 'text/plain' }
+];
+
+// Files at the project root worth exposing; everything under src/ is listed as well
+const ROOT_FILES = ['package.json', 'tsconfig.json', 'remotion.config.ts', PROJECT_MANIFEST_FILE];
+
+// Larger render outputs are described instead of inlined as base64
+const MAX_BLOB_BYTES = 20 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.ts': 'text/typescript',
+  '.tsx': 'text/typescript',
+  '.js': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.css': 'text/css',
+  '.txt': 'text/plain',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav'
+};
+
+function mimeTypeFor(file: string): string {
+  return MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'image/svg+xml';
+}
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function encodePath(relativePath: string): string {
+  return relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * URI for a resource target
+ */
+export function formatResourceUri(target: ResourceTarget): string {
+  const base = `${RESOURCE_URI_PREFIX}${encodeURIComponent(target.project)}`;
+  switch (target.kind) {
+    case 'file': return `${base}/files/${encodePath(target.path)}`;
+    case 'compositions': return `${base}/compositions`;
+    case 'render': return `${base}/renders/${encodePath(target.path)}`;
+    case 'render-logs': return `${base}/logs/renders`;
+  }
+}
+
+/**
+ * Parse a roughcut:// URI. Paths are relative, '/'-separated and may not leave the project.
+ */
+export function parseResourceUri(uri: string): ResourceTarget {
+  if (!uri.startsWith(RESOURCE_URI_PREFIX)) {
+    throw invalid(`Unsupported resource URI '${uri}' (expected ${RESOURCE_URI_PREFIX}{project}/...)`);
+  }
+
+  let segments: string[];
+  try {
+    segments = uri.slice(RESOURCE_URI_PREFIX.length).split('/').map(decodeURIComponent);
+  } catch {
+    throw invalid(`Malformed resource URI '${uri}'`);
+  }
+  const [project, section, ...rest] = segments;
+  const relativePath = rest.join('/');
+
+  if (!project) {
+    throw invalid(`Resource URI '${uri}' has no project name`);
+  }
+  if (rest.some(segment => segment === '' || segment === '.' || segment === '..' || segment.includes('\\'))) {
+    throw invalid(`Resource URI '${uri}' has an invalid path`);
+  }
+
+  if (section === 'files' && rest.length > 0) {
+    if (rest[0] === 'node_modules') {
+      throw invalid('Files under node_modules are not exposed as resources');
+    }
+    return { kind: 'file', project, path: relativePath };
+  }
+  if (section === 'compositions' && rest.length === 0) {
+    return { kind: 'compositions', project };
+  }
+  if (section === 'renders' && rest.length > 0) {
+    return { kind: 'render', project, path: relativePath };
+  }
+  if (section === 'logs' && relativePath === 'renders') {
+    return { kind: 'render-logs', project };
+  }
+  throw invalid(`Unknown resource '${uri}' (use files/{path}, compositions, renders/{file} or logs/renders)`);
+}
+
+function projectPathFor(project: string): string {
+  try {
+    return getWindowsProjectPath(project);
+  } catch (error) {
+    throw invalid(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Path of a target on disk, relative to its project; null for generated resources
+ */
+function targetRelativePath(target: ResourceTarget): string | null {
+  switch (target.kind) {
+    case 'file': return target.path;
+    case 'render': return `out/${target.path}`;
+    default: return null;
+  }
+}
+
+/**
+ * Resources of one project
+ */
+export async function listProjectResources(project: string): Promise<ResourceInfo[]> {
+  const projectPath = projectPathFor(project);
+  const resources: ResourceInfo[] = [
+    {
+      uri: formatResourceUri({ kind: 'compositions', project }),
+      name: `${project}: compositions`,
+      description: 'Composition ids, sizes, durations and component files',
+      mimeType: 'application/json'
+    },
+    {
+      uri: formatResourceUri({ kind: 'render-logs', project }),
+      name: `${project}: render logs`,
+      description: 'Render jobs with status and the last lines of output',
+      mimeType: 'text/plain'
+    }
+  ];
+
+  const rootFiles = [];
+  for (const file of ROOT_FILES) {
+    if (await fs.pathExists(path.join(projectPath, file))) rootFiles.push(file);
+  }
+  for (const file of [...rootFiles, ...await listProjectFiles(path.join(projectPath, 'src'), 'src/')]) {
+    resources.push({ uri: formatResourceUri({ kind: 'file', project, path: file }), name: `${project}/${file}`, mimeType: mimeTypeFor(file) });
+  }
+
+  for (const file of await listProjectFiles(path.join(projectPath, 'out'))) {
+    resources.push({
+      uri: formatResourceUri({ kind: 'render', project, path: file }),
+      name: `${project}/out/${file}`,
+      description: 'Render output',
+      mimeType: mimeTypeFor(file)
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Resources of every project in the projects directory
+ */
+export async function listResources(): Promise<ResourceInfo[]> {
+  const projectsDir = getProjectsDir();
+  if (!await fs.pathExists(projectsDir)) return [];
+
+  const resources: ResourceInfo[] = [];
+  for (const entry of await fs.readdir(projectsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue; // hidden: projects still being created
+    try {
+      resources.push(...await listProjectResources(entry.name));
+    } catch {
+      // Directories with names the tools would reject are not projects
+    }
+  }
+  return resources;
+}
+
+function formatRenderJobLog(job: RenderJob): string {
+  const lines = [
+    `## ${job.id} - ${job.status}`,
+    `Composition: ${job.options.compositionId || 'default'} -> ${job.outputPath}`,
+    `Created: ${job.createdAt}${job.finishedAt ? `, finished: ${job.finishedAt}` : ''}`
+  ];
+  if (job.error) {
+    lines.push(`Error: ${job.error}`);
+  }
+  lines.push('', ...(job.logTail.length > 0 ? job.logTail : ['(no output)']));
+  return lines.join('\n');
+}
+
+/**
+ * Contents of a resource for resources/read
+ */
+export async function readResource(uri: string): Promise<ResourceContents[]> {
+  const target = parseResourceUri(uri);
+  const projectPath = projectPathFor(target.project);
+  if (!await fs.pathExists(projectPath)) {
+    throw invalid(`Project '${target.project}' not found`);
+  }
+
+  if (target.kind === 'compositions') {
+    const { settingsSource, compositions } = await collectProjectInfo(target.project, projectPath);
+    return [{ uri, mimeType: 'application/json', text: JSON.stringify({ project: target.project, source: settingsSource, compositions }, null, 2) }];
+  }
+
+  if (target.kind === 'render-logs') {
+    const jobs = (await getRenderQueue().list()).filter(job => job.project === target.project);
+    const text = jobs.length > 0 ? jobs.map(formatRenderJobLog).join('\n\n') : `No render jobs for '${target.project}'`;
+    return [{ uri, mimeType: 'text/plain', text }];
+  }
+
+  const filePath = path.join(projectPath, targetRelativePath(target)!);
+  if (!await fs.pathExists(filePath) || !(await fs.stat(filePath)).isFile()) {
+    throw invalid(`Resource '${uri}' not found`);
+  }
+
+  const mimeType = mimeTypeFor(filePath);
+  if (isTextMimeType(mimeType)) {
+    return [{ uri, mimeType, text: await fs.readFile(filePath, 'utf-8') }];
+  }
+
+  const { size } = await fs.stat(filePath);
+  if (size > MAX_BLOB_BYTES) {
+    throw invalid(`Resource '${uri}' is ${(size / 1024 / 1024).toFixed(1)} MB - too large to inline; open ${filePath} instead`);
+  }
+  return [{ uri, mimeType, blob: (await fs.readFile(filePath)).toString('base64') }];
+}
+
+/**
+ * Whether a change to a project-relative path affects a subscribed resource
+ */
+function affectsResource(target: ResourceTarget, changedPath: string): boolean {
+  if (target.kind === 'compositions') {
+    return changedPath === PROJECT_MANIFEST_FILE || changedPath === 'src/Root.tsx';
+  }
+  return changedPath === targetRelativePath(target);
+}
+
+/**
+ * Project-relative directories to watch for a resource ('' is the project root).
+ * Every ancestor is watched too, so directories created later are noticed and picked up.
+ */
+function watchedDirs(target: ResourceTarget): string[] {
+  const relativePath = targetRelativePath(target);
+  if (relativePath === null) {
+    return ['', 'src'];
+  }
+  const dirs = [''];
+  const parts = relativePath.split('/').slice(0, -1);
+  for (let i = 1; i <= parts.length; i++) {
+    dirs.push(parts.slice(0, i).join('/'));
+  }
+  return dirs;
+}
+
+const NOTIFY_DEBOUNCE_MS = 200;
+
+interface ProjectWatch {
+  projectPath: string;
+  watchers: Map<string, fs.FSWatcher>; // by project-relative directory
+}
+
+/**
+ * Watches the files behind subscribed resources and reports each changed URI once per burst of writes
+ */
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, ResourceTarget>();
+  private projectWatchers = new Map<string, ProjectWatch>();
+  private jobsWatcher: fs.FSWatcher | null = null;
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(private notify: (uri: string) => void) {}
+
+  async subscribe(uri: string): Promise<void> {
+    const target = parseResourceUri(uri);
+    const projectPath = projectPathFor(target.project);
+    if (!await fs.pathExists(projectPath)) {
+      throw invalid(`Project '${target.project}' not found`);
+    }
+
+    this.subscriptions.set(uri, target);
+    if (target.kind === 'render-logs') {
+      this.watchRenderJobs();
+    } else {
+      this.watchProject(target.project, projectPath);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const target = this.subscriptions.get(uri);
+    if (!target) return;
+    this.subscriptions.delete(uri);
+
+    const remaining = [...this.subscriptions.values()];
+    if (target.kind === 'render-logs') {
+      if (!remaining.some(other => other.kind === 'render-logs')) {
+        this.jobsWatcher?.close();
+        this.jobsWatcher = null;
+      }
+    } else if (!remaining.some(other => other.kind !== 'render-logs' && other.project === target.project)) {
+      this.closeProjectWatcher(target.project);
+    }
+  }
+
+  /**
+   * Stop every watcher (server shutdown)
+   */
+  close(): void {
+    for (const project of [...this.projectWatchers.keys()]) {
+      this.closeProjectWatcher(project);
+    }
+    this.jobsWatcher?.close();
+    this.jobsWatcher = null;
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.subscriptions.clear();
+  }
+
+  private closeProjectWatcher(project: string): void {
+    for (const watcher of this.projectWatchers.get(project)?.watchers.values() || []) {
+      watcher.close();
+    }
+    this.projectWatchers.delete(project);
+  }
+
+  /**
+   * Watch only the directories behind the project's subscriptions - a recursive watch of the project
+   * would also cover node_modules and can use up the inotify watches the studio needs on Linux
+   */
+  private watchProject(project: string, projectPath: string): void {
+    let watch = this.projectWatchers.get(project);
+    if (!watch) {
+      watch = { projectPath, watchers: new Map() };
+      this.projectWatchers.set(project, watch);
+      try {
+        watch.watchers.set('', this.watchDir(project, projectPath, ''));
+      } catch (error) {
+        this.projectWatchers.delete(project);
+        throw error;
+      }
+    }
+    this.addDirWatchers(project, watch);
+  }
+
+  /**
+   * Watch every directory the project's subscriptions need; ones that don't exist yet are retried on the next change
+   */
+  private addDirWatchers(project: string, watch: ProjectWatch): void {
+    for (const target of this.subscriptions.values()) {
+      if (target.project !== project || target.kind === 'render-logs') continue;
+      for (const dir of watchedDirs(target)) {
+        if (watch.watchers.has(dir)) continue;
+        try {
+          watch.watchers.set(dir, this.watchDir(project, path.join(watch.projectPath, dir), dir));
+        } catch {
+          // Not created yet
+        }
+      }
+    }
+  }
+
+  private watchDir(project: string, dirPath: string, dir: string): fs.FSWatcher {
+    const watcher = fs.watch(dirPath, (_, filename) => {
+      if (!filename) return;
+      const changedPath = dir ? `${dir}/${filename.toString()}` : filename.toString();
+      const watch = this.projectWatchers.get(project);
+      if (watch) {
+        this.addDirWatchers(project, watch);
+      }
+      this.projectChanged(project, changedPath);
+    });
+    watcher.on('error', () => this.closeProjectWatcher(project));
+    return watcher;
+  }
+
+  private watchRenderJobs(): void {
+    if (this.jobsWatcher) return;
+    const dir = getRenderJobsDir();
+    fs.ensureDirSync(dir);
+    this.jobsWatcher = fs.watch(dir, (_, filename) => {
+      if (filename && filename.toString().endsWith('.json')) {
+        this.renderJobChanged(path.join(dir, filename.toString()));
+      }
+    });
+    this.jobsWatcher.on('error', () => {
+      this.jobsWatcher = null;
+    });
+  }
+
+  private projectChanged(project: string, changedPath: string): void {
+    for (const [uri, target] of this.subscriptions) {
+      if (target.project === project && affectsResource(target, changedPath)) {
+        this.schedule(uri);
+      }
+    }
+  }
+
+  private async renderJobChanged(jobFile: string): Promise<void> {
+    let project: string;
+    try {
+      project = (await fs.readJson(jobFile)).project;
+    } catch {
+      // Half-written or deleted job file; the next write triggers another event
+      return;
+    }
+    for (const [uri, target] of this.subscriptions) {
+      if (target.kind === 'render-logs' && target.project === project) {
+        this.schedule(uri);
+      }
+    }
+  }
+
+  private schedule(uri: string): void {
+    clearTimeout(this.pending.get(uri));
+    this.pending.set(uri, setTimeout(() => {
+      this.pending.delete(uri);
+      if (this.subscriptions.has(uri)) {
+        this.notify(uri);
+      }
+    }, NOTIFY_DEBOUNCE_MS));
+  }
+}
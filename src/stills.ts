@@ -0,0 +1,197 @@
+// Still Rendering - Renders individual frames so the model can see its own animation
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { bundleProject, listCompositions, runRemotion, CompositionInfo } from './render.js';
+import { COMPOSITION_ID_PATTERN } from './compositions.js';
+import { decodePng, encodePng, tileImages } from './utils/png.js';
+
+export type StillImageFormat = 'png' | 'jpeg';
+
+export const MAX_STILLS_PER_CALL = 12;
+
+export interface RenderStillsOptions {
+  compositionId?: string;
+  frames?: number[];
+  contactSheet?: number;
+  imageFormat?: StillImageFormat;
+  scale?: number;
+}
+
+export interface RenderedStill {
+  frame: number | null;
+  filePath: string;
+  mimeType: string;
+  data: string;
+}
+
+export interface RenderStillsResult {
+  composition: CompositionInfo;
+  frames: number[];
+  images: RenderedStill[];
+}
+
+/**
+ * Pick `count` frames spread evenly from the first to the last frame
+ */
+export function pickEvenlySpacedFrames(durationInFrames: number, count: number): number[] {
+  if (count <= 1 || durationInFrames <= 1) {
+    return [0];
+  }
+  const frames = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    frames.add(Math.round((i * (durationInFrames - 1)) / (count - 1)));
+  }
+  return [...frames];
+}
+
+/**
+ * Grid size for a contact sheet: as square as possible, wider than tall
+ */
+export function contactSheetGrid(count: number): { columns: number; rows: number } {
+  const columns = Math.ceil(Math.sqrt(count));
+  return { columns, rows: Math.ceil(count / columns) };
+}
+
+/**
+ * Check still options before bundling the project
+ */
+export function validateStillOptions(options: RenderStillsOptions): string[] {
+  const errors: string[] = [];
+
+  if (options.compositionId !== undefined && !COMPOSITION_ID_PATTERN.test(options.compositionId)) {
+    errors.push(`compositionId '${options.compositionId}' may only contain letters, digits and '-'`);
+  }
+  if (options.imageFormat && options.imageFormat !== 'png' && options.imageFormat !== 'jpeg') {
+    errors.push(`imageFormat must be png or jpeg (got ${options.imageFormat})`);
+  }
+  if (options.scale !== undefined && (typeof options.scale !== 'number' || options.scale <= 0 || options.scale > 4)) {
+    errors.push(`scale must be greater than 0 and at most 4 (got ${options.scale})`);
+  }
+  if (options.contactSheet !== undefined) {
+    if (!Number.isInteger(options.contactSheet) || options.contactSheet < 2 || options.contactSheet > MAX_STILLS_PER_CALL) {
+      errors.push(`contactSheet must be an integer between 2 and ${MAX_STILLS_PER_CALL} (got ${options.contactSheet})`);
+    }
+  } else {
+    const frames = options.frames || [0];
+    if (frames.length === 0 || frames.length > MAX_STILLS_PER_CALL) {
+      errors.push(`Request between 1 and ${MAX_STILLS_PER_CALL} frames (got ${frames.length})`);
+    }
+    for (const frame of frames) {
+      if (!Number.isInteger(frame) || frame < 0) {
+        errors.push(`Frame numbers must be non-negative integers (got ${frame})`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+async function renderStill(projectPath: string, bundleDir: string, compositionId: string, frame: number, outputPath: string, imageFormat: StillImageFormat, scale: number): Promise<void> {
+  try {
+    await runRemotion(projectPath, [
+      'still', bundleDir, compositionId, outputPath,
+      `--frame=${frame}`, `--image-format=${imageFormat}`, `--scale=${scale}`, '--log=error'
+    ], 120000);
+  } catch (error) {
+    throw new Error(`Remotion still failed for frame ${frame}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function buildContactSheet(projectPath: string, framePaths: string[], outputPath: string, imageFormat: StillImageFormat): Promise<void> {
+  const { columns } = contactSheetGrid(framePaths.length);
+  const images = await Promise.all(framePaths.map(async framePath => decodePng(await fs.readFile(framePath))));
+  const sheet = encodePng(tileImages(images, columns));
+
+  if (imageFormat === 'png') {
+    await fs.writeFile(outputPath, sheet);
+    return;
+  }
+
+  // JPEG output: convert with the ffmpeg bundled with Remotion
+  const pngPath = `${outputPath}.png`;
+  await fs.writeFile(pngPath, sheet);
+  try {
+    await runRemotion(projectPath, ['ffmpeg', '-y', '-v', 'error', '-i', pngPath, '-q:v', '3', outputPath], 60000);
+  } catch (error) {
+    throw new Error(`Could not convert contact sheet to JPEG: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await fs.remove(pngPath).catch(() => {});
+  }
+}
+
+/**
+ * Render frames of a composition to images and return them base64-encoded.
+ * Files are kept in <project>/out/stills for later inspection.
+ */
+export async function renderProjectStills(projectPath: string, options: RenderStillsOptions): Promise<RenderStillsResult> {
+  const compositionId = options.compositionId || 'Main';
+  if (!COMPOSITION_ID_PATTERN.test(compositionId)) {
+    throw new Error(`compositionId '${compositionId}' may only contain letters, digits and '-'`);
+  }
+  const imageFormat = options.imageFormat || 'png';
+  const scale = options.scale ?? 0.5;
+  const extension = imageFormat === 'png' ? 'png' : 'jpeg';
+  const mimeType = imageFormat === 'png' ? 'image/png' : 'image/jpeg';
+
+  const workDir = path.join(os.tmpdir(), `roughcut-stills-${uuidv4()}`);
+  const bundleDir = path.join(workDir, 'bundle');
+  const stillsDir = path.join(projectPath, 'out', 'stills');
+
+  try {
+    await fs.ensureDir(workDir);
+    await fs.ensureDir(stillsDir);
+    await bundleProject(projectPath, bundleDir);
+
+    const composition = (await listCompositions(projectPath, bundleDir)).find(c => c.id === compositionId);
+    if (!composition) {
+      throw new Error(`Composition '${compositionId}' not found in project`);
+    }
+
+    const frames = options.contactSheet
+      ? pickEvenlySpacedFrames(composition.durationInFrames, options.contactSheet)
+      : (options.frames || [0]);
+
+    const outOfRange = frames.filter(frame => frame >= composition.durationInFrames);
+    if (outOfRange.length > 0) {
+      throw new Error(`Frames ${outOfRange.join(', ')} are outside the composition (0-${composition.durationInFrames - 1})`);
+    }
+
+    const images: RenderedStill[] = [];
+
+    if (options.contactSheet) {
+      // Tiles are always rendered as PNG so they can be composed losslessly
+      const framePaths: string[] = [];
+      for (const frame of frames) {
+        const framePath = path.join(workDir, `sheet-${frame}.png`);
+        await renderStill(projectPath, bundleDir, compositionId, frame, framePath, 'png', scale);
+        framePaths.push(framePath);
+      }
+      const sheetPath = path.join(stillsDir, `${compositionId}-contact-sheet.${extension}`);
+      await buildContactSheet(projectPath, framePaths, sheetPath, imageFormat);
+      images.push({
+        frame: null,
+        filePath: sheetPath,
+        mimeType,
+        data: (await fs.readFile(sheetPath)).toString('base64')
+      });
+    } else {
+      for (const frame of frames) {
+        const framePath = path.join(stillsDir, `${compositionId}-${frame}.${extension}`);
+        await renderStill(projectPath, bundleDir, compositionId, frame, framePath, imageFormat, scale);
+        images.push({
+          frame,
+          filePath: framePath,
+          mimeType,
+          data: (await fs.readFile(framePath)).toString('base64')
+        });
+      }
+    }
+
+    return { composition, frames, images };
+
+  } finally {
+    await fs.remove(workDir).catch(() => {});
+  }
+}
@@ -0,0 +1,434 @@
+// Studio Supervisor - Runs Remotion Studio as a long-lived child process per project
+// Output goes to a ring buffer; a studio is ready once it prints "Server ready" and answers HTTP
+// Ready studios are recorded in <project>/.roughcut/studio.json so the binding survives a server restart
+import spawn from 'cross-spawn';
+import treeKill from 'tree-kill';
+import { ChildProcess } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { RingBuffer } from './utils/ring-buffer.js';
+import { checkStudioHealth, findProcessOnPort, isPortFree, getProjectsDir } from './utils.js';
+import { StudioBinding } from './project-info.js';
+
+export const STUDIO_RECORD_FILE = path.join('.roughcut', 'studio.json');
+
+// 'exited' is a requested stop, 'crashed' an exit nobody asked for after the studio was ready
+export type StudioStatus = 'starting' | 'ready' | 'exited' | 'failed' | 'crashed';
+
+export type StudioLogLevel = 'error' | 'warn' | 'info';
+
+export const STUDIO_LOG_LEVELS: StudioLogLevel[] = ['error', 'warn', 'info'];
+
+export interface StudioLogLine {
+  time: string;
+  stream: 'stdout' | 'stderr';
+  level: StudioLogLevel;
+  text: string;
+}
+
+export interface StudioLogFilter {
+  tail?: number;
+  since?: string; // ISO timestamp
+  level?: StudioLogLevel; // this level and more severe
+}
+
+export interface StudioInstance {
+  project: string;
+  projectPath: string;
+  port: number;
+  pid: number | null;
+  url: string;
+  status: StudioStatus;
+  startedAt: string;
+  readyAt?: string;
+  exitedAt?: string;
+  exitCode?: number | null;
+  error?: string;
+}
+
+/**
+ * Contents of .roughcut/studio.json
+ */
+export interface StudioRecord {
+  project: string;
+  port: number;
+  pid: number | null;
+  listenerPid: number | null; // process holding the port, checked before the record is trusted
+  url: string;
+  startedAt: string;
+}
+
+interface ManagedStudio {
+  info: StudioInstance;
+  child: ChildProcess;
+  logs: RingBuffer<StudioLogLine>;
+  readyLineSeen: boolean;
+  stopping: boolean; // a requested stop is in progress, so an exit is not a crash
+  closed: Promise<void>;
+}
+
+const LOG_BUFFER_LINES = 2000;
+const READY_PATTERN = /server ready/i;
+const DEFAULT_READY_TIMEOUT_MS = 90000;
+const READY_POLL_MS = 500;
+const STOP_TIMEOUT_MS = 5000; // grace period after SIGTERM, and again after SIGKILL
+
+/**
+ * Level of a studio output line, from its wording (the CLI writes progress to stderr too)
+ */
+export function classifyStudioLogLine(text: string): StudioLogLevel {
+  if (/\berror\b|✘|✖|\bfailed\b|exception/i.test(text)) return 'error';
+  if (/\bwarn(ing)?\b|⚠|deprecat/i.test(text)) return 'warn';
+  return 'info';
+}
+
+/**
+ * Lines matching a filter; tail applies last
+ */
+export function filterStudioLogs(lines: StudioLogLine[], filter: StudioLogFilter = {}): StudioLogLine[] {
+  const maxRank = STUDIO_LOG_LEVELS.indexOf(filter.level || 'info');
+  let result = lines.filter(line => STUDIO_LOG_LEVELS.indexOf(line.level) <= maxRank);
+  if (filter.since) {
+    const since = new Date(filter.since).getTime();
+    result = result.filter(line => new Date(line.time).getTime() >= since);
+  }
+  return filter.tail !== undefined ? result.slice(-Math.max(0, filter.tail)) : result;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Signal a studio's process tree; on POSIX its process group also reaches children that outlived npx
+ */
+function signalTree(pid: number, signal: NodeJS.Signals): void {
+  if (process.platform !== 'win32') {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Group already gone
+    }
+  }
+  try {
+    treeKill(pid, signal);
+  } catch {
+    // Process already gone
+  }
+}
+
+export class StudioSupervisor {
+  private studios = new Map<string, ManagedStudio>();
+
+  constructor(private stopTimeoutMs: number = STOP_TIMEOUT_MS) {}
+
+  private appendLog(studio: ManagedStudio, stream: StudioLogLine['stream'], chunk: string): void {
+    for (const rawLine of chunk.split(/\r?\n|\r/)) {
+      // Strip ANSI colour codes from the CLI output
+      const text = rawLine.replace(/\u001b\[[0-9;]*m/g, '').trimEnd();
+      if (!text.trim()) continue;
+
+      studio.logs.push({ time: new Date().toISOString(), stream, level: classifyStudioLogLine(text), text });
+      if (READY_PATTERN.test(text)) {
+        studio.readyLineSeen = true;
+      }
+    }
+  }
+
+  private isRunning(studio: ManagedStudio): boolean {
+    return studio.info.status === 'starting' || studio.info.status === 'ready';
+  }
+
+  private lastLines(studio: ManagedStudio, count: number): string {
+    return studio.logs.toArray().slice(-count).map(line => line.text).join('\n');
+  }
+
+  /**
+   * Start a studio for a project and wait until it is ready. Any studio already serving
+   * the project or holding the port is stopped first.
+   */
+  async start(project: string, projectPath: string, port: number, readyTimeoutMs: number = DEFAULT_READY_TIMEOUT_MS): Promise<StudioInstance> {
+    // Only this project's own studio is replaced - other studios and processes keep their ports
+    await this.stopForProject(project, projectPath);
+    await this.assertPortAvailable(port);
+
+    const child = spawn('npx', ['remotion', 'studio', '--port', String(port)], {
+      cwd: projectPath,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32', // own process group, so the whole tree can be stopped
+      windowsHide: true
+    });
+
+    const studio: ManagedStudio = {
+      info: {
+        project,
+        projectPath,
+        port,
+        pid: child.pid ?? null,
+        url: `http://localhost:${port}`,
+        status: 'starting',
+        startedAt: new Date().toISOString()
+      },
+      child,
+      logs: new RingBuffer<StudioLogLine>(LOG_BUFFER_LINES),
+      readyLineSeen: false,
+      stopping: false,
+      closed: new Promise<void>(resolve => child.once('close', () => resolve()))
+    };
+    this.studios.set(project, studio);
+
+    child.stdout?.on('data', data => this.appendLog(studio, 'stdout', data.toString()));
+    child.stderr?.on('data', data => this.appendLog(studio, 'stderr', data.toString()));
+
+    child.on('error', error => {
+      studio.info.status = 'failed';
+      studio.info.error = `Studio process error: ${error.message}`;
+    });
+
+    child.on('close', (code, signal) => {
+      this.removeRecord(studio).catch(() => undefined);
+      studio.info.exitCode = code;
+      studio.info.exitedAt = new Date().toISOString();
+      if (studio.stopping) {
+        studio.info.status = 'exited';
+      } else if (studio.info.status === 'starting') {
+        studio.info.status = 'failed';
+        studio.info.error = studio.info.error || `Studio exited with code ${code} before it was ready`;
+      } else if (studio.info.status === 'ready') {
+        studio.info.status = 'crashed';
+        studio.info.error = `Studio exited unexpectedly (${code !== null ? `code ${code}` : `signal ${signal}`})`;
+      }
+    });
+
+    await this.waitUntilReady(studio, readyTimeoutMs);
+    return { ...studio.info };
+  }
+
+  private async waitUntilReady(studio: ManagedStudio, timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (studio.info.status !== 'starting') {
+        const output = this.lastLines(studio, 10);
+        throw new Error(`${studio.info.error || 'Studio stopped while starting'}${output ? `\n${output}` : ''}`);
+      }
+      if (studio.readyLineSeen && await checkStudioHealth(studio.info.port)) {
+        studio.info.status = 'ready';
+        studio.info.readyAt = new Date().toISOString();
+        await this.writeRecord(studio);
+        return;
+      }
+      await delay(READY_POLL_MS);
+    }
+
+    const output = this.lastLines(studio, 10);
+    await this.stop(studio.info.project).catch(() => undefined);
+    studio.info.status = 'failed';
+    studio.info.error = `Studio was not ready after ${Math.round(timeoutMs / 1000)}s`;
+    throw new Error(`${studio.info.error}${studio.readyLineSeen ? ' (it printed "Server ready" but did not answer HTTP requests)' : ''}${output ? `\n${output}` : ''}`);
+  }
+
+  private async writeRecord(studio: ManagedStudio): Promise<void> {
+    const record: StudioRecord = {
+      project: studio.info.project,
+      port: studio.info.port,
+      pid: studio.info.pid,
+      listenerPid: await findProcessOnPort(studio.info.port),
+      url: studio.info.url,
+      startedAt: studio.info.startedAt
+    };
+    try {
+      await fs.outputJson(path.join(studio.info.projectPath, STUDIO_RECORD_FILE), record, { spaces: 2 });
+    } catch {
+      // The record only helps after a restart - the in-memory registry is authoritative
+    }
+  }
+
+  private async removeRecord(studio: ManagedStudio): Promise<void> {
+    const record = await readStudioRecord(studio.info.projectPath);
+    if (record?.startedAt === studio.info.startedAt) {
+      await fs.remove(path.join(studio.info.projectPath, STUDIO_RECORD_FILE));
+    }
+  }
+
+  /**
+   * Throw if another studio or any other process holds the port
+   */
+  async assertPortAvailable(port: number): Promise<void> {
+    const onPort = this.findByPort(port);
+    if (onPort) {
+      throw new Error(`Port ${port} is used by the studio for '${onPort.project}' - choose another port or let one be picked`);
+    }
+    if (!await isPortFree(port)) {
+      const pid = await findProcessOnPort(port);
+      throw new Error(`Port ${port} is in use by ${pid ? `PID ${pid}` : 'another process'}, which this server did not start - choose another port or let one be picked`);
+    }
+  }
+
+  /**
+   * First port in the list that no studio or other process holds; nothing is stopped to make room
+   */
+  async allocatePort(ports: number[]): Promise<number> {
+    for (const port of ports) {
+      if (this.findByPort(port)) continue;
+      if (await isPortFree(port)) return port;
+    }
+    throw new Error(`No free studio port in ${ports[0]}-${ports[ports.length - 1]} - stop a studio or widen studioPortRange`);
+  }
+
+  /**
+   * Studio serving a project: the one this server runs, or one recorded by an earlier
+   * server session whose process still holds its port. Other studios are never reported.
+   */
+  async findForProject(project: string, projectPath: string): Promise<StudioBinding | null> {
+    const running = await this.getRunning(project);
+    if (running) {
+      return { port: running.port, pid: running.pid, url: running.url, startedAt: running.startedAt, managed: true };
+    }
+
+    const record = await verifiedStudioRecord(projectPath);
+    return record?.project === project ? { port: record.port, pid: record.listenerPid, url: record.url, startedAt: record.startedAt, managed: false } : null;
+  }
+
+  /**
+   * Stop the studio this server runs for a project; studios of other projects are left alone.
+   * One recorded by an earlier session is not supervised here, so it is reported instead of killed.
+   */
+  async stopForProject(project: string, projectPath: string): Promise<StudioBinding | null> {
+    const studio = await this.findForProject(project, projectPath);
+    if (!studio) return null;
+
+    if (!studio.managed) {
+      throw new Error(`The studio for '${project}' on port ${studio.port} (PID ${studio.pid ?? 'unknown'}) was started by an earlier server session - this server does not stop processes it did not start, stop it yourself and retry`);
+    }
+    await this.stop(project);
+    return studio;
+  }
+
+  /**
+   * Stop a project's studio and its child processes; false if none was running.
+   * SIGTERM is followed by SIGKILL after the grace period; throws if the studio still holds its port after that.
+   */
+  async stop(project: string): Promise<boolean> {
+    const studio = this.studios.get(project);
+    if (!studio || !this.isRunning(studio)) return false;
+
+    studio.stopping = true;
+    if (!await this.terminate(studio)) {
+      studio.stopping = false;
+      throw new Error(`The studio for '${project}' (PID ${studio.info.pid}) did not exit after SIGTERM and SIGKILL and still holds port ${studio.info.port}`);
+    }
+    studio.info.status = 'exited';
+    studio.info.exitedAt = studio.info.exitedAt || new Date().toISOString();
+    await this.removeRecord(studio).catch(() => undefined);
+    return true;
+  }
+
+  /**
+   * True once the studio process has exited, or at least no longer holds its port
+   */
+  private async terminate(studio: ManagedStudio): Promise<boolean> {
+    const exited = () => Promise.race([studio.closed.then(() => true), delay(this.stopTimeoutMs).then(() => false)]);
+    const pid = studio.child.pid;
+    if (!pid || studio.child.exitCode !== null || studio.child.signalCode !== null) {
+      return await exited() || await isPortFree(studio.info.port);
+    }
+
+    signalTree(pid, 'SIGTERM');
+    if (await exited()) return true;
+    signalTree(pid, 'SIGKILL');
+    return await exited() || await isPortFree(studio.info.port);
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all([...this.studios.keys()].map(project => this.stop(project)));
+  }
+
+  /**
+   * A project's studio, including ones that have exited (their logs stay readable)
+   */
+  get(project: string): StudioInstance | undefined {
+    const studio = this.studios.get(project);
+    return studio ? { ...studio.info } : undefined;
+  }
+
+  /**
+   * Running studio for a project, if its process still holds the port
+   */
+  async getRunning(project: string): Promise<StudioInstance | null> {
+    const studio = this.studios.get(project);
+    if (!studio || !this.isRunning(studio)) return null;
+    if (studio.info.status === 'ready' && !await findProcessOnPort(studio.info.port)) {
+      return null;
+    }
+    return { ...studio.info };
+  }
+
+  findByPort(port: number): StudioInstance | undefined {
+    const studio = [...this.studios.values()].find(candidate => candidate.info.port === port && this.isRunning(candidate));
+    return studio ? { ...studio.info } : undefined;
+  }
+
+  list(): StudioInstance[] {
+    return [...this.studios.values()].map(studio => ({ ...studio.info }));
+  }
+
+  logs(project: string, filter?: StudioLogFilter): StudioLogLine[] {
+    return filterStudioLogs(this.studios.get(project)?.logs.toArray() || [], filter);
+  }
+
+  /**
+   * Output lines overwritten because the buffer was full
+   */
+  droppedLogLines(project: string): number {
+    return this.studios.get(project)?.logs.droppedCount || 0;
+  }
+}
+
+export async function readStudioRecord(projectPath: string): Promise<StudioRecord | null> {
+  try {
+    return await fs.readJson(path.join(projectPath, STUDIO_RECORD_FILE));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A project's studio record if the recorded process still listens on the port; stale records are removed
+ */
+export async function verifiedStudioRecord(projectPath: string): Promise<StudioRecord | null> {
+  const record = await readStudioRecord(projectPath);
+  if (!record) return null;
+
+  const pid = await findProcessOnPort(record.port);
+  if (pid && (record.listenerPid === null || pid === record.listenerPid)) {
+    return record;
+  }
+  await fs.remove(path.join(projectPath, STUDIO_RECORD_FILE)).catch(() => undefined);
+  return null;
+}
+
+/**
+ * Verified studio records of every project, for studios started by an earlier server session
+ */
+export async function listRecordedStudios(): Promise<StudioRecord[]> {
+  const projectsDir = getProjectsDir();
+  const records: StudioRecord[] = [];
+  for (const entry of await fs.readdir(projectsDir, { withFileTypes: true }).catch(() => [] as fs.Dirent[])) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    const record = await verifiedStudioRecord(path.join(projectsDir, entry.name));
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+let supervisor: StudioSupervisor | null = null;
+
+/**
+ * Shared studio supervisor for the server process
+ */
+export function getStudioSupervisor(): StudioSupervisor {
+  if (!supervisor) {
+    supervisor = new StudioSupervisor();
+  }
+  return supervisor;
+}
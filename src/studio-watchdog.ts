@@ -0,0 +1,263 @@
+// Studio Watchdog - Probes supervised studios on an interval and restarts crashed or hung ones with backoff
+// Restarts are kept per project and reported as events (sent to MCP clients as logging notifications)
+import * as fs from 'fs-extra';
+import { RingBuffer } from './utils/ring-buffer.js';
+import { checkStudioHealth, getStudioPorts } from './utils.js';
+import { StudioSupervisor, StudioInstance, getStudioSupervisor } from './studio-supervisor.js';
+
+export type StudioEventLevel = 'info' | 'warning' | 'error';
+
+export interface StudioEvent {
+  level: StudioEventLevel;
+  project: string;
+  message: string;
+}
+
+export interface StudioRestart {
+  time: string;
+  reason: string;
+  attempt: number;
+  success: boolean;
+  port: number;
+  error?: string;
+  lastOutput: string[]; // output of the studio that went down
+}
+
+export interface StudioWatchdogOptions {
+  intervalMs: number;
+  maxAttempts: number; // consecutive restarts before giving up
+  backoffMs: number; // delay before the first restart, doubled for each further attempt
+  failedProbes: number; // health checks in a row a running studio may fail before it counts as hung
+  stableAfterMs: number; // a restarted studio up this long starts over with a fresh attempt budget
+}
+
+const DEFAULT_OPTIONS: StudioWatchdogOptions = {
+  intervalMs: 15000,
+  maxAttempts: 3,
+  backoffMs: 2000,
+  failedProbes: 2,
+  stableAfterMs: 60000
+};
+const MAX_BACKOFF_MS = 60000;
+const RESTART_HISTORY = 20;
+const LAST_OUTPUT_LINES = 10;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+interface WatchState {
+  attempts: number;
+  failedProbes: number;
+  recovering: { reason: string; startedAt: string; nextAttemptAt: number } | null; // startedAt of the latest instance seen down
+  restartedStartedAt: string | null; // startedAt of the studio the watchdog last brought up
+  gaveUpStartedAt: string | null; // startedAt of a crashed studio left down, so it is reported once
+  history: RingBuffer<StudioRestart>;
+}
+
+export class StudioWatchdog {
+  private options: StudioWatchdogOptions;
+  private states = new Map<string, WatchState>();
+  private timer: NodeJS.Timeout | null = null;
+  private retryTimers = new Set<NodeJS.Timeout>();
+  private checking: Promise<void> | null = null;
+
+  constructor(
+    private supervisor: StudioSupervisor,
+    options: Partial<StudioWatchdogOptions> = {},
+    private notify: (event: StudioEvent) => void = () => undefined
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Probe every intervalMs until stop(); events go to notify when given
+   */
+  start(notify?: (event: StudioEvent) => void): void {
+    if (notify) this.notify = notify;
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch(() => undefined);
+    }, this.options.intervalMs);
+    this.timer.unref(); // never keeps the server alive on its own
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  /**
+   * One probe of every supervised studio; overlapping calls share the running pass
+   */
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = (async () => {
+        for (const studio of this.supervisor.list()) {
+          await this.checkStudio(studio);
+        }
+      })().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Automatic restarts of a project's studio, oldest first
+   */
+  restarts(project: string): StudioRestart[] {
+    return this.states.get(project)?.history.toArray() || [];
+  }
+
+  /**
+   * Whether a restart of the project's studio is pending
+   */
+  isRecovering(project: string): boolean {
+    return !!this.states.get(project)?.recovering;
+  }
+
+  private stateFor(project: string): WatchState {
+    let state = this.states.get(project);
+    if (!state) {
+      state = { attempts: 0, failedProbes: 0, recovering: null, restartedStartedAt: null, gaveUpStartedAt: null, history: new RingBuffer<StudioRestart>(RESTART_HISTORY) };
+      this.states.set(project, state);
+    }
+    return state;
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(this.options.backoffMs * 2 ** attempt, MAX_BACKOFF_MS);
+  }
+
+  /**
+   * Check again once a backoff has passed instead of waiting for the next interval
+   */
+  private scheduleCheck(delayMs: number): void {
+    if (!this.timer) return;
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      this.check().catch(() => undefined);
+    }, delayMs);
+    timer.unref();
+    this.retryTimers.add(timer);
+  }
+
+  private async checkStudio(studio: StudioInstance): Promise<void> {
+    const state = this.stateFor(studio.project);
+
+    if (state.recovering) {
+      // Relaunched by hand in the meantime - the crash is no longer ours to handle
+      if (studio.startedAt !== state.recovering.startedAt) {
+        state.recovering = null;
+        state.attempts = 0;
+      } else {
+        await this.attemptRestart(studio, state);
+        return;
+      }
+    }
+
+    if (studio.status === 'ready') {
+      if (await checkStudioHealth(studio.port)) {
+        state.failedProbes = 0;
+        const startedByUser = studio.startedAt !== state.restartedStartedAt;
+        const stable = Date.now() - new Date(studio.readyAt || studio.startedAt).getTime() >= this.options.stableAfterMs;
+        if (startedByUser || stable) state.attempts = 0;
+        return;
+      }
+      state.failedProbes++;
+      if (state.failedProbes < this.options.failedProbes) return;
+
+      // The process is alive but has stopped answering (out of memory, stuck build)
+      state.failedProbes = 0;
+      const reason = `not answering on port ${studio.port} after ${this.options.failedProbes} health checks`;
+      try {
+        await this.supervisor.stop(studio.project);
+      } catch (error) {
+        // A second studio next to one that cannot be killed would only leak another process
+        this.notify({ level: 'error', project: studio.project, message: `Studio for ${studio.project} went down: ${reason} - not restarting, ${error instanceof Error ? error.message : String(error)}` });
+        return;
+      }
+      this.beginRecovery(studio, state, reason);
+    } else if (studio.status === 'crashed' && studio.startedAt !== state.gaveUpStartedAt) {
+      this.beginRecovery(studio, state, studio.error || 'Studio exited unexpectedly');
+    }
+  }
+
+  private beginRecovery(studio: StudioInstance, state: WatchState, reason: string): void {
+    if (state.attempts >= this.options.maxAttempts) {
+      state.gaveUpStartedAt = studio.startedAt;
+      this.notify({ level: 'error', project: studio.project, message: `Studio for ${studio.project} went down again: ${reason} - not restarting after ${state.attempts} attempts, use launch-studio` });
+      return;
+    }
+    const delayMs = this.backoff(state.attempts);
+    state.recovering = { reason, startedAt: studio.startedAt, nextAttemptAt: Date.now() + delayMs };
+    this.notify({ level: 'warning', project: studio.project, message: `Studio for ${studio.project} went down: ${reason} - restarting in ${Math.round(delayMs / 1000)}s` });
+    this.scheduleCheck(delayMs);
+  }
+
+  private async attemptRestart(studio: StudioInstance, state: WatchState): Promise<void> {
+    const recovering = state.recovering!;
+    if (Date.now() < recovering.nextAttemptAt) return;
+
+    // A deleted project has nothing to restart
+    if (!await fs.pathExists(studio.projectPath)) {
+      state.recovering = null;
+      return;
+    }
+
+    state.attempts++;
+    const lastOutput = this.supervisor.logs(studio.project, { tail: LAST_OUTPUT_LINES }).map(line => line.text);
+    const restart: StudioRestart = { time: new Date().toISOString(), reason: recovering.reason, attempt: state.attempts, success: false, port: studio.port, lastOutput };
+    try {
+      if (studio.pid && isProcessAlive(studio.pid)) {
+        throw new Error(`The previous studio (PID ${studio.pid}) is still running`);
+      }
+      // Keep the port unless something else took it meanwhile
+      const port = await this.supervisor.assertPortAvailable(studio.port).then(() => studio.port, () => this.supervisor.allocatePort(getStudioPorts()));
+      restart.port = port;
+      const restarted = await this.supervisor.start(studio.project, studio.projectPath, port);
+      restart.success = true;
+      state.recovering = null;
+      state.restartedStartedAt = restarted.startedAt;
+      state.history.push(restart);
+      this.notify({ level: 'info', project: studio.project, message: `Studio for ${studio.project} restarted on port ${port} (attempt ${state.attempts}/${this.options.maxAttempts})` });
+    } catch (error) {
+      restart.error = error instanceof Error ? error.message : String(error);
+      state.history.push(restart);
+      if (state.attempts >= this.options.maxAttempts) {
+        state.recovering = null;
+        this.notify({ level: 'error', project: studio.project, message: `Studio for ${studio.project} could not be restarted after ${state.attempts} attempts - ${restart.error.split('\n')[0]}` });
+        return;
+      }
+      const delayMs = this.backoff(state.attempts);
+      recovering.nextAttemptAt = Date.now() + delayMs;
+      recovering.startedAt = this.supervisor.get(studio.project)?.startedAt || recovering.startedAt;
+      this.notify({ level: 'warning', project: studio.project, message: `Restart ${state.attempts}/${this.options.maxAttempts} of the studio for ${studio.project} failed - retrying in ${Math.round(delayMs / 1000)}s` });
+      this.scheduleCheck(delayMs);
+    }
+  }
+}
+
+let watchdog: StudioWatchdog | null = null;
+
+/**
+ * Shared watchdog over the shared studio supervisor
+ */
+export function getStudioWatchdog(): StudioWatchdog {
+  if (!watchdog) {
+    watchdog = new StudioWatchdog(getStudioSupervisor());
+  }
+  return watchdog;
+}
@@ -3,27 +3,72 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { getWindowsProjectPath, killProcessOnPort, findProcessOnPort, getAssetsDir, getSystemStatus, findStudioPort, checkStudioHealth } from './utils.js';
+import { getWindowsProjectPath, findProcessOnPort, getProjectsDir, getStudioPorts } from './utils.js';
+import { ProjectNameError, PROJECT_NAME_RULES } from './utils/project-name.js';
+import { JSXValidator, JSXValidationResult } from './utils/jsx-validator.js';
+import { readProjectManifest, writeProjectManifest, applyCompositionSettings, defaultCompositionSettings, formatCompositionSettings, findComposition, componentNameForId, componentFilePath, CompositionSettingsInput, ProjectManifest, PROJECT_MANIFEST_FILE } from './compositions.js';
+import { loadPromptTemplates, selectPromptTemplate, renderPromptTemplate, getPromptTemplatesDir, ANIMATION_STYLES, PromptTemplateParams } from './prompt-templates/index.js';
+import { lintProject, REMOTION_LINT_RULES, LintFinding, FileLintResult } from './lint/index.js';
+import { typeCheckProjectFile, formatTypeDiagnostics, TypeCheckMode, TypeCheckResult, TYPE_CHECK_MODES } from './utils/type-checker.js';
+import { getConfig, getConfigEntries, getConfigFilePath, getConfigOverrideNames, getConfigWarnings, updateConfigFile, ConfigKey, CONFIG_KEYS } from './config.js';
+import { validateRenderOptions, assertRenderable, formatBytes, RenderVideoOptions } from './render.js';
+import { getRenderQueue, formatEta, RenderJob, RenderJobStatus } from './render-jobs.js';
+import { collectProjectInfo, checkProjectHealth, formatProjectHealth, StudioBinding } from './project-info.js';
+import { editElements, ElementTarget, ElementChanges } from './utils/element-editor.js';
+import { createUnifiedDiff } from './utils/diff.js';
+import { applyUnifiedDiff, applySearchReplace, SearchReplaceBlock } from './utils/patch.js';
+import { ProjectTransaction, writeProjectFiles, createProjectAtomically } from './project-transaction.js';
+import { ProjectHistory, HistoryVersion, HistoryMove, formatVersion } from './history.js';
+import { getStudioSupervisor, listRecordedStudios, StudioInstance, StudioLogLevel, STUDIO_LOG_LEVELS } from './studio-supervisor.js';
+import { getStudioWatchdog } from './studio-watchdog.js';
+import { parseCompileErrors, formatCompileError } from './utils/compile-errors.js';
+import { moveToTrash, listTrash, findTrashEntry, restoreFromTrash, emptyTrash, validateTrashReference } from './trash.js';
+import { renderProjectStills, validateStillOptions, RenderStillsOptions, MAX_STILLS_PER_CALL } from './stills.js';
 
 const execAsync = promisify(exec);
 
+// Composition settings accepted by create-video and update-composition-settings
+const COMPOSITION_SETTINGS_PROPERTIES = {
+  id: { type: 'string', description: 'Composition id (letters, digits and -)' },
+  durationInFrames: { type: 'number', description: 'Duration in frames' },
+  durationSeconds: { type: 'number', description: 'Duration in seconds, converted with fps (alternative to durationInFrames)' },
+  fps: { type: 'number', description: 'Frames per second' },
+  width: { type: 'number', description: 'Width in pixels (even)' },
+  height: { type: 'number', description: 'Height in pixels (even)' },
+  defaultProps: { type: 'object', description: 'Props passed to the composition component (JSON object)' }
+};
+
+function compositionSettingsInput(args: any): CompositionSettingsInput {
+  return {
+    id: args.id,
+    durationInFrames: args.durationInFrames,
+    durationSeconds: args.durationSeconds,
+    fps: args.fps,
+    width: args.width,
+    height: args.height,
+    defaultProps: args.defaultProps
+  };
+}
+
 export function getTools() {
   return [
     {
       name: 'launch-studio',
-      description: 'Launch Remotion Studio for a project on specified port (actually works!)',
+      description: 'Launch Remotion Studio for a project, reusing its studio if one is already running. Returns the chosen port',
       inputSchema: {
         type: 'object',
         properties: {
           project: { type: 'string', description: 'Project name' },
-          port: { type: 'number', description: 'Port number (6600-6620)' }
+          port: { type: 'number', description: 'Port to use (default: first free port in the configured studio port range). Ports held by other processes are never taken over' },
+          compositionId: { type: 'string', description: 'Composition to open in the studio (default: the first one)' },
+          restart: { type: 'boolean', description: 'Restart the project\'s studio even if it is already running (default: false)' }
         },
         required: ['project']
       }
     },
     {
       name: 'stop-studio',
-      description: 'Stop Remotion Studio on specified port',
+      description: 'Stop the Remotion Studio this server started on the specified port (other processes on the port are reported, not stopped)',
       inputSchema: {
         type: 'object',
         properties: {
@@ -32,6 +77,31 @@ export function getTools() {
         required: ['port']
       }
     },
+    {
+      name: 'get-studio-logs',
+      description: 'Read the output of the studio this server runs for a project (bundler progress, warnings, errors)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          tail: { type: 'number', description: 'Newest lines to return (default: 100)' },
+          since: { type: 'string', description: 'Only lines after this time: ISO timestamp or a duration like 30s, 5m, 1h' },
+          level: { type: 'string', enum: STUDIO_LOG_LEVELS, description: 'Minimum level: error, warn or info (default: info - everything)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'get-compile-errors',
+      description: 'Compile errors from the studio\'s latest build as file/line/message - call after edit-video-jsx to catch build breakages',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' }
+        },
+        required: ['project']
+      }
+    },
     {
       name: 'create-video',
       description: 'Create new video project with JSX template',
@@ -39,21 +109,260 @@ export function getTools() {
         type: 'object',
         properties: {
           name: { type: 'string', description: 'Project name' },
-          jsx: { type: 'string', description: 'Complete VideoComposition JSX code' }
+          jsx: { type: 'string', description: 'Complete VideoComposition JSX code' },
+          ...COMPOSITION_SETTINGS_PROPERTIES
         },
         required: ['name', 'jsx']
       }
     },
     {
       name: 'edit-video-jsx',
-      description: 'Update video project with new JSX (unlimited editing power via Claude)',
+      description: 'Update video project JSX: send the complete file (jsx), a unified diff (patch) or search/replace blocks (edits). Patches apply all-or-nothing.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          jsx: { type: 'string', description: 'Complete new VideoComposition JSX code' },
+          patch: { type: 'string', description: 'Unified diff against the current component file (@@ hunks; line numbers are hints, context must match)' },
+          edits: {
+            type: 'array',
+            description: 'Search/replace blocks applied in order; each search must match exactly once',
+            items: {
+              type: 'object',
+              properties: {
+                search: { type: 'string', description: 'Exact text to find, including indentation' },
+                replace: { type: 'string', description: 'Replacement text' },
+                all: { type: 'boolean', description: 'Replace every occurrence (default: false)' }
+              },
+              required: ['search', 'replace']
+            }
+          },
+          compositionId: { type: 'string', description: 'Composition whose component file to replace (default: the first one)' },
+          typeCheck: {
+            type: 'string',
+            enum: TYPE_CHECK_MODES,
+            description: "Type-check against the project's tsconfig and remotion typings before writing: 'off' (default), 'warn' reports type errors, 'block' refuses a write that adds type errors"
+          }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'edit-video-element',
+      description: 'Change one element of a composition without resending the file: props, style, text or children, or insert/replace/remove elements. Returns a diff.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Composition whose component file to edit (default: the first one)' },
+          target: {
+            type: 'object',
+            description: 'Element to edit - all given criteria must match',
+            properties: {
+              selector: { type: 'string', description: 'CSS-like selector: tag (h1, Sequence), #id, .className, [prop] or [prop="value"]; spaces for descendants ("Sequence .title")' },
+              dataId: { type: 'string', description: 'Value of the element\'s data-id prop' },
+              text: { type: 'string', description: 'Text written directly inside the element' },
+              index: { type: 'number', description: 'Which match to edit (0-based) when several elements match' },
+              all: { type: 'boolean', description: 'Edit every match (default: false - several matches is an error)' }
+            }
+          },
+          changes: {
+            type: 'object',
+            description: 'Edits to apply. insert, replace and remove must be used alone.',
+            properties: {
+              props: { type: 'object', description: 'Props to set as literal values (strings, numbers, booleans, objects); null removes a prop' },
+              propExpressions: { type: 'object', description: 'Props to set to code, e.g. { "opacity": "interpolate(frame, [0, 30], [0, 1])" }' },
+              style: { type: 'object', description: 'Style properties merged into style={{ }}; null removes one' },
+              styleExpressions: { type: 'object', description: 'Style properties set to code, e.g. { "transform": "`scale(${scale})`" }' },
+              text: { type: 'string', description: 'New text content of the element' },
+              children: { type: 'string', description: 'JSX replacing all children of the element' },
+              insert: {
+                type: 'object',
+                description: 'Add a new element relative to the target',
+                properties: {
+                  jsx: { type: 'string', description: 'Element to insert' },
+                  position: { type: 'string', enum: ['before', 'after', 'start', 'end'], description: 'before/after the target, or as its first/last child (default: end)' }
+                },
+                required: ['jsx']
+              },
+              replace: { type: 'string', description: 'JSX replacing the whole element' },
+              remove: { type: 'boolean', description: 'Remove the element' }
+            }
+          },
+          typeCheck: {
+            type: 'string',
+            enum: TYPE_CHECK_MODES,
+            description: "Type-check the result before writing: 'off' (default), 'warn' or 'block'"
+          },
+          dryRun: { type: 'boolean', description: 'Show the diff without writing (default: false)' }
+        },
+        required: ['project', 'target', 'changes']
+      }
+    },
+    {
+      name: 'read-video-jsx',
+      description: 'Read a composition\'s current source together with project metadata as JSON (settings, Remotion version, install state, last modified, studio, renders) - call before editing',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Composition whose component file to read (default: the first one)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'update-composition-settings',
+      description: 'Change a composition\'s id, duration, fps or size and regenerate Root.tsx',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Composition to update (default: the first one)' },
+          ...COMPOSITION_SETTINGS_PROPERTIES
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'add-composition',
+      description: 'Add a composition with its own component file - e.g. a 9:16 short next to a 16:9 master. Copies another composition\'s component unless jsx is given',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          jsx: { type: 'string', description: 'Component JSX for the new composition (default: copy of copyFrom)' },
+          copyFrom: { type: 'string', description: 'Composition whose component and settings to start from (default: the first one)' },
+          ...COMPOSITION_SETTINGS_PROPERTIES
+        },
+        required: ['project', 'id']
+      }
+    },
+    {
+      name: 'list-compositions',
+      description: 'List a project\'s compositions with their settings, component files and default props',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'rename-composition',
+      description: 'Change a composition id and regenerate Root.tsx',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Current composition id' },
+          newId: { type: 'string', description: 'New composition id (letters, digits and -)' }
+        },
+        required: ['project', 'compositionId', 'newId']
+      }
+    },
+    {
+      name: 'remove-composition',
+      description: 'Remove a composition from Root.tsx. The last composition cannot be removed',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Composition id to remove' },
+          deleteComponent: { type: 'boolean', description: 'Also delete its component file if no other composition uses it (default: false)' }
+        },
+        required: ['project', 'compositionId']
+      }
+    },
+    {
+      name: 'get-project-info',
+      description: 'Show a project\'s compositions (id, duration, fps, size), Remotion version, install state, last change, running studio and renders',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'lint-project',
+      description: 'Check project source for Remotion pitfalls: non-increasing interpolate ranges, colours in interpolate(), invalid Easing names, Math.random() and CSS animations',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          fix: { type: 'boolean', description: 'Apply available autofixes to the files (default: false)' },
+          rules: {
+            type: 'array',
+            items: { type: 'string', enum: REMOTION_LINT_RULES.map(rule => rule.id) },
+            description: 'Only run these rules (default: all)'
+          }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'list-versions',
+      description: 'List the saved versions of a project - every change made through these tools is snapshotted and can be undone',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          limit: { type: 'number', description: 'Newest versions to show (default: 20)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'diff-versions',
+      description: 'Show a unified diff between two versions of a project, or between a version and the current files',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          from: { type: 'number', description: 'Older version id (default: the one before the current version)' },
+          to: { type: 'number', description: 'Newer version id (default: the current files on disk)' },
+          file: { type: 'string', description: 'Only diff this project-relative file, e.g. src/VideoComposition.tsx' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'undo-edit',
+      description: 'Undo the last change(s) to a project by restoring the previous version (redo-edit brings it back)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          steps: { type: 'number', description: 'Number of versions to step back (default: 1)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'redo-edit',
+      description: 'Re-apply change(s) taken back by undo-edit',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          steps: { type: 'number', description: 'Number of versions to step forward (default: 1)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'restore-version',
+      description: 'Restore a project\'s files to any version from list-versions (recorded as a new version, so it can be undone)',
       inputSchema: {
         type: 'object',
         properties: {
           project: { type: 'string', description: 'Project name' },
-          jsx: { type: 'string', description: 'Complete new VideoComposition JSX code' }
+          version: { type: 'number', description: 'Version id to restore' }
         },
-        required: ['project', 'jsx']
+        required: ['project', 'version']
       }
     },
     {
@@ -85,15 +394,46 @@ export function getTools() {
     },
     {
       name: 'delete-project',
-      description: 'Delete a video project completely',
+      description: 'Delete a video project: stops its studio, cancels its render jobs and moves it to the trash (restore-project brings it back)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name to delete' },
+          force: { type: 'boolean', description: 'Delete permanently instead of moving to the trash (default: false)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'list-trash',
+      description: 'List deleted projects in the trash and when they expire',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    },
+    {
+      name: 'restore-project',
+      description: 'Restore a deleted project from the trash',
       inputSchema: {
         type: 'object',
         properties: {
-          project: { type: 'string', description: 'Project name to delete' }
+          project: { type: 'string', description: 'Project name (restores its latest deletion) or a trash id from list-trash' },
+          newName: { type: 'string', description: 'Restore under this name instead of the original one' }
         },
         required: ['project']
       }
     },
+    {
+      name: 'empty-trash',
+      description: 'Permanently delete projects in the trash',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Only delete this trash entry (default: everything in the trash)' }
+        }
+      }
+    },
     {
       name: 'enhance-animation-prompt',
       description: 'Transform basic animation ideas into professional, detailed prompts for better quality results',
@@ -106,13 +446,37 @@ export function getTools() {
           },
           style: {
             type: 'string',
-            enum: ['professional', 'creative', 'elegant', 'energetic'],
+            enum: ANIMATION_STYLES,
             description: 'Enhancement style to apply (default: professional)'
-          }
+          },
+          durationSeconds: { type: 'number', description: 'Video length in seconds (default: configured default duration)' },
+          fps: { type: 'number', description: 'Frames per second (default: configured default)' },
+          width: { type: 'number', description: 'Width in pixels (default: configured default)' },
+          height: { type: 'number', description: 'Height in pixels (default: configured default)' },
+          brandColors: {
+            type: 'object',
+            properties: {
+              primary: { type: 'string' },
+              secondary: { type: 'string' },
+              accent: { type: 'string' },
+              background: { type: 'string' },
+              text: { type: 'string' }
+            },
+            description: 'Brand colours the prompt must use exactly (CSS colour values)'
+          },
+          template: { type: 'string', description: 'Template id to use instead of matching by keywords (see list-prompt-templates)' }
         },
         required: ['basicPrompt']
       }
     },
+    {
+      name: 'list-prompt-templates',
+      description: 'List the prompt templates used by enhance-animation-prompt, including user templates, and how to add your own',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    },
     {
       name: 'get-mcp-info',
       description: 'Get MCP server version and architecture info (debug tool)',
@@ -129,30 +493,261 @@ export function getTools() {
         properties: {
           name: { type: 'string', description: 'Project name' },
           jsx: { type: 'string', description: 'Complete VideoComposition JSX code' },
-          port: { type: 'number', description: 'Port number (6600-6620)', default: 6600 }
+          port: { type: 'number', description: 'Port for the studio (default: first free port in the configured studio port range)' }
         },
         required: ['name', 'jsx']
       }
+    },
+    {
+      name: 'render-video',
+      description: 'Start rendering a project composition to a video file (MP4, WebM or ProRes). Returns a job id immediately - poll with get-render-status',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Composition id to render (default: the project\'s first composition)' },
+          codec: {
+            type: 'string',
+            enum: ['h264', 'h265', 'vp8', 'vp9', 'prores'],
+            description: 'Codec: h264/h265 -> .mp4, vp8/vp9 -> .webm, prores -> .mov (default: h264)'
+          },
+          crf: { type: 'number', description: 'Constant rate factor (lower = better quality). Cannot be combined with videoBitrate' },
+          videoBitrate: { type: 'string', description: 'Target bitrate like "5M" or "800K". Cannot be combined with crf' },
+          startFrame: { type: 'number', description: 'First frame to render (default: 0)' },
+          endFrame: { type: 'number', description: 'Last frame to render, inclusive (default: last frame)' },
+          outputPath: { type: 'string', description: 'Output file path, absolute or relative to the project (default: out/<compositionId>.<ext>)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'get-render-status',
+      description: 'Get progress, ETA, log tail and output of a render job',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string', description: 'Render job id returned by render-video' },
+          logLines: { type: 'number', description: 'Number of log lines to include (default: 10)' }
+        },
+        required: ['jobId']
+      }
+    },
+    {
+      name: 'list-render-jobs',
+      description: 'List render jobs, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Only show jobs for this project' },
+          status: {
+            type: 'string',
+            enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+            description: 'Only show jobs with this status'
+          }
+        }
+      }
+    },
+    {
+      name: 'cancel-render',
+      description: 'Cancel a queued or running render job',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string', description: 'Render job id' }
+        },
+        required: ['jobId']
+      }
+    },
+    {
+      name: 'render-still',
+      description: 'Render frames of a composition to images and return them so you can visually check the animation',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project: { type: 'string', description: 'Project name' },
+          compositionId: { type: 'string', description: 'Composition id (default: the project\'s first composition)' },
+          frames: {
+            type: 'array',
+            items: { type: 'number' },
+            description: `Frame numbers to render (default: [0], max ${MAX_STILLS_PER_CALL})`
+          },
+          contactSheet: {
+            type: 'number',
+            description: `Instead of frames, tile this many evenly spaced frames (2-${MAX_STILLS_PER_CALL}) into one image`
+          },
+          imageFormat: { type: 'string', enum: ['png', 'jpeg'], description: 'Image format (default: png)' },
+          scale: { type: 'number', description: 'Scale factor relative to composition size (default: 0.5)' }
+        },
+        required: ['project']
+      }
+    },
+    {
+      name: 'get-config',
+      description: 'Show current settings (projects root, port range, composition defaults, Remotion version, trash retention) and where each comes from',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    },
+    {
+      name: 'set-config',
+      description: 'Change settings in rough-cut.config.json. CLI flags and env vars still take precedence',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          assetsDir: { type: 'string', description: 'Root directory for assets and render jobs' },
+          projectsDir: { type: 'string', description: 'Directory holding video projects (default: <assetsDir>/projects)' },
+          studioPortRange: { type: 'string', description: 'Studio port range like "6600-6620"' },
+          defaultFps: { type: 'number', description: 'Frame rate for new compositions' },
+          defaultWidth: { type: 'number', description: 'Width for new compositions' },
+          defaultHeight: { type: 'number', description: 'Height for new compositions' },
+          defaultDurationInFrames: { type: 'number', description: 'Duration in frames for new compositions' },
+          remotionVersion: { type: 'string', description: 'Exact Remotion version for new projects (e.g. 4.0.340)' },
+          trashRetentionDays: { type: 'number', description: 'Days deleted projects stay in the trash' },
+          installTimeoutMinutes: { type: 'number', description: 'Minutes npm install may take for a project' },
+          maxRenderJobs: { type: 'number', description: 'Background renders allowed to run at once' },
+          reset: {
+            type: 'array',
+            items: { type: 'string', enum: CONFIG_KEYS },
+            description: 'Settings to remove from the config file so they fall back to defaults'
+          }
+        }
+      }
     }
   ];
 }
 
+// Tools that take a project name, and the argument carrying it
+const PROJECT_NAME_ARGS: Record<string, string> = {
+  'launch-studio': 'project',
+  'get-studio-logs': 'project',
+  'get-compile-errors': 'project',
+  'create-video': 'name',
+  'edit-video-jsx': 'project',
+  'edit-video-element': 'project',
+  'update-composition-settings': 'project',
+  'get-project-info': 'project',
+  'read-video-jsx': 'project',
+  'add-composition': 'project',
+  'list-compositions': 'project',
+  'rename-composition': 'project',
+  'remove-composition': 'project',
+  'lint-project': 'project',
+  'list-versions': 'project',
+  'diff-versions': 'project',
+  'undo-edit': 'project',
+  'redo-edit': 'project',
+  'restore-version': 'project',
+  'install-dependencies': 'project',
+  'delete-project': 'project',
+  'restore-project': 'newName',
+  'create-and-launch-complete': 'name',
+  'render-video': 'project',
+  'list-render-jobs': 'project',
+  'render-still': 'project'
+};
+
+// Arguments naming a trashed project, either by project name or by its longer trash id
+const TRASH_REFERENCE_ARGS: Record<string, string> = {
+  'restore-project': 'project',
+  'empty-trash': 'id'
+};
+
+function projectNameErrorResult(error: ProjectNameError): any {
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ Invalid project name '${error.projectName}'\nCode: ${error.code}\nReason: ${error.reason}\nAllowed: ${PROJECT_NAME_RULES}`
+    }],
+    isError: true
+  };
+}
+
 export async function handleToolCall(name: string, args: any) {
+  // Reject unsafe project names before any tool touches the filesystem
+  const projectArg = PROJECT_NAME_ARGS[name];
+  const trashArg = TRASH_REFERENCE_ARGS[name];
+  try {
+    if (projectArg && args[projectArg] !== undefined) {
+      getWindowsProjectPath(args[projectArg]);
+    }
+    if (trashArg && args[trashArg] !== undefined) {
+      validateTrashReference(args[trashArg]);
+    }
+  } catch (error) {
+    if (error instanceof ProjectNameError) {
+      return projectNameErrorResult(error);
+    }
+    throw error;
+  }
+  
   switch (name) {
     case 'launch-studio':
-      return await launchStudio(args.project, args.port);
+      return await launchStudio(args.project, args.port, args.compositionId, args.restart === true);
     
     case 'stop-studio':
       return await stopStudio(args.port);
     
+    case 'get-studio-logs':
+      return await getStudioLogs(args.project, { tail: args.tail, since: args.since, level: args.level });
+    
+    case 'get-compile-errors':
+      return await getCompileErrors(args.project);
+    
     case 'create-video':
-      return await createVideo(args.name, args.jsx);
+      return await createVideo(args.name, args.jsx, compositionSettingsInput(args));
     
     case 'edit-video-jsx':
-      return await editVideoJSX(args.project, args.jsx);
+      return await editVideoJSX(args.project, { jsx: args.jsx, patch: args.patch, edits: args.edits }, args.typeCheck, args.compositionId);
     
-    case 'list-projects':
-      return await listProjects();
+    case 'edit-video-element':
+      return await editVideoElement(args.project, args.target || {}, args.changes || {}, {
+        compositionId: args.compositionId,
+        typeCheck: args.typeCheck,
+        dryRun: args.dryRun
+      });
+    
+    case 'update-composition-settings':
+      return await updateCompositionSettings(args.project, args.compositionId, compositionSettingsInput(args));
+    
+    case 'add-composition':
+      return await addComposition(args.project, args.jsx, args.copyFrom, compositionSettingsInput(args));
+    
+    case 'list-compositions':
+      return await listCompositions(args.project);
+    
+    case 'rename-composition':
+      return await renameComposition(args.project, args.compositionId, args.newId);
+    
+    case 'remove-composition':
+      return await removeComposition(args.project, args.compositionId, args.deleteComponent);
+    
+    case 'get-project-info':
+      return await getProjectInfo(args.project);
+    
+    case 'read-video-jsx':
+      return await readVideoJsx(args.project, args.compositionId);
+    
+    case 'lint-project':
+      return await lintProjectTool(args.project, args.fix, args.rules);
+    
+    case 'list-versions':
+      return await listVersions(args.project, args.limit);
+    
+    case 'diff-versions':
+      return await diffVersions(args.project, args.from, args.to, args.file);
+    
+    case 'undo-edit':
+      return await undoEdit(args.project, args.steps);
+    
+    case 'redo-edit':
+      return await redoEdit(args.project, args.steps);
+    
+    case 'restore-version':
+      return await restoreVersion(args.project, args.version);
+    
+    case 'list-projects':
+      return await listProjects();
     
     case 'get-status':
       return await getStatus();
@@ -160,244 +755,1395 @@ export async function handleToolCall(name: string, args: any) {
     case 'install-dependencies':
       return await installDependencies(args.project);
     
-    case 'delete-project':
-      return await deleteProject(args.project);
+    case 'delete-project':
+      return await deleteProject(args.project, args.force === true);
+    
+    case 'list-trash':
+      return await listTrashTool();
+    
+    case 'restore-project':
+      return await restoreProject(args.project, args.newName);
+    
+    case 'empty-trash':
+      return await emptyTrashTool(args.id);
+    
+    case 'enhance-animation-prompt':
+      return await enhanceAnimationPrompt(args.basicPrompt, {
+        style: args.style,
+        durationSeconds: args.durationSeconds,
+        fps: args.fps,
+        width: args.width,
+        height: args.height,
+        brandColors: args.brandColors,
+        template: args.template
+      });
+    
+    case 'list-prompt-templates':
+      return await listPromptTemplates();
+    
+    case 'get-mcp-info':
+      return await getMCPInfo();
+    
+    case 'create-and-launch-complete':
+      return await createAndLaunchComplete(args.name, args.jsx, args.port);
+    
+    case 'render-video':
+      return await renderVideo(args.project, args);
+    
+    case 'get-render-status':
+      return await getRenderStatus(args.jobId, args.logLines);
+    
+    case 'list-render-jobs':
+      return await listRenderJobs(args.project, args.status);
+    
+    case 'cancel-render':
+      return await cancelRender(args.jobId);
+    
+    case 'render-still':
+      return await renderStillTool(args.project, args);
+    
+    case 'get-config':
+      return await getConfigTool();
+    
+    case 'set-config':
+      return await setConfigTool(args);
+    
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+// TOOL IMPLEMENTATIONS - Simple and direct
+
+/**
+ * Studio serving this project - never another project's studio that happens to be running
+ */
+async function studioBindingFor(projectName: string): Promise<StudioBinding | null> {
+  return getStudioSupervisor().findForProject(projectName, getWindowsProjectPath(projectName));
+}
+
+/**
+ * Where to look at an edit: the project's own studio, or a hint to launch one
+ */
+async function studioStatusText(projectName: string): Promise<string> {
+  const studio = await studioBindingFor(projectName);
+  if (!studio) {
+    return `\nNo studio running for ${projectName} - use launch-studio to see changes`;
+  }
+  const errorsHint = studio.managed ? ' (get-compile-errors reports build errors)' : '';
+  return `\nStudio for ${projectName} running on port ${studio.port} - refresh browser to see changes${errorsHint}\nURL: ${studio.url}`;
+}
+
+async function launchStudio(projectName: string, port?: number, compositionId?: string, restart: boolean = false): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    // Check if project exists
+    if (!await fs.pathExists(projectPath)) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    // The studio opens a composition when its id is the URL path
+    const compositionPath = compositionId ? `/${await resolveCompositionId(projectPath, compositionId)}` : '';
+    const supervisor = getStudioSupervisor();
+    
+    // Reuse the project's running studio unless a restart or a different port is asked for
+    const existing = await supervisor.findForProject(projectName, projectPath);
+    if (existing && !restart && (!port || port === existing.port)) {
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ Studio already running for ${projectName} - reusing it\nProject: ${projectName}\nPort: ${existing.port}\nURL: ${existing.url}${compositionPath}\nPID: ${existing.pid || 'Unknown'}\nRunning since: ${existing.startedAt}`
+        }],
+        structuredContent: { project: projectName, port: existing.port, url: `${existing.url}${compositionPath}`, pid: existing.pid, reused: true }
+      };
+    }
+    
+    // Check a requested port before stopping the running studio; stop it before allocating so a restart keeps its port
+    if (port && port !== existing?.port) {
+      await supervisor.assertPortAvailable(port);
+    }
+    if (existing) {
+      await supervisor.stopForProject(projectName, projectPath);
+    }
+    const targetPort = port || await supervisor.allocatePort(getStudioPorts());
+    
+    // The supervisor refuses ports held by anything else, then waits for "Server ready" and HTTP
+    const studio = await supervisor.start(projectName, projectPath, targetPort);
+    const startupSeconds = ((new Date(studio.readyAt!).getTime() - new Date(studio.startedAt).getTime()) / 1000).toFixed(1);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Studio launched and verified healthy!\nProject: ${projectName}\nPort: ${targetPort}\nURL: ${studio.url}${compositionPath}\nPID: ${studio.pid || 'Unknown'}\nStatus: ready in ${startupSeconds}s (HTTP health check passed)`
+      }],
+      structuredContent: { project: projectName, port: targetPort, url: `${studio.url}${compositionPath}`, pid: studio.pid, reused: false }
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text', 
+        text: `❌ Failed to launch studio: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+/**
+ * Check a requested composition id against the project, defaulting to its first composition.
+ * Projects whose settings cannot be read are passed through (Remotion reports unknown ids).
+ */
+async function resolveCompositionId(projectPath: string, requested?: string): Promise<string> {
+  let manifest: ProjectManifest;
+  try {
+    manifest = await readProjectManifest(projectPath);
+  } catch {
+    return requested || 'Main';
+  }
+  return requested ? findComposition(manifest, requested).id : manifest.compositions[0].id;
+}
+
+/**
+ * Component file of a composition relative to the project (src/VideoComposition.tsx for older projects)
+ */
+async function resolveComponentFile(projectPath: string, compositionId?: string): Promise<string> {
+  let manifest: ProjectManifest;
+  try {
+    manifest = await readProjectManifest(projectPath);
+  } catch (error) {
+    if (compositionId) throw error;
+    return 'src/VideoComposition.tsx';
+  }
+  const composition = compositionId ? findComposition(manifest, compositionId) : manifest.compositions[0];
+  return path.relative(projectPath, componentFilePath(projectPath, composition)).split(path.sep).join('/');
+}
+
+async function renderVideo(projectName: string, options: RenderVideoOptions): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src', 'index.ts'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    const errors = validateRenderOptions(options);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    await assertRenderable(projectPath);
+    
+    const job = await getRenderQueue().enqueue(projectName, projectPath, {
+      compositionId: await resolveCompositionId(projectPath, options.compositionId),
+      codec: options.codec,
+      crf: options.crf,
+      videoBitrate: options.videoBitrate,
+      startFrame: options.startFrame,
+      endFrame: options.endFrame,
+      outputPath: options.outputPath
+    });
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Render job ${job.status} for ${projectName} (${job.options.compositionId || 'Main'})\nJob ID: ${job.id}\nOutput: ${job.outputPath}\nUse get-render-status to follow progress`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to start render: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+function formatRenderJob(job: RenderJob, logLines: number): string {
+  const lines = [
+    `Job ID: ${job.id}`,
+    `Project: ${job.project} (${job.options.compositionId || 'Main'})`,
+    `Status: ${job.status}`
+  ];
+  
+  if (job.totalFrames) {
+    lines.push(`Frames rendered: ${job.framesRendered}/${job.totalFrames}`);
+    if (job.stage === 'encoding') {
+      lines.push(`Frames encoded: ${job.framesEncoded}/${job.totalFrames}`);
+    }
+  }
+  if (job.status === 'running') {
+    lines.push(`ETA: ${formatEta(job.etaSeconds)}`);
+  }
+  if (job.result) {
+    const duration = job.result.durationInSeconds !== null ? `${job.result.durationInSeconds.toFixed(2)}s` : 'Unknown';
+    lines.push(`Output: ${job.result.outputPath}`, `Size: ${formatBytes(job.result.sizeBytes)}`, `Duration: ${duration}`);
+  } else {
+    lines.push(`Output: ${job.outputPath}`);
+  }
+  if (job.error) {
+    lines.push(`Error: ${job.error}`);
+  }
+  if (logLines > 0 && job.logTail.length > 0) {
+    lines.push('', `Log (last ${Math.min(logLines, job.logTail.length)} lines):`, ...job.logTail.slice(-logLines));
+  }
+  
+  return lines.join('\n');
+}
+
+async function getRenderStatus(jobId: string, logLines: number = 10): Promise<any> {
+  try {
+    const job = await getRenderQueue().get(jobId);
+    if (!job) {
+      throw new Error(`Render job '${jobId}' not found`);
+    }
+    
+    const icon = job.status === 'completed' ? '✅' : job.status === 'failed' ? '❌' : job.status === 'cancelled' ? '⚠️' : '⏳';
+    return {
+      content: [{
+        type: 'text',
+        text: `${icon} Render ${job.status}\n${formatRenderJob(job, logLines)}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Error getting render status: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function listRenderJobs(projectName?: string, status?: RenderJobStatus): Promise<any> {
+  try {
+    const jobs = (await getRenderQueue().list())
+      .filter(job => !projectName || job.project === projectName)
+      .filter(job => !status || job.status === status);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: jobs.length > 0
+          ? `Found ${jobs.length} render jobs:\n\n` +
+            jobs.map(job => {
+              const progress = job.totalFrames ? ` ${job.framesRendered}/${job.totalFrames} frames` : '';
+              return `• ${job.id} - ${job.project} (${job.options.compositionId || 'Main'}) ${job.status}${progress}`;
+            }).join('\n')
+          : 'No render jobs found'
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Error listing render jobs: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function cancelRender(jobId: string): Promise<any> {
+  try {
+    const job = await getRenderQueue().cancel(jobId);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Cancelled render job ${job.id} (${job.project})`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to cancel render: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function renderStillTool(projectName: string, options: RenderStillsOptions): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src', 'index.ts'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    const errors = validateStillOptions(options);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    await assertRenderable(projectPath);
+    
+    const result = await renderProjectStills(projectPath, {
+      ...options,
+      compositionId: await resolveCompositionId(projectPath, options.compositionId)
+    });
+    const { composition } = result;
+    const summary = options.contactSheet
+      ? `Contact sheet of frames ${result.frames.join(', ')}`
+      : `Frames: ${result.frames.join(', ')}`;
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Rendered ${result.images.length} image(s) from ${projectName} (${composition.id})\nComposition: ${composition.width}x${composition.height}, ${composition.durationInFrames} frames${composition.fps ? ` at ${composition.fps}fps` : ''}\n${summary}\nFiles:\n${result.images.map(image => `• ${image.filePath}`).join('\n')}`
+        },
+        ...result.images.map(image => ({
+          type: 'image',
+          data: image.data,
+          mimeType: image.mimeType
+        }))
+      ]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to render still: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+function formatConfigValue(value: unknown): string {
+  if (value && typeof value === 'object' && 'start' in value && 'end' in value) {
+    return `${value.start}-${value.end}`;
+  }
+  return String(value);
+}
+
+async function getConfigTool(): Promise<any> {
+  try {
+    const lines = getConfigEntries().map(entry => {
+      const { env, cli } = getConfigOverrideNames(entry.key);
+      return `• ${entry.key}: ${formatConfigValue(entry.value)} (from ${entry.source}; env ${env}, flag ${cli})`;
+    });
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `⚙️ RoughCut Configuration\nConfig file: ${getConfigFilePath()}\nPrecedence: CLI flag > env var > config file > default\n\n${lines.join('\n')}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Error reading config: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function setConfigTool(args: any): Promise<any> {
+  try {
+    const { reset, ...changes } = args as { reset?: ConfigKey[] } & Record<string, unknown>;
+    
+    if (Object.keys(changes).length === 0 && (!reset || reset.length === 0)) {
+      throw new Error(`No settings given (valid: ${CONFIG_KEYS.join(', ')})`);
+    }
+    
+    const { filePath, shadowed } = await updateConfigFile(changes, reset || []);
+    const warnings = shadowed.map(entry => `⚠️ ${entry.key} is overridden by ${entry.source === 'cli' ? 'a CLI flag' : 'an env var'} - current value: ${formatConfigValue(entry.value)}`);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Updated ${filePath}\n${[...Object.keys(changes), ...(reset || []).map(key => `${key} (reset)`)].map(key => `• ${key}`).join('\n')}` +
+          (warnings.length > 0 ? `\n\n${warnings.join('\n')}` : '')
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to update config: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function stopStudio(port: number): Promise<any> {
+  try {
+    const supervisor = getStudioSupervisor();
+    const studio = supervisor.findByPort(port);
+    if (studio) {
+      await supervisor.stop(studio.project);
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ Stopped studio for ${studio.project} on port ${port}`
+        }]
+      };
+    }
+    
+    // Never stop what this server does not supervise - report whoever holds the port instead
+    const pid = await findProcessOnPort(port);
+    if (!pid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `⚠️ No studio found on port ${port}`
+        }]
+      };
+    }
+    const recorded = (await listRecordedStudios()).find(record => record.port === port);
+    const holder = recorded ? `the studio for ${recorded.project} (PID ${pid}), started by an earlier server session` : `PID ${pid}, which this server did not start`;
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `⚠️ Not stopping port ${port}: it is held by ${holder}\nStop that process yourself if it should go`
+      }],
+      structuredContent: { port, pid, project: recorded?.project ?? null, stopped: false }
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Error stopping studio: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+/**
+ * Studio started by this server for a project, including one that has exited
+ */
+function supervisedStudio(projectName: string): StudioInstance {
+  const studio = getStudioSupervisor().get(projectName);
+  if (!studio) {
+    throw new Error(`No studio has been started for '${projectName}' by this server - use launch-studio`);
+  }
+  return studio;
+}
+
+/**
+ * ISO timestamp from an ISO string or a duration back from now ("30s", "5m", "1h")
+ */
+function parseSince(since: string): string {
+  const duration = since.trim().match(/^(\d+)\s*([smh])$/);
+  if (duration) {
+    const seconds = Number(duration[1]) * { s: 1, m: 60, h: 3600 }[duration[2] as 's' | 'm' | 'h'];
+    return new Date(Date.now() - seconds * 1000).toISOString();
+  }
+  const time = new Date(since);
+  if (isNaN(time.getTime())) {
+    throw new Error(`since must be an ISO timestamp or a duration like 30s, 5m, 1h (got '${since}')`);
+  }
+  return time.toISOString();
+}
+
+async function getStudioLogs(projectName: string, options: { tail?: number; since?: string; level?: StudioLogLevel } = {}): Promise<any> {
+  try {
+    const studio = supervisedStudio(projectName);
+    const tail = options.tail ?? 100;
+    if (!Number.isInteger(tail) || tail < 1) {
+      throw new Error('tail must be a positive whole number');
+    }
+    if (options.level !== undefined && !STUDIO_LOG_LEVELS.includes(options.level)) {
+      throw new Error(`level must be one of: ${STUDIO_LOG_LEVELS.join(', ')}`);
+    }
+    
+    const supervisor = getStudioSupervisor();
+    const lines = supervisor.logs(projectName, {
+      tail,
+      since: options.since !== undefined ? parseSince(options.since) : undefined,
+      level: options.level
+    });
+    const dropped = supervisor.droppedLogLines(projectName);
+    
+    let text = `📜 Studio logs for ${projectName} (port ${studio.port}, ${studio.status}) - ${lines.length} line(s)`;
+    if (dropped > 0) {
+      text += `\n${dropped} older line(s) were dropped from the buffer`;
+    }
+    text += lines.length > 0
+      ? `\n\n${lines.map(line => `${line.time.slice(11, 19)} ${line.level.toUpperCase().padEnd(5)} ${line.text}`).join('\n')}`
+      : '\n\nNo matching lines';
+    
+    return {
+      content: [{
+        type: 'text',
+        text
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to get studio logs: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function getCompileErrors(projectName: string): Promise<any> {
+  try {
+    const studio = supervisedStudio(projectName);
+    const lines = getStudioSupervisor().logs(projectName).map(line => line.text);
+    const errors = parseCompileErrors(lines, studio.projectPath);
+    const state = studio.status === 'ready' ? '' : ` (studio ${studio.status})`;
+    
+    if (errors.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ No compile errors in the latest studio build for ${projectName}${state}\nThe studio rebuilds a moment after each edit - call again if the edit was just made`
+        }]
+      };
+    }
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ ${errors.length} compile error(s) in ${projectName}${state}:\n\n${errors.map(error => `• ${formatCompileError(error)}`).join('\n')}\n\nFix them with edit-video-jsx, then call get-compile-errors again`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to get compile errors: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+function jsxWarningsText(validation: JSXValidationResult): string {
+  const warnings = validation.diagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+  return warnings.length > 0
+    ? `\n\n⚠️ Warnings:\n${warnings.map(warning => JSXValidator.formatDiagnostic(warning, false)).join('\n')}`
+    : '';
+}
+
+function jsxValidationErrorResult(action: string, validation: JSXValidationResult): any {
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ Failed to ${action}: JSX has errors - nothing was written\n\n${JSXValidator.formatValidationReport(validation)}`
+    }]
+  };
+}
+
+function typeCheckText(typeCheck: TypeCheckResult | null): string {
+  if (!typeCheck) {
+    return '';
+  }
+  if (!typeCheck.ran) {
+    return `\n\n⚠️ Type check skipped: ${typeCheck.skippedReason}`;
+  }
+  const result = typeCheck.diagnostics.length > 0
+    ? `\n\n⚠️ Type errors (${typeCheck.diagnostics.length}):\n${formatTypeDiagnostics(typeCheck.diagnostics)}`
+    : '\n\nType check: passed';
+  return result + existingTypeErrorsText(typeCheck);
+}
+
+/**
+ * Errors the project had before the change - reported, but never a reason to refuse a write
+ */
+function existingTypeErrorsText(typeCheck: TypeCheckResult): string {
+  return typeCheck.existing.length > 0
+    ? `\n\n⚠️ Existing type errors, not caused by this change (${typeCheck.existing.length}):\n${formatTypeDiagnostics(typeCheck.existing)}`
+    : '';
+}
+
+function versionText(version: HistoryVersion | null): string {
+  return version ? `\nVersion: #${version.id} (undo-edit to revert)` : '';
+}
+
+function formatLintFinding(finding: LintFinding): string {
+  return `  ${finding.line}:${finding.column} ${finding.severity} ${finding.ruleId}: ${finding.message}${finding.fix ? ' (fixable)' : ''}`;
+}
+
+async function lintProjectTool(projectName: string, fix: boolean = false, rules?: string[]): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    // Autofixes rewrite files, so they are recorded as a version
+    let results: FileLintResult[] = [];
+    let version: HistoryVersion | null = null;
+    if (fix) {
+      version = await new ProjectHistory(projectPath).record('lint-project', 'Applied lint fixes', async () => {
+        results = await lintProject(projectPath, { fix, rules });
+      });
+    } else {
+      results = await lintProject(projectPath, { fix, rules });
+    }
+    const findings = results.flatMap(result => result.findings);
+    const errors = findings.filter(finding => finding.severity === 'error').length;
+    const fixedCount = results.reduce((total, result) => total + result.fixed.length, 0);
+    
+    let text = `${errors > 0 ? '❌' : '✅'} Lint ${projectName}: ${errors} error(s), ${findings.length - errors} warning(s) in ${results.length} file(s)`;
+    if (fix) {
+      text += `\nFixed: ${fixedCount} problem(s)${versionText(version)}`;
+    }
+    for (const result of results) {
+      if (result.findings.length > 0) {
+        text += `\n\n${result.file}\n${result.findings.map(formatLintFinding).join('\n')}`;
+      }
+    }
+    if (!fix && findings.some(finding => finding.fix)) {
+      text += `\n\nRun lint-project with fix: true to apply the fixable changes`;
+    }
+    
+    return {
+      content: [{
+        type: 'text',
+        text
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to lint project: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+function historyMoveText(move: HistoryMove): string {
+  let text = `Now at: ${formatVersion(move.to)}\nFiles changed: ${move.changed.length > 0 ? move.changed.join(', ') : 'none'}`;
+  if (move.captured) {
+    text += `\nChanges made outside the MCP were saved first as version #${move.captured.id}`;
+  }
+  return text;
+}
+
+async function listVersions(projectName: string, limit: number = 20): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    const history = await new ProjectHistory(projectPath).state();
+    if (history.versions.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `No versions recorded for ${projectName} yet - the first change made through these tools starts the history`
+        }]
+      };
+    }
+    
+    const shown = history.versions.slice(-Math.max(1, limit)).reverse();
+    const lines = shown.map(version => {
+      const marker = version.id === history.head ? ' ← current' : history.redo.includes(version.id) ? ' (redo available)' : '';
+      return `${formatVersion(version)}${marker}`;
+    });
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `Versions of ${projectName} (${shown.length} of ${history.versions.length}, newest first):\n\n${lines.join('\n')}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Error listing versions: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function diffVersions(projectName: string, from?: number, to?: number, file?: string): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    const history = new ProjectHistory(projectPath);
+    const { head, versions } = await history.state();
+    
+    // Default: what the latest change did
+    let fromId = from;
+    let toId: number | 'current' = to ?? 'current';
+    if (fromId === undefined) {
+      const current = versions.find(version => version.id === head);
+      if (!current || current.parent === null) {
+        throw new Error('No earlier version to compare with - pass from');
+      }
+      fromId = current.parent;
+      if (to === undefined) toId = current.id;
+    }
+    
+    const diff = await history.diff(fromId, toId, file);
+    const label = `#${fromId} → ${toId === 'current' ? 'current files' : `#${toId}`}`;
+    
+    return {
+      content: [{
+        type: 'text',
+        text: diff ? `Diff ${label}:\n\n${diff}` : `No differences ${label}${file ? ` in ${file}` : ''}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to diff versions: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function undoEdit(projectName: string, steps: number = 1): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('steps must be a positive whole number');
+    }
+    
+    const move = await new ProjectHistory(projectPath).undo(steps);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Undid ${steps} change(s) in ${projectName}\n${historyMoveText(move)}\nUse redo-edit to bring the change(s) back`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to undo: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function redoEdit(projectName: string, steps: number = 1): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('steps must be a positive whole number');
+    }
+    
+    const move = await new ProjectHistory(projectPath).redo(steps);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Redid ${steps} change(s) in ${projectName}\n${historyMoveText(move)}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to redo: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function restoreVersion(projectName: string, versionId: number): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    if (!Number.isInteger(versionId)) {
+      throw new Error('version must be a version id from list-versions');
+    }
+    
+    const move = await new ProjectHistory(projectPath).restore(versionId);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Restored ${projectName} to version #${versionId}\n${historyMoveText(move)}\nUse undo-edit to go back`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to restore version: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+/**
+ * RESEARCH-BACKED: Standardize component naming to prevent import/export mismatches.
+ * The exported component is renamed to componentName and made the default export, which Root.tsx imports.
+ */
+function normalizeComponentExport(jsx: string, componentName: string): string {
+  let fixedJSX = jsx;
+  
+  // Find any component export (GitHubProfileAnimation, EndlessBlinkAnimation, etc.)
+  const componentNameRegex = /export\s+(const|function|default)?\s*(\w*Animation|\w*Component|\w+)\s*[=:]/g;
+  const matches = [...fixedJSX.matchAll(componentNameRegex)];
+  
+  if (matches.length > 0) {
+    // Replace ANY component name with the standardized one
+    matches.forEach(match => {
+      const exportedName = match[2];
+      if (exportedName && exportedName !== componentName) {
+        // Replace component name throughout file
+        fixedJSX = fixedJSX.replace(new RegExp(exportedName, 'g'), componentName);
+      }
+    });
+  }
+  
+  // Ensure proper default export format
+  if (fixedJSX.includes(`export const ${componentName}`)) {
+    fixedJSX = fixedJSX.replace(`export const ${componentName}`, `const ${componentName}`);
+    if (!fixedJSX.includes(`export default ${componentName}`)) {
+      fixedJSX += `\n\nexport default ${componentName};`;
+    }
+  } else if (!fixedJSX.includes('export default') && fixedJSX.includes(componentName)) {
+    fixedJSX += `\n\nexport default ${componentName};`;
+  }
+  
+  return fixedJSX;
+}
+
+async function createVideo(name: string, jsx: string, settingsInput: CompositionSettingsInput = {}): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(name);
+    const config = getConfig();
+    const composition = applyCompositionSettings(defaultCompositionSettings(), settingsInput);
+    
+    // Force ALL components to use "VideoComposition" name for consistent template system
+    const fixedJSX = normalizeComponentExport(jsx, 'VideoComposition');
+    
+    // Parse before touching the filesystem - syntax errors never reach the studio
+    const validation = JSXValidator.validateAndSanitize(fixedJSX);
+    if (!validation.isValid) {
+      return jsxValidationErrorResult('create video', validation);
+    }
+    
+    // Build the project in a staging directory; it only appears under its name once every file is written and installed
+    await createProjectAtomically(projectPath, async stagingPath => {
+      await fs.ensureDir(path.join(stagingPath, 'src'));
+      
+      // Write VideoComposition.tsx in src/
+      await fs.writeFile(path.join(stagingPath, 'src', 'VideoComposition.tsx'), fixedJSX);
+      
+      // Create complete package.json with all required dependencies
+      const packageJson = {
+        name: name,
+        version: "1.0.0",
+        scripts: {
+          "start": "remotion studio",
+          "build": "remotion render src/index.ts",
+          "upgrade": "remotion upgrade"
+        },
+        dependencies: {
+          "@remotion/cli": config.remotionVersion,
+          "remotion": config.remotionVersion,
+          "react": "18.2.0",
+          "react-dom": "18.2.0"
+        },
+        devDependencies: {
+          "@types/react": "^18.2.0",
+          "@types/react-dom": "^18.2.0",
+          "typescript": "^5.9.2"
+        }
+      };
+      await fs.writeFile(path.join(stagingPath, 'package.json'), JSON.stringify(packageJson, null, 2));
+      
+      // Create proper src/index.ts (Remotion entrypoint)
+      const indexContent = `import { registerRoot } from 'remotion';
+import { Root } from './Root';
+
+registerRoot(Root);`;
+      await fs.writeFile(path.join(stagingPath, 'src', 'index.ts'), indexContent);
+
+      // Record composition settings and generate src/Root.tsx from them
+      await writeProjectManifest(stagingPath, { version: 1, compositions: [composition] });
+      
+      // Create tsconfig.json for TypeScript support (research-backed config)
+      const tsconfigContent = {
+        "compilerOptions": {
+          "target": "ES2022",
+          "lib": ["DOM", "DOM.Iterable", "ES6"],
+          "allowJs": true,
+          "skipLibCheck": true,
+          "esModuleInterop": true,
+          "allowSyntheticDefaultImports": true,
+          "strict": true,
+          "forceConsistentCasingInFileNames": true,
+          "moduleResolution": "bundler",
+          "module": "ESNext",
+          "resolveJsonModule": true,
+          "isolatedModules": true,
+          "noEmit": true,
+          "jsx": "react-jsx"
+        },
+        "include": ["src"]
+      };
+      await fs.writeFile(path.join(stagingPath, 'tsconfig.json'), JSON.stringify(tsconfigContent, null, 2));
+      
+      // Install dependencies automatically so project works immediately
+      try {
+        await execAsync('npm install', { 
+          cwd: stagingPath,
+          timeout: config.installTimeoutMinutes * 60000
+        });
+      } catch (error) {
+        throw new Error(`npm install failed - the project was not created: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    
+    // First version, so the first edit can be undone
+    await new ProjectHistory(projectPath).checkpoint('create-video', 'Created project');
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Created video project '${name}'\nPath: ${projectPath}\nFiles: VideoComposition.tsx, Root.tsx, package.json, ${PROJECT_MANIFEST_FILE}\nComposition: ${formatCompositionSettings(composition)}${jsxWarningsText(validation)}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to create video: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+interface JsxEdit {
+  jsx?: string;
+  patch?: string;
+  edits?: SearchReplaceBlock[];
+}
+
+/**
+ * New component source from exactly one of: full JSX, a unified diff or search/replace blocks
+ */
+function applyJsxEdit(current: string, edit: JsxEdit): string {
+  const modes = (['jsx', 'patch', 'edits'] as const).filter(mode => edit[mode] !== undefined);
+  if (modes.length !== 1) {
+    throw new Error(modes.length === 0 ? 'Provide jsx, patch or edits' : `Provide only one of jsx, patch or edits (got ${modes.join(', ')})`);
+  }
+  
+  if (edit.patch !== undefined) {
+    return applyUnifiedDiff(current, edit.patch);
+  }
+  if (edit.edits !== undefined) {
+    return applySearchReplace(current, edit.edits);
+  }
+  return edit.jsx!;
+}
+
+async function editVideoJSX(projectName: string, edit: JsxEdit, typeCheckMode: TypeCheckMode = 'off', compositionId?: string): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    // Check if project exists
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    const componentFile = await resolveComponentFile(projectPath, compositionId);
+    const compositionFile = path.join(projectPath, componentFile);
+    if (!await fs.pathExists(compositionFile)) {
+      throw new Error(`Component file ${componentFile} not found`);
+    }
+    
+    // Patches are applied in memory; a hunk that does not match leaves the file untouched
+    const current = await fs.readFile(compositionFile, 'utf-8');
+    let jsx: string;
+    try {
+      jsx = applyJsxEdit(current, edit);
+    } catch (error) {
+      throw new Error(`${error instanceof Error ? error.message : String(error)} - nothing was written`);
+    }
+    const diffText = edit.jsx === undefined ? `\n\n${createUnifiedDiff(componentFile, current, jsx) || '(no change)'}` : '';
+    
+    // Parse first - a syntax error would break the running studio
+    const validation = JSXValidator.validateAndSanitize(jsx);
+    if (!validation.isValid) {
+      return jsxValidationErrorResult('edit video', validation);
+    }
+    
+    if (!TYPE_CHECK_MODES.includes(typeCheckMode)) {
+      throw new Error(`typeCheck must be one of: ${TYPE_CHECK_MODES.join(', ')}`);
+    }
+    
+    // Optional in-memory type check - the file on disk is untouched until it passes
+    const typeCheck = typeCheckMode === 'off'
+      ? null
+      : await typeCheckProjectFile(projectPath, componentFile, jsx);
+    if (typeCheckMode === 'block' && typeCheck?.ran && typeCheck.diagnostics.length > 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Failed to edit video: ${typeCheck.diagnostics.length} type error(s) - nothing was written\n\n${formatTypeDiagnostics(typeCheck.diagnostics)}${existingTypeErrorsText(typeCheck)}`
+        }]
+      };
+    }
+    
+    // Write new JSX (Claude's unlimited editing power!)
+    const version = await new ProjectHistory(projectPath).record('edit-video-jsx', `Edited ${componentFile}`, () => writeProjectFiles(projectPath, { [componentFile]: jsx }));
+    
+    // Only this project's studio is reported (no auto-restart to prevent double-launch)
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Updated ${projectName} with new JSX\nFile: ${componentFile}${await studioStatusText(projectName)}${versionText(version)}${diffText}${jsxWarningsText(validation)}${typeCheckText(typeCheck)}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to edit video: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function editVideoElement(
+  projectName: string,
+  target: ElementTarget,
+  changes: ElementChanges,
+  options: { compositionId?: string; typeCheck?: TypeCheckMode; dryRun?: boolean } = {}
+): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    const typeCheckMode = options.typeCheck || 'off';
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    if (!TYPE_CHECK_MODES.includes(typeCheckMode)) {
+      throw new Error(`typeCheck must be one of: ${TYPE_CHECK_MODES.join(', ')}`);
+    }
+    
+    const componentFile = await resolveComponentFile(projectPath, options.compositionId);
+    const compositionFile = path.join(projectPath, componentFile);
+    if (!await fs.pathExists(compositionFile)) {
+      throw new Error(`Component file ${componentFile} not found`);
+    }
+    
+    const source = await fs.readFile(compositionFile, 'utf-8');
+    const edit = editElements(source, target, changes);
+    const diff = createUnifiedDiff(componentFile, source, edit.output);
+    const summary = `${edit.changes.map(change => `• ${change}`).join('\n')}\n\n${diff || '(no textual change)'}`;
+    
+    // The edited file goes through the same checks as edit-video-jsx
+    const validation = JSXValidator.validateAndSanitize(edit.output);
+    if (!validation.isValid) {
+      return jsxValidationErrorResult('edit element', validation);
+    }
     
-    case 'enhance-animation-prompt':
-      return await enhanceAnimationPrompt(args.basicPrompt, args.style);
+    const typeCheck = typeCheckMode === 'off'
+      ? null
+      : await typeCheckProjectFile(projectPath, componentFile, edit.output);
+    if (typeCheckMode === 'block' && typeCheck?.ran && typeCheck.diagnostics.length > 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Failed to edit element: ${typeCheck.diagnostics.length} type error(s) - nothing was written\n\n${formatTypeDiagnostics(typeCheck.diagnostics)}${existingTypeErrorsText(typeCheck)}\n\n${summary}`
+        }]
+      };
+    }
     
-    case 'get-mcp-info':
-      return await getMCPInfo();
+    if (options.dryRun) {
+      return {
+        content: [{
+          type: 'text',
+          text: `🔍 Dry run - ${componentFile} was not changed\n\n${summary}${jsxWarningsText(validation)}${typeCheckText(typeCheck)}`
+        }]
+      };
+    }
     
-    case 'create-and-launch-complete':
-      return await createAndLaunchComplete(args.name, args.jsx, args.port);
+    const version = await new ProjectHistory(projectPath).record(
+      'edit-video-element',
+      `Edited ${edit.matched.length} element(s) in ${componentFile}`,
+      () => writeProjectFiles(projectPath, { [componentFile]: edit.output })
+    );
     
-    default:
-      throw new Error(`Unknown tool: ${name}`);
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Edited ${edit.matched.length} element(s) in ${projectName}\nFile: ${componentFile}${await studioStatusText(projectName)}${versionText(version)}\n\n${summary}${jsxWarningsText(validation)}${typeCheckText(typeCheck)}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to edit element: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
   }
 }
 
-// TOOL IMPLEMENTATIONS - Simple and direct
-
-async function launchStudio(projectName: string, port?: number): Promise<any> {
+async function updateCompositionSettings(projectName: string, compositionId: string | undefined, settingsInput: CompositionSettingsInput): Promise<any> {
   try {
     const projectPath = getWindowsProjectPath(projectName);
-    const targetPort = port || 6600; // Use 6600-6620 range as requested
     
-    // Check if project exists
-    if (!await fs.pathExists(projectPath)) {
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
       throw new Error(`Project '${projectName}' not found`);
     }
     
-    // ALWAYS kill anything on the target port first (fixes same-port restart)
-    const wasKilled = await killProcessOnPort(targetPort);
-    if (wasKilled) {
-      // Wait for port to be freed
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
+    const manifest = await readProjectManifest(projectPath);
+    const before = compositionId ? findComposition(manifest, compositionId) : manifest.compositions[0];
+    const index = manifest.compositions.indexOf(before);
+    const after = applyCompositionSettings(before, settingsInput);
+    manifest.compositions[index] = after;
+    const version = await new ProjectHistory(projectPath).record('update-composition-settings', `Updated settings of ${after.id}`, () => writeProjectManifest(projectPath, manifest));
     
-    // Launch studio with REAL error detection
-    const command = `npx.cmd remotion studio --port ${targetPort}`;
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Updated composition settings for ${projectName}\nBefore: ${formatCompositionSettings(before)}\nAfter:  ${formatCompositionSettings(after)}\nRoot.tsx regenerated - refresh the studio to see changes${versionText(version)}`
+      }]
+    };
     
-    let result;
-    try {
-      result = await execAsync(command, {
-        cwd: projectPath,
-        timeout: 30000
-      });
-    } catch (execError: any) {
-      // Capture the REAL error from execAsync
-      const stderr = execError.stderr || execError.message || String(execError);
-      throw new Error(`Remotion startup failed: ${stderr.trim()}`);
-    }
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to update composition settings: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function addComposition(projectName: string, jsx: string | undefined, copyFrom: string | undefined, settingsInput: CompositionSettingsInput): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
     
-    // Check for actual errors in stderr (if command succeeded but had warnings)
-    if (result.stderr) {
-      if (result.stderr.includes('not available')) {
-        throw new Error(`Port ${targetPort} is busy`);
-      }
-      if (result.stderr.includes('Error:')) {
-        throw new Error(`Remotion error: ${result.stderr.trim()}`);
-      }
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    if (!settingsInput.id) {
+      throw new Error('id is required');
     }
     
-    // HTTP health check - verify studio actually works (research-backed)
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Wait for startup
+    const manifest = await readProjectManifest(projectPath);
+    if (manifest.compositions.some(composition => composition.id === settingsInput.id)) {
+      throw new Error(`Composition '${settingsInput.id}' already exists`);
+    }
     
-    const isHealthy = await checkStudioHealth(targetPort);
-    if (!isHealthy) {
-      throw new Error('Studio failed to respond to HTTP requests - not functional');
+    // Start from an existing composition so a new aspect ratio keeps the same timing and content
+    const source = copyFrom ? findComposition(manifest, copyFrom) : manifest.compositions[0];
+    const composition = applyCompositionSettings(
+      { ...source, component: componentNameForId(manifest, settingsInput.id) },
+      settingsInput
+    );
+    
+    // Root.tsx default-imports every component, so new JSX gets the same export normalization as create-video
+    const componentSource = jsx !== undefined
+      ? normalizeComponentExport(jsx, composition.component)
+      : await fs.readFile(componentFilePath(projectPath, source), 'utf-8');
+    const validation = JSXValidator.validateAndSanitize(componentSource);
+    if (!validation.isValid) {
+      return jsxValidationErrorResult('add composition', validation);
     }
     
-    // Get PID for informational purposes (but don't rely on it for success)
-    const actualPid = await findProcessOnPort(targetPort) || 'Unknown';
+    manifest.compositions.push(composition);
+    const version = await new ProjectHistory(projectPath).record('add-composition', `Added composition ${composition.id}`, async () => {
+      const transaction = new ProjectTransaction(projectPath).write(`src/${composition.component}.tsx`, componentSource);
+      await writeProjectManifest(projectPath, manifest, transaction);
+      await transaction.commit();
+    });
     
     return {
       content: [{
         type: 'text',
-        text: `✅ Studio launched and verified healthy!\nProject: ${projectName}\nPort: ${targetPort}\nURL: http://localhost:${targetPort}\nPID: ${actualPid}\nStatus: HTTP health check passed`
+        text: `✅ Added composition to ${projectName}\n${formatCompositionSettings(composition)}\n${jsx === undefined ? `Component copied from ${source.id}` : 'Component written from jsx'}${versionText(version)}${jsxWarningsText(validation)}`
       }]
     };
     
   } catch (error) {
     return {
       content: [{
-        type: 'text', 
-        text: `❌ Failed to launch studio: ${error instanceof Error ? error.message : String(error)}`
+        type: 'text',
+        text: `❌ Failed to add composition: ${error instanceof Error ? error.message : String(error)}`
       }]
     };
   }
 }
 
-async function stopStudio(port: number): Promise<any> {
+async function listCompositions(projectName: string): Promise<any> {
   try {
-    const killed = await killProcessOnPort(port);
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+    
+    const manifest = await readProjectManifest(projectPath);
     
     return {
       content: [{
         type: 'text',
-        text: killed ? `✅ Stopped studio on port ${port}` : `⚠️ No studio found on port ${port}`
+        text: `Found ${manifest.compositions.length} compositions in ${projectName}:\n\n` +
+          manifest.compositions.map(composition => {
+            const props = composition.defaultProps && Object.keys(composition.defaultProps).length > 0
+              ? `\n  defaultProps: ${JSON.stringify(composition.defaultProps)}`
+              : '';
+            return `• ${formatCompositionSettings(composition)}${props}`;
+          }).join('\n')
       }]
     };
+    
   } catch (error) {
     return {
       content: [{
         type: 'text',
-        text: `❌ Error stopping studio: ${error instanceof Error ? error.message : String(error)}`
+        text: `❌ Error listing compositions: ${error instanceof Error ? error.message : String(error)}`
       }]
     };
   }
 }
 
-async function createVideo(name: string, jsx: string): Promise<any> {
+async function renameComposition(projectName: string, compositionId: string, newId: string): Promise<any> {
   try {
-    const projectPath = getWindowsProjectPath(name);
+    const projectPath = getWindowsProjectPath(projectName);
     
-    // Create proper Remotion project structure
-    await fs.ensureDir(projectPath);
-    await fs.ensureDir(path.join(projectPath, 'src'));
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
     
-    // TEMPORARILY DISABLE VALIDATION to test if it's causing infinite loops
-    // TODO: Replace with smart validation that doesn't block complex animations
-    let fixedJSX = jsx;
+    const manifest = await readProjectManifest(projectPath);
+    const composition = findComposition(manifest, compositionId);
+    if (newId !== compositionId && manifest.compositions.some(candidate => candidate.id === newId)) {
+      throw new Error(`Composition '${newId}' already exists`);
+    }
     
-    // Validation disabled - no backup needed
+    manifest.compositions[manifest.compositions.indexOf(composition)] = applyCompositionSettings(composition, { id: newId });
+    const version = await new ProjectHistory(projectPath).record('rename-composition', `Renamed composition ${compositionId} to ${newId}`, () => writeProjectManifest(projectPath, manifest));
     
-    // RESEARCH-BACKED: Standardize component naming to prevent import/export mismatches
-    // Force ALL components to use "VideoComposition" name for consistent template system
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Renamed composition ${compositionId} → ${newId} in ${projectName}\nComponent file unchanged: src/${composition.component}.tsx${versionText(version)}`
+      }]
+    };
     
-    // Find any component export (GitHubProfileAnimation, EndlessBlinkAnimation, etc.)
-    const componentNameRegex = /export\s+(const|function|default)?\s*(\w*Animation|\w*Component|\w+)\s*[=:]/g;
-    const matches = [...fixedJSX.matchAll(componentNameRegex)];
-    
-    if (matches.length > 0) {
-      // Replace ANY component name with standardized "VideoComposition"
-      matches.forEach(match => {
-        const fullMatch = match[0];
-        const componentName = match[2];
-        if (componentName && componentName !== 'VideoComposition') {
-          // Replace component name throughout file
-          fixedJSX = fixedJSX.replace(new RegExp(componentName, 'g'), 'VideoComposition');
-        }
-      });
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to rename composition: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+async function removeComposition(projectName: string, compositionId: string, deleteComponent: boolean = false): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    
+    if (!await fs.pathExists(path.join(projectPath, 'src'))) {
+      throw new Error(`Project '${projectName}' not found`);
     }
     
-    // Ensure proper default export format
-    if (fixedJSX.includes('export const VideoComposition')) {
-      fixedJSX = fixedJSX.replace('export const VideoComposition', 'const VideoComposition');
-      if (!fixedJSX.includes('export default VideoComposition')) {
-        fixedJSX += '\n\nexport default VideoComposition;';
-      }
-    } else if (!fixedJSX.includes('export default') && fixedJSX.includes('VideoComposition')) {
-      fixedJSX += '\n\nexport default VideoComposition;';
-    }
-    
-    // Write VideoComposition.tsx in src/
-    await fs.writeFile(path.join(projectPath, 'src', 'VideoComposition.tsx'), fixedJSX);
-    
-    // Create complete package.json with all required dependencies
-    const packageJson = {
-      name: name,
-      version: "1.0.0",
-      scripts: {
-        "start": "remotion studio",
-        "build": "remotion render src/index.ts",
-        "upgrade": "remotion upgrade"
-      },
-      dependencies: {
-        "@remotion/cli": "4.0.340",
-        "remotion": "4.0.340",
-        "react": "18.2.0",
-        "react-dom": "18.2.0"
-      },
-      devDependencies: {
-        "@types/react": "^18.2.0",
-        "@types/react-dom": "^18.2.0",
-        "typescript": "^5.9.2"
-      }
-    };
-    await fs.writeFile(path.join(projectPath, 'package.json'), JSON.stringify(packageJson, null, 2));
-    
-    // Install dependencies automatically so project works immediately
-    await execAsync('npm install', { 
-      cwd: projectPath,
-      timeout: 60000
+    const manifest = await readProjectManifest(projectPath);
+    const composition = findComposition(manifest, compositionId);
+    if (manifest.compositions.length === 1) {
+      throw new Error(`'${compositionId}' is the only composition - a project needs at least one`);
+    }
+    
+    manifest.compositions = manifest.compositions.filter(candidate => candidate !== composition);
+    
+    // Only delete a component file nothing else renders
+    const shared = manifest.compositions.some(candidate => candidate.component === composition.component);
+    const deleted = deleteComponent && !shared;
+    const version = await new ProjectHistory(projectPath).record('remove-composition', `Removed composition ${compositionId}`, async () => {
+      const transaction = new ProjectTransaction(projectPath);
+      await writeProjectManifest(projectPath, manifest, transaction);
+      if (deleted) {
+        transaction.remove(`src/${composition.component}.tsx`);
+      }
+      await transaction.commit();
     });
     
-    // Create proper src/index.ts (Remotion entrypoint)
-    const indexContent = `import { registerRoot } from 'remotion';
-import { Root } from './Root';
-
-registerRoot(Root);`;
-    await fs.writeFile(path.join(projectPath, 'src', 'index.ts'), indexContent);
-
-    // Create src/Root.tsx (using proven working direct import pattern)
-    const rootContent = `import React from 'react';
-import { Composition } from 'remotion';
-import VideoComposition from './VideoComposition';
-
-export const Root: React.FC = () => {
-  return (
-    <>
-      <Composition
-        id="Main"
-        component={VideoComposition}
-        durationInFrames={300}
-        fps={30}
-        width={1920}
-        height={1080}
-      />
-    </>
-  );
-};`;
-    await fs.writeFile(path.join(projectPath, 'src', 'Root.tsx'), rootContent);
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Removed composition ${compositionId} from ${projectName}\nComponent file src/${composition.component}.tsx ${deleted ? 'deleted' : shared ? 'kept (used by another composition)' : 'kept'}${versionText(version)}`
+      }]
+    };
     
-    // Create tsconfig.json for TypeScript support (research-backed config)
-    const tsconfigContent = {
-      "compilerOptions": {
-        "target": "ES2022",
-        "lib": ["DOM", "DOM.Iterable", "ES6"],
-        "allowJs": true,
-        "skipLibCheck": true,
-        "esModuleInterop": true,
-        "allowSyntheticDefaultImports": true,
-        "strict": true,
-        "forceConsistentCasingInFileNames": true,
-        "moduleResolution": "bundler",
-        "module": "ESNext",
-        "resolveJsonModule": true,
-        "isolatedModules": true,
-        "noEmit": true,
-        "jsx": "react-jsx"
-      },
-      "include": ["src"]
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to remove composition: ${error instanceof Error ? error.message : String(error)}`
+      }]
     };
-    await fs.writeFile(path.join(projectPath, 'tsconfig.json'), JSON.stringify(tsconfigContent, null, 2));
+  }
+}
+
+async function getProjectInfo(projectName: string): Promise<any> {
+  try {
+    const projectPath = getWindowsProjectPath(projectName);
+    const info = await collectProjectInfo(projectName, projectPath, await studioBindingFor(projectName));
+    
+    const remotion = info.remotion.installed
+      ? `${info.remotion.installed} installed${info.remotion.declared ? ` (package.json: ${info.remotion.declared})` : ''}`
+      : info.remotion.declared || 'unknown';
+    const renders = info.renders.map(render => `• ${render.file} (${formatBytes(render.sizeBytes)}, ${render.modified})`);
+    const jobs = info.renderJobs.map(job => `• ${job.id} - ${job.status}${job.compositionId ? ` (${job.compositionId})` : ''}`);
     
     return {
       content: [{
         type: 'text',
-        text: `✅ Created video project '${name}'\nPath: ${projectPath}\nFiles: VideoComposition.tsx, Root.tsx, package.json`
+        text: `📁 Project: ${projectName}
+Path: ${projectPath}
+Health: ${formatProjectHealth(info.health)}
+Remotion: ${remotion}
+Dependencies: ${info.dependenciesInstalled ? 'installed' : 'not installed - run install-dependencies'}
+Last modified: ${info.lastModified || 'unknown'}
+Settings: ${info.settingsSource === PROJECT_MANIFEST_FILE ? PROJECT_MANIFEST_FILE : 'read from src/Root.tsx (saved to the manifest on first update)'}
+Studio: ${info.studio ? `${info.studio.url} (PID ${info.studio.pid || 'unknown'}, since ${info.studio.startedAt})` : 'not running'}
+
+Compositions (${info.compositions.length}):
+${info.compositions.map(composition => `• ${formatCompositionSettings(composition)}`).join('\n')}
+
+Renders (${renders.length}):
+${renders.length > 0 ? renders.join('\n') : '• none'}${jobs.length > 0 ? `\n\nRender jobs in progress:\n${jobs.join('\n')}` : ''}`
       }]
     };
     
@@ -405,49 +2151,48 @@ export const Root: React.FC = () => {
     return {
       content: [{
         type: 'text',
-        text: `❌ Failed to create video: ${error instanceof Error ? error.message : String(error)}`
+        text: `❌ Failed to get project info: ${error instanceof Error ? error.message : String(error)}`
       }]
     };
   }
 }
 
-async function editVideoJSX(projectName: string, jsx: string): Promise<any> {
+/**
+ * Project metadata as JSON followed by the raw component source, so edits start from what is on disk
+ */
+async function readVideoJsx(projectName: string, compositionId?: string): Promise<any> {
   try {
     const projectPath = getWindowsProjectPath(projectName);
-    const compositionFile = path.join(projectPath, 'src', 'VideoComposition.tsx');
+    const info = await collectProjectInfo(projectName, projectPath, await studioBindingFor(projectName));
+    const file = await resolveComponentFile(projectPath, compositionId);
+    const filePath = path.join(projectPath, file);
     
-    // Check if project exists
-    if (!await fs.pathExists(compositionFile)) {
-      throw new Error(`Project '${projectName}' not found`);
+    if (!await fs.pathExists(filePath)) {
+      throw new Error(`${file} not found in project '${projectName}'`);
     }
+    const source = await fs.readFile(filePath, 'utf-8');
+    const composition = compositionId
+      ? info.compositions.find(candidate => candidate.id === compositionId)
+      : info.compositions[0];
     
-    // TEMPORARILY DISABLE VALIDATION to test if it's causing infinite loops
-    // Write new JSX (Claude's unlimited editing power!)
-    await fs.writeFile(compositionFile, jsx);
-    
-    // Check if studio is running and inform user (no auto-restart to prevent double-launch)
-    const runningPort = await findStudioPort();
-    if (runningPort) {
-      return {
-        content: [{
+    return {
+      content: [
+        {
           type: 'text',
-          text: `✅ Updated ${projectName} with new JSX\nFile: src/VideoComposition.tsx\nStudio running on port ${runningPort} - refresh browser to see changes\nURL: http://localhost:${runningPort}`
-        }]
-      };
-    } else {
-      return {
-        content: [{
+          text: JSON.stringify({ ...info, file, compositionId: composition?.id || null }, null, 2)
+        },
+        {
           type: 'text',
-          text: `✅ Updated ${projectName} with new JSX\nFile: src/VideoComposition.tsx\nNo studio running - use launch-studio to see changes`
-        }]
-      };
-    }
+          text: source
+        }
+      ]
+    };
     
   } catch (error) {
     return {
       content: [{
         type: 'text',
-        text: `❌ Failed to edit video: ${error instanceof Error ? error.message : String(error)}`
+        text: `❌ Failed to read video JSX: ${error instanceof Error ? error.message : String(error)}`
       }]
     };
   }
@@ -455,8 +2200,7 @@ async function editVideoJSX(projectName: string, jsx: string): Promise<any> {
 
 async function listProjects(): Promise<any> {
   try {
-    const assetsDir = getAssetsDir();
-    const projectsDir = path.join(assetsDir, 'projects');
+    const projectsDir = getProjectsDir();
     
     if (!await fs.pathExists(projectsDir)) {
       return {
@@ -471,15 +2215,15 @@ async function listProjects(): Promise<any> {
     const validProjects = [];
     
     for (const project of projects) {
+      // Hidden entries include projects still being created in a staging directory
+      if (project.startsWith('.')) continue;
       const projectPath = path.join(projectsDir, project);
       const stats = await fs.stat(projectPath);
       if (stats.isDirectory()) {
-        const hasComposition = await fs.pathExists(path.join(projectPath, 'src', 'VideoComposition.tsx'));
         validProjects.push({
           name: project,
           path: projectPath,
-          hasComposition,
-          status: hasComposition ? 'Ready' : 'Incomplete'
+          status: formatProjectHealth(await checkProjectHealth(projectPath))
         });
       }
     }
@@ -507,21 +2251,50 @@ async function listProjects(): Promise<any> {
 async function getStatus(): Promise<any> {
   try {
     const studios = [];
+    const supervisor = getStudioSupervisor();
+    const watchdog = getStudioWatchdog();
+    
+    for (const studio of supervisor.list()) {
+      const restarts = watchdog.restarts(studio.project);
+      const last = restarts[restarts.length - 1];
+      const restartText = last
+        ? `\n  ${restarts.length} automatic restart(s), last at ${last.time}: ${last.reason}${last.success ? '' : ' - restart failed'}`
+        : '';
+      if (studio.status === 'crashed' || watchdog.isRecovering(studio.project)) {
+        studios.push(`Port ${studio.port}: ${studio.project} - down (${studio.error || studio.status})${watchdog.isRecovering(studio.project) ? ', restart pending' : ', use launch-studio'}${restartText}`);
+        continue;
+      }
+      if (studio.status !== 'starting' && studio.status !== 'ready') continue;
+      studios.push(`Port ${studio.port}: ${studio.project} - ${studio.status} (PID ${studio.pid || 'unknown'}, since ${studio.startedAt})${restartText}`);
+    }
+    
+    // Studios recorded by an earlier server session still serve their project
+    const recorded = (await listRecordedStudios()).filter(record => !supervisor.findByPort(record.port));
+    for (const record of recorded) {
+      studios.push(`Port ${record.port}: ${record.project} - running (PID ${record.listenerPid || 'unknown'}, since ${record.startedAt}, started by an earlier session)`);
+    }
     
-    // Check 6600-6620 port range for studios
-    for (const port of [6600, 6601, 6602, 6603, 6604, 6605]) {
+    // Other listeners in the configured studio port range - their project is unknown
+    for (const port of getStudioPorts()) {
+      if (supervisor.findByPort(port) || recorded.some(record => record.port === port)) continue;
       const pid = await findProcessOnPort(port);
       if (pid) {
-        studios.push(`Port ${port}: PID ${pid}`);
+        studios.push(`Port ${port}: PID ${pid} (not started by this server, project unknown)`);
       }
     }
     
+    // Invalid settings were skipped in favour of the next source
+    const warnings = getConfigWarnings();
+    const warningText = warnings.length > 0
+      ? `\n\n⚠️ Config warnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}`
+      : '';
+    
     return {
       content: [{
         type: 'text',
-        text: studios.length > 0 
+        text: (studios.length > 0 
           ? `Active Studios:\n${studios.join('\n')}` 
-          : 'No active studios found'
+          : 'No active studios found') + warningText
       }]
     };
     
@@ -546,7 +2319,7 @@ async function installDependencies(projectName: string): Promise<any> {
     // Install dependencies
     await execAsync('npm install', {
       cwd: projectPath,
-      timeout: 60000
+      timeout: getConfig().installTimeoutMinutes * 60000
     });
     
     return {
@@ -566,7 +2339,7 @@ async function installDependencies(projectName: string): Promise<any> {
   }
 }
 
-async function deleteProject(projectName: string): Promise<any> {
+async function deleteProject(projectName: string, force: boolean = false): Promise<any> {
   try {
     const projectPath = getWindowsProjectPath(projectName);
     
@@ -574,15 +2347,23 @@ async function deleteProject(projectName: string): Promise<any> {
       throw new Error(`Project '${projectName}' not found`);
     }
     
-    // Find and stop any studio running this project
-    const { ports } = await getSystemStatus();
-    for (const portInfo of ports) {
-      // Stop all studios to be safe
-      await killProcessOnPort(portInfo.port);
-    }
+    // Stop the studio serving this project so its files are not locked - other projects' studios keep running
+    const stoppedStudio = await getStudioSupervisor().stopForProject(projectName, projectPath);
+    const studioText = stoppedStudio ? `\nIts studio on port ${stoppedStudio.port} was stopped` : '';
+    
+    // Renders still running would write into the moved directory, queued ones would start on a missing project
+    const cancelledJobs = await getRenderQueue().cancelProject(projectPath);
+    const jobsText = cancelledJobs.length > 0 ? `\nCancelled ${cancelledJobs.length} render job(s): ${cancelledJobs.map(job => job.id).join(', ')}` : '';
     
-    // Wait for processes to cleanup
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    if (!force) {
+      const entry = await moveToTrash(projectName, projectPath);
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ Moved project '${projectName}' to the trash${studioText}${jobsText}\nTrash id: ${entry.id}\nKept until: ${entry.expiresAt} (restore-project to bring it back)`
+        }]
+      };
+    }
     
     // Delete project directory
     await fs.remove(projectPath);
@@ -596,7 +2377,7 @@ async function deleteProject(projectName: string): Promise<any> {
     return {
       content: [{
         type: 'text',
-        text: `✅ Deleted project '${projectName}'\nPath: ${projectPath}`
+        text: `✅ Permanently deleted project '${projectName}'\nPath: ${projectPath}${studioText}${jobsText}`
       }]
     };
     
@@ -610,215 +2391,124 @@ async function deleteProject(projectName: string): Promise<any> {
   }
 }
 
-async function enhanceAnimationPrompt(basicPrompt: string, style: string = 'professional'): Promise<any> {
+async function listTrashTool(): Promise<any> {
   try {
-    // RESEARCH-BACKED: Specific visual instructions (76% improvement vs generic descriptors)
-    const prompt = basicPrompt.toLowerCase();
-    let enhancedPrompt = '';
-
-    // SPECIFIC ANIMATION TYPE DETECTION with exact visual specifications
-    if (prompt.includes('github') || prompt.includes('profile')) {
-      // GitHub profile animation - specific layout and brand colors
-      const username = prompt.match(/for (\w+)/)?.[1] || 'username';
-      enhancedPrompt = `Create a GitHub profile showcase animation for ${username} with these specific elements:
-
-COMPOSITION SETTINGS (CRITICAL - Update Root.tsx):
-- Duration: ${duration} seconds (durationInFrames={${frames}} at fps={${fps}})
-- Dimensions: 1920x1080 for professional quality
-- Component: VideoComposition (ensure proper export)
-
-LAYOUT SPECIFICATIONS:
-- Profile card: 320px width, positioned top-left, contains 80px round avatar, username in 24px GitHub font, bio text 16px gray
-- Repository grid: 3x2 layout, each card 280px x 120px with 16px gaps, repo name 18px bold, description 14px, language dot 12px
-- Contribution graph: 728px x 104px, 13x53 grid of 10px squares with 2px gaps
-
-EXACT COLORS (GitHub Brand):
-- Background: #0d1117 (GitHub dark)
-- Cards: #21262d with 1px border #30363d  
-- Primary text: #f0f6fc
-- Secondary text: #7d8590
-- Links/accents: #58a6ff  
-- Contributions: #39d353
-
-ANIMATION TIMELINE (${duration} seconds = ${frames} frames):
-- Sequence 1 (0-${Math.round(frames * 0.15)} frames): Profile card slides in from left with cubic-bezier(0.25, 0.46, 0.45, 0.94)
-- Sequence 2 (${Math.round(frames * 0.15)}-${Math.round(frames * 0.6)} frames): Repository cards fade in with staggered timing (each card 0.2s after previous)
-- Sequence 3 (${Math.round(frames * 0.4)}-${Math.round(frames * 0.8)} frames): Contribution squares fill row-by-row from left, 0.05s per square
-- Sequence 4 (${Math.round(frames * 0.7)}-${frames} frames): Subtle hover effects and final polish animations
-
-REMOTION IMPLEMENTATION:
-- Use <Sequence from={frameStart} durationInFrames={frameLength}> for timeline control
-- Calculate frame positions based on ${frames} total frames
-- Use useCurrentFrame() for smooth interpolation within sequences
-- Apply staggered timing with calculated delays for ${duration}-second duration
-
-TYPOGRAPHY:
-- Font: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif
-- Username: 24px weight 600
-- Repo names: 18px weight 500  
-- Descriptions: 14px weight 400 color #7d8590`;
-
-    } else if (prompt.includes('ball') || prompt.includes('bounce')) {
-      // Bouncing ball - physics-based specifications
-      const totalBounces = Math.max(3, Math.min(8, Math.floor(duration / 3))); // Dynamic bounce count based on duration
-      
-      enhancedPrompt = `Create a realistic bouncing ball animation with precise physics:
-
-COMPOSITION SETTINGS (CRITICAL - Update Root.tsx):
-- Duration: ${duration} seconds (durationInFrames={${frames}} at fps={${fps}})
-- Timeline: Plan ${totalBounces} bounces across ${duration} seconds
-- Dimensions: 1920x1080 for professional quality
-
-BALL SPECIFICATIONS:
-- Size: 60px diameter with radial gradient from #ff6b6b (top-left) to #c44569 (bottom-right)
-- Compression: Scale Y to 0.8 when within 5px of ground contact
-- Shadow: 40px width ellipse, opacity varies 0.3 (high) to 0.8 (ground contact)
-
-PHYSICS CALCULATIONS (Dynamic for ${duration}s):
-- Initial height: 80% of canvas height
-- Energy loss: Each bounce 25% lower (multiply by 0.75)
-- Bounce timing: ${Math.round(frames / totalBounces)} frames per bounce cycle
-- Arc trajectory: Follow parabolic path y = -4.9t² + v₀t + y₀
-- Ground contact detection: ball bottom ≤ ground level + 5px
-
-VISUAL ENVIRONMENT:
-- Background: Linear gradient #667eea to #764ba2 (135deg)
-- Ground: 20px height bar with gradient rgba(255,255,255,0.2) to rgba(255,255,255,0.4)
-- Ground shadow: 0 -5px 20px rgba(0,0,0,0.3)
-
-ANIMATION TIMELINE (${duration} seconds = ${frames} frames):
-- Calculate bounce cycles to fill ${duration} seconds evenly
-- Each bounce: ${Math.round(frames / totalBounces)} frames duration
-- Use frame-based timing: const bounceProgress = (frame % ${Math.round(frames / totalBounces)}) / ${Math.round(frames / totalBounces)}
-- Easing: Ease-out-quad for natural deceleration`;
-
-    } else if (prompt.includes('text') || prompt.includes('reveal')) {
-      // Text animation - typography and timing specifications
-      const words = basicPrompt.split(' ').length;
-      const revealTime = Math.min(duration * 0.5, words * 0.2); // Half duration or 0.2s per word, whichever is shorter
-      
-      enhancedPrompt = `Create a professional text reveal animation with precise typography:
-
-COMPOSITION SETTINGS (CRITICAL - Update Root.tsx):
-- Duration: ${duration} seconds (durationInFrames={${frames}} at fps={${fps}})
-- Timeline: Plan text reveal across ${revealTime.toFixed(1)} seconds, hold for remaining time
-- Dimensions: 1920x1080 for professional quality
-
-TEXT SPECIFICATIONS:
-- Font stack: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif
-- Size: Responsive 48-72px (min 48px, max 6vw)
-- Weight: 300 (light) for elegance
-- Letter spacing: 0.02em for readability
-- Line height: 1.2 for tight, modern look
-
-ANIMATION TIMELINE (${duration} seconds = ${frames} frames):
-- Word reveal phase: 0-${Math.round(frames * (revealTime / duration))} frames (${revealTime.toFixed(1)}s)
-- Hold phase: ${Math.round(frames * (revealTime / duration))}-${frames} frames (remaining ${(duration - revealTime).toFixed(1)}s)
-- Stagger timing: Each word appears ${Math.round(frames * 0.15 / duration)} frames (0.15s) after previous
-- Word entrance: 12-frame slide-up animation (0.4s) per word
-
-ANIMATION SEQUENCE:
-- Split text into individual words (${words} words detected)
-- Calculate stagger: ${Math.round(revealTime * fps / words)} frames between words  
-- Word entrance: Slide up 25px with opacity 0→1 over 12 frames
-- Easing: cubic-bezier(0.25, 0.46, 0.45, 0.94) for smooth natural motion
-- Optional cursor: Blinking pipe character for 24 frames after each word
-
-VISUAL TREATMENT:
-- Text shadow: 0 4px 12px rgba(0,0,0,0.3) for depth
-- Background: Subtle gradient or solid professional color
-- Text color: High contrast for accessibility (4.5:1 minimum ratio)
-
-RESPONSIVE DESIGN:
-- Center horizontally with max-width 80% of container
-- Vertical center with flex alignment  
-- Scale font size between 48px-72px based on container width`;
-
-    } else if (prompt.includes('logo')) {
-      // Logo animation - brand presentation specifications
-      const revealDuration = Math.min(3, duration * 0.3); // Logo reveal takes max 3s or 30% of total
-      const holdDuration = duration - revealDuration;
-      
-      enhancedPrompt = `Create a professional logo reveal animation with brand presentation focus:
-
-COMPOSITION SETTINGS (CRITICAL - Update Root.tsx):
-- Duration: ${duration} seconds (durationInFrames={${frames}} at fps={${fps}})
-- Timeline: ${revealDuration}s reveal + ${holdDuration}s presentation hold
-- Dimensions: 1920x1080 for professional quality
-
-LOGO SPECIFICATIONS:
-- Logo container: Center screen, max 300px width/height
-- Scale entrance: Start 0.3x, animate to 1.0x over ${revealDuration}s
-- Entrance easing: cubic-bezier(0.34, 1.56, 0.64, 1) for professional bounce
-
-ANIMATION TIMELINE (${duration} seconds = ${frames} frames):
-- Preparation phase: 0-${Math.round(frames * 0.1)} frames (anticipation)
-- Reveal phase: ${Math.round(frames * 0.1)}-${Math.round(frames * (revealDuration / duration))} frames (logo entrance)
-- Hold phase: ${Math.round(frames * (revealDuration / duration))}-${frames} frames (stable presentation)
-- Frame calculations: Use interpolate(frame, [${Math.round(frames * 0.1)}, ${Math.round(frames * (revealDuration / duration))}], [0.3, 1.0])
-
-REVEAL SEQUENCE:
-- Background preparation: Subtle gradient or brand-appropriate solid
-- Logo entrance: Scale + fade (opacity 0→1) simultaneously
-- Completion hold: Logo stable for ${holdDuration.toFixed(1)} seconds  
-- Optional glow: Subtle shadow 0 0 20px brand-color at 20% opacity
-
-BRAND CONSIDERATIONS:
-- Respect logo safe area (minimum 1/4 logo width spacing)
-- Maintain aspect ratio during animation
-- Use brand colors if specified, otherwise professional neutrals
-- Ensure logo legibility throughout animation
-
-PROFESSIONAL POLISH:
-- Smooth 60fps animation using transform properties
-- Hardware acceleration with translateZ(0)
-- Subtle anticipation (${Math.round(frames * 0.1)} frame pause before main animation)
-- Clean, minimal design supporting the logo as hero element`;
-
-    } else {
-      // Generic animation with specific measurements
-      enhancedPrompt = `Create a ${style} ${basicPrompt} animation with specific technical requirements:
-
-COMPOSITION SETTINGS (CRITICAL - Update Root.tsx):
-- Duration: ${duration} seconds (durationInFrames={${frames}} at fps={${fps}})
-- Timeline: Plan animation sequence across full ${duration} seconds
-- Dimensions: 1920x1080 for professional quality
-
-VISUAL SPECIFICATIONS:
-- Container: Full viewport with proper aspect ratio handling
-- Main element: Center-positioned with responsive sizing
-- Color scheme: High contrast with accessibility compliance (4.5:1 ratio minimum)
-- Typography: System font stack with proper scale (16px base, 1.25 ratio for headings)
+    const entries = await listTrash();
+    const lines = entries.map(entry => `• ${entry.project} - deleted ${entry.deletedAt}, kept until ${entry.expiresAt}\n  id: ${entry.id}`);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: entries.length > 0
+          ? `🗑️ Trash (${entries.length} project(s), kept ${getConfig().trashRetentionDays} day(s)):\n${lines.join('\n')}`
+          : '🗑️ Trash is empty'
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to list trash: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
 
-ANIMATION TIMELINE (${duration} seconds = ${frames} frames):
-- Entrance phase: 0-${Math.round(frames * 0.2)} frames (${(duration * 0.2).toFixed(1)}s)
-- Main animation: ${Math.round(frames * 0.2)}-${Math.round(frames * 0.8)} frames (${(duration * 0.6).toFixed(1)}s)
-- Exit/hold phase: ${Math.round(frames * 0.8)}-${frames} frames (${(duration * 0.2).toFixed(1)}s)
+async function restoreProject(projectOrId: string, newName?: string): Promise<any> {
+  try {
+    const entry = await findTrashEntry(projectOrId);
+    if (!entry) {
+      throw new Error(`No project '${projectOrId}' in the trash - use list-trash`);
+    }
+    
+    const name = newName || entry.project;
+    const projectPath = getWindowsProjectPath(name);
+    await restoreFromTrash(entry, projectPath);
+    
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Restored project '${name}' (deleted ${entry.deletedAt})\nPath: ${projectPath}`
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to restore project: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
 
-ANIMATION TECHNICAL SPECS:
-- Frame rate: ${fps}fps with transform-based animations
-- Timing: Calculate based on ${frames} total frames for smooth progression
-- Easing: cubic-bezier(0.25, 0.46, 0.45, 0.94) for natural motion
-- Performance: Use transform and opacity properties only for smooth animation
+async function emptyTrashTool(id?: string): Promise<any> {
+  try {
+    const removed = await emptyTrash(id ? [id] : undefined);
+    if (id && removed.length === 0) {
+      throw new Error(`No trash entry '${id}' - use list-trash`);
+    }
+    
+    return {
+      content: [{
+        type: 'text',
+        text: removed.length > 0
+          ? `✅ Permanently deleted ${removed.length} project(s) from the trash: ${removed.map(entry => entry.project).join(', ')}`
+          : '🗑️ Trash is already empty'
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Failed to empty trash: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
 
-VISUAL EFFECTS:
-- Depth: Subtle box-shadows 0 4px 8px rgba(0,0,0,0.15)
-- Gradients: Professional 135deg linear gradients
-- Spacing: 8px grid system (8px, 16px, 24px, 32px increments)
-- Responsive: Adapt to different screen sizes with relative units`;
+async function enhanceAnimationPrompt(basicPrompt: string, options: Partial<PromptTemplateParams> & { template?: string } = {}): Promise<any> {
+  try {
+    if (typeof basicPrompt !== 'string' || !basicPrompt.trim()) {
+      throw new Error('basicPrompt is required');
+    }
+    const style = options.style || 'professional';
+    if (!ANIMATION_STYLES.includes(style)) {
+      throw new Error(`style must be one of: ${ANIMATION_STYLES.join(', ')}`);
     }
+    
+    // Same validation and seconds -> frames conversion as create-video
+    const defaults = defaultCompositionSettings();
+    const settings = applyCompositionSettings(defaults, {
+      durationSeconds: options.durationSeconds ?? defaults.durationInFrames / (options.fps ?? defaults.fps),
+      fps: options.fps,
+      width: options.width,
+      height: options.height
+    });
+    
+    const { templates } = await loadPromptTemplates();
+    const template = selectPromptTemplate(templates, basicPrompt, options.template);
+    const enhancedPrompt = renderPromptTemplate(template, {
+      prompt: basicPrompt.trim(),
+      style,
+      durationSeconds: settings.durationInFrames / settings.fps,
+      fps: settings.fps,
+      width: settings.width,
+      height: settings.height,
+      brandColors: options.brandColors
+    });
 
     return {
       content: [{
         type: 'text',
-        text: `🎨 Enhanced Animation Prompt (Research-Backed Specific Instructions):
+        text: `🎨 Enhanced Animation Prompt (template: ${template.name} - ${template.id})
 
 ${enhancedPrompt}
 
-✅ Ready to use with create-video tool for dramatically improved results!
-
-📊 Research shows this approach provides up to 76% better results than generic descriptors.
-💡 Copy this enhanced prompt and use it with create-video for professional quality animation.`
+✅ Ready to use with create-video - pass durationInFrames=${settings.durationInFrames}, fps=${settings.fps}, width=${settings.width}, height=${settings.height}
+💡 Use list-prompt-templates to see other templates or add your own.`
       }]
     };
     
@@ -832,9 +2522,52 @@ ${enhancedPrompt}
   }
 }
 
+async function listPromptTemplates(): Promise<any> {
+  try {
+    const { templates, errors } = await loadPromptTemplates();
+    const dir = getPromptTemplatesDir();
+    
+    let text = `Found ${templates.length} prompt templates:\n\n` +
+      templates.map(template => {
+        const keywords = template.keywords.length > 0
+          ? template.keywords.join(', ')
+          : template.id === 'generic' ? 'none - used when nothing else matches' : 'none - select with the template argument';
+        return `• ${template.id} - ${template.name} (${template.source === 'built-in' ? 'built-in' : path.basename(template.source)})\n  ${template.description}\n  Keywords: ${keywords}`;
+      }).join('\n');
+    
+    if (errors.length > 0) {
+      text += `\n\n⚠️ Skipped templates:\n${errors.map(error => `• ${error}`).join('\n')}`;
+    }
+    
+    text += `\n\n📁 Add your own as .json or .md files in: ${dir}
+JSON: { "id", "name", "description", "keywords": [...], "variables": { "name": "expression" }, "body": "..." }
+Markdown: front matter lines (id:, name:, description:, keywords: a, b, variables.name: expression) then the body
+Placeholders: {{prompt}}, {{style}}, {{seconds}}, {{fps}}, {{frames}}, {{width}}, {{height}}, {{orientation}}, {{words}},
+{{primaryColor}}, {{secondaryColor}}, {{accentColor}}, {{backgroundColor}}, {{textColor}}, {{styleGuide}}
+Expressions: + - * / % ( ) with round, floor, ceil, min, max, clamp, fixed - e.g. {{round(frames * 0.2)}}
+A template with the same id as a built-in replaces it.`;
+    
+    return {
+      content: [{
+        type: 'text',
+        text
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ Error listing prompt templates: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
 async function getMCPInfo(): Promise<any> {
   try {
     const buildDate = new Date().toISOString();
+    const { studioPortRange } = getConfig();
     const toolCount = getTools().length;
     
     return {
@@ -844,8 +2577,8 @@ async function getMCPInfo(): Promise<any> {
 Version: 4.8.0 (Component Name Standardization)
 Architecture: Direct Tools (No Complex Abstractions)  
 Total Tools: ${toolCount} (including new enhance-animation-prompt tool)
-Port Range: 6600-6620 (NOT 3000-3010!)
-Default Port: 6600 (NOT 3000!)
+Port Range: ${studioPortRange.start}-${studioPortRange.end} (NOT 3000-3010!)
+Default Port: first free port in the range (NOT 3000!)
 Build Date: ${buildDate}
 Status: Simple System Active
 File: build/index.js (from simple src/index.ts)
@@ -867,13 +2600,11 @@ File: build/index.js (from simple src/index.ts)
 
 async function createAndLaunchComplete(name: string, jsx: string, port?: number): Promise<any> {
   try {
-    const targetPort = port || 6600;
-    
     // Step 1: Create video project (includes dependency installation)
     const createResult = await createVideo(name, jsx);
     
-    // Step 2: Launch studio immediately after creation
-    const launchResult = await launchStudio(name, targetPort);
+    // Step 2: Launch studio immediately after creation (on the first free port unless one is given)
+    const launchResult = await launchStudio(name, port);
     
     return {
       content: [{
@@ -885,7 +2616,8 @@ ${createResult.content[0].text}
 ${launchResult.content[0].text}
 
 🎯 Single operation completed - no tool orchestration needed!`
-      }]
+      }],
+      structuredContent: launchResult.structuredContent
     };
     
   } catch (error) {
@@ -0,0 +1,137 @@
+// Trash - Deleted projects are moved to <projectsDir>/.trash and kept for trashRetentionDays
+// Each entry holds the project directory and a trash.json describing where it came from
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { getConfig } from './config.js';
+import { renameWithRetry } from './project-transaction.js';
+import { resolveProjectDir } from './utils/project-name.js';
+
+export const TRASH_DIR_NAME = '.trash';
+const ENTRY_FILE = 'trash.json';
+const PROJECT_DIR = 'project';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// <project>-<deletion time>[-<n>], see moveToTrash
+const TRASH_ID_PATTERN = /^(.+)-\d{8}T\d{6}Z(?:-\d+)?$/;
+
+export interface TrashEntry {
+  id: string;
+  project: string;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+export function getTrashDir(): string {
+  return path.join(getConfig().projectsDir, TRASH_DIR_NAME);
+}
+
+/**
+ * Check an argument naming a trashed project: a project name, or a trash id (the name plus its deletion time).
+ * Throws ProjectNameError like the project name check.
+ */
+export function validateTrashReference(value: unknown): void {
+  const match = typeof value === 'string' ? value.match(TRASH_ID_PATTERN) : null;
+  resolveProjectDir(getConfig().projectsDir, match ? match[1] : value);
+}
+
+function entryDir(id: string): string {
+  return path.join(getTrashDir(), id);
+}
+
+async function readEntry(id: string): Promise<TrashEntry | null> {
+  try {
+    const entry: TrashEntry = await fs.readJson(path.join(entryDir(id), ENTRY_FILE));
+    return entry.id === id && await fs.pathExists(path.join(entryDir(id), PROJECT_DIR)) ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move a project into the trash; expired entries are purged first
+ */
+export async function moveToTrash(project: string, projectPath: string, now: Date = new Date()): Promise<TrashEntry> {
+  await purgeExpiredTrash(now);
+
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  let id = `${project}-${stamp}`;
+  for (let suffix = 2; await fs.pathExists(entryDir(id)); suffix++) {
+    id = `${project}-${stamp}-${suffix}`;
+  }
+
+  const entry: TrashEntry = {
+    id,
+    project,
+    deletedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + getConfig().trashRetentionDays * DAY_MS).toISOString()
+  };
+  await fs.ensureDir(entryDir(id));
+  await fs.writeJson(path.join(entryDir(id), ENTRY_FILE), entry, { spaces: 2 });
+  try {
+    await renameWithRetry(projectPath, path.join(entryDir(id), PROJECT_DIR));
+  } catch (error) {
+    await fs.remove(entryDir(id)).catch(() => undefined);
+    throw error;
+  }
+  return entry;
+}
+
+/**
+ * Trashed projects, newest first
+ */
+export async function listTrash(now: Date = new Date()): Promise<TrashEntry[]> {
+  await purgeExpiredTrash(now);
+  const ids = await fs.readdir(getTrashDir()).catch(() => [] as string[]);
+  const entries: TrashEntry[] = [];
+  for (const id of ids) {
+    const entry = await readEntry(id);
+    if (entry) entries.push(entry);
+  }
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * A trash entry by id, or the most recently deleted copy of a project
+ */
+export async function findTrashEntry(idOrProject: string): Promise<TrashEntry | null> {
+  const entries = await listTrash();
+  return entries.find(entry => entry.id === idOrProject) || entries.find(entry => entry.project === idOrProject) || null;
+}
+
+/**
+ * Move a trashed project back to projectPath; fails rather than overwrite an existing project
+ */
+export async function restoreFromTrash(entry: TrashEntry, projectPath: string): Promise<void> {
+  if (await fs.pathExists(projectPath)) {
+    throw new Error(`Project '${path.basename(projectPath)}' already exists - restore under another name with newName`);
+  }
+  await renameWithRetry(path.join(entryDir(entry.id), PROJECT_DIR), projectPath);
+  await fs.remove(entryDir(entry.id));
+}
+
+/**
+ * Permanently delete trash entries (all of them when no ids are given)
+ */
+export async function emptyTrash(ids?: string[]): Promise<TrashEntry[]> {
+  const entries = await listTrash();
+  const removed = ids ? entries.filter(entry => ids.includes(entry.id)) : entries;
+  for (const entry of removed) {
+    await fs.remove(entryDir(entry.id));
+  }
+  return removed;
+}
+
+/**
+ * Delete entries past their retention date
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<TrashEntry[]> {
+  const ids = await fs.readdir(getTrashDir()).catch(() => [] as string[]);
+  const purged: TrashEntry[] = [];
+  for (const id of ids) {
+    const entry = await readEntry(id);
+    if (entry && new Date(entry.expiresAt).getTime() <= now.getTime()) {
+      await fs.remove(entryDir(id));
+      purged.push(entry);
+    }
+  }
+  return purged;
+}
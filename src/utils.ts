@@ -1,93 +1,79 @@
-// Windows Utility Functions - Simple and Direct
+// Utility Functions - Simple and Direct
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import * as path from 'path';
+import * as net from 'net';
 import axios from 'axios';
+import { getPlatform } from './platform/index.js';
+import { getConfig } from './config.js';
+import { resolveProjectDir } from './utils/project-name.js';
 
 const execAsync = promisify(exec);
 
 /**
- * Get Windows project path for a project name
+ * Get project path for a project name
+ * Throws ProjectNameError for names that are unsafe or escape the projects directory
  */
 export function getWindowsProjectPath(projectName: string): string {
-  const assetsDir = getAssetsDir();
-  return path.join(assetsDir, 'projects', projectName);
+  return resolveProjectDir(getProjectsDir(), projectName);
 }
 
 /**
- * Get assets directory using Windows paths
+ * Get assets directory (configurable - see config.ts)
  */
 export function getAssetsDir(): string {
-  // Use environment variable or default Windows path
-  return process.env.REMOTION_ASSETS_DIR || 
-         'D:\\MY PROJECTS\\AI\\LLM\\AI Code Gen\\my-builds\\Video + Motion\\RoughCut\\assets';
+  return getConfig().assetsDir;
 }
 
 /**
- * Find what process is actually using a port
- * Uses modern Windows commands instead of deprecated WMIC
+ * Get directory holding all video projects
+ */
+export function getProjectsDir(): string {
+  return getConfig().projectsDir;
+}
+
+/**
+ * All ports in the configured studio port range
+ */
+export function getStudioPorts(): number[] {
+  const { start, end } = getConfig().studioPortRange;
+  const ports = [];
+  for (let port = start; port <= end; port++) {
+    ports.push(port);
+  }
+  return ports;
+}
+
+/**
+ * npx executable name (Windows needs the .cmd shim when not going through a shell)
+ */
+export function getNpxCommand(): string {
+  return getPlatform().npxCommand;
+}
+
+/**
+ * Find what process is actually listening on a port
+ * Delegates to the platform adapter (netstat on Windows, /proc/ss/lsof on Linux, lsof on macOS)
  */
 export async function findProcessOnPort(port: number): Promise<number | null> {
   try {
-    // Use netstat to find port, then tasklist to get process name
-    const netstatResult = await execAsync(`netstat -ano | findstr :${port} | findstr LISTENING`);
-    
-    if (!netstatResult.stdout.trim()) {
-      return null; // No process on port
-    }
-    
-    // Extract PID from netstat output: "TCP 0.0.0.0:3000 ... LISTENING 1234"
-    const match = netstatResult.stdout.match(/\s+(\d+)\s*$/);
-    if (!match) {
-      return null;
-    }
-    
-    const pid = parseInt(match[1], 10);
-    
-    // Verify it's actually a node/remotion process
-    try {
-      const processResult = await execAsync(`tasklist /fi "PID eq ${pid}" /fo csv`);
-      if (processResult.stdout.includes('node.exe') || processResult.stdout.includes('remotion')) {
-        return pid;
-      }
-    } catch {
-      // If tasklist fails, still return the PID
-      return pid;
-    }
-    
-    return pid;
-    
+    return await getPlatform().findPidOnPort(port);
   } catch (error) {
     return null;
   }
 }
 
 /**
- * Kill process on specific port
- * Uses direct Windows commands that actually work
+ * Whether a port is free: no process owns it and it can be bound
  */
-export async function killProcessOnPort(port: number): Promise<boolean> {
-  try {
-    const pid = await findProcessOnPort(port);
-    
-    if (!pid) {
-      return false; // Nothing to kill
-    }
-    
-    // Use Windows taskkill - force kill the process tree
-    await execAsync(`taskkill /f /t /pid ${pid}`);
-    
-    // Wait a moment for cleanup
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Verify it's actually gone
-    const stillExists = await findProcessOnPort(port);
-    return !stillExists;
-    
-  } catch (error) {
-    // If kill fails, that's usually fine (process already dead)
-    return true;
+export async function isPortFree(port: number): Promise<boolean> {
+  if (await findProcessOnPort(port)) {
+    return false;
   }
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
 }
 
 /**
@@ -95,7 +81,7 @@ export async function killProcessOnPort(port: number): Promise<boolean> {
  */
 export async function validateRemotionAvailable(): Promise<boolean> {
   try {
-    const result = await execAsync('npx.cmd remotion --version', { timeout: 10000 });
+    const result = await execAsync(`${getNpxCommand()} remotion --version`, { timeout: 10000 });
     return result.stdout.includes('remotion') || result.stdout.includes('4.0');
   } catch {
     return false;
@@ -108,8 +94,8 @@ export async function validateRemotionAvailable(): Promise<boolean> {
 export async function getSystemStatus(): Promise<{ports: Array<{port: number, pid: number}>, remotionAvailable: boolean}> {
   const ports = [];
   
-  // Check 6600-6620 studio port range
-  for (const port of [6600, 6601, 6602, 6603, 6604, 6605, 6606, 6607, 6608, 6609, 6610]) {
+  // Check the configured studio port range
+  for (const port of getStudioPorts()) {
     const pid = await findProcessOnPort(port);
     if (pid) {
       ports.push({ port, pid });
@@ -121,20 +107,6 @@ export async function getSystemStatus(): Promise<{ports: Array<{port: number, pi
   return { ports, remotionAvailable };
 }
 
-/**
- * Find which port a studio is running on (if any)
- */
-export async function findStudioPort(): Promise<number | null> {
-  // Check 6600-6620 studio port range
-  for (const port of [6600, 6601, 6602, 6603, 6604, 6605, 6606, 6607, 6608, 6609, 6610]) {
-    const pid = await findProcessOnPort(port);
-    if (pid) {
-      return port; // Return first found port
-    }
-  }
-  return null;
-}
-
 /**
  * HTTP-based health check for Remotion Studio (research-backed solution)
  * Tests actual functionality instead of guessing from processes
@@ -0,0 +1,113 @@
+// Compile Errors - Turns webpack and esbuild output from the studio into file/line/message records
+// Only the latest build counts: output before the last successful build is ignored
+
+export interface CompileError {
+  file: string | null;
+  line: number | null;
+  column: number | null;
+  message: string;
+}
+
+// "ERROR in ./src/VideoComposition.tsx 12:4" (webpack)
+const WEBPACK_ERROR = /^ERROR in (\S+?)(?: (\d+):(\d+)(?:-\d+)?)?$/;
+// "/abs/src/VideoComposition.tsx:12:4: ERROR: Expected ")" but found "}"" (esbuild, compact)
+const ESBUILD_COMPACT = /^(.+?\.[cm]?[jt]sx?):(\d+):(\d+): ERROR: (.+)$/;
+// "✘ [ERROR] Expected ")" but found "}"" followed by an indented "src/File.tsx:12:4:" (esbuild, pretty)
+const ESBUILD_PRETTY = /^(?:✘ )?\[ERROR\] (.+)$/;
+const ESBUILD_LOCATION = /^\s+(.+?\.[cm]?[jt]sx?):(\d+):(\d+):?$/;
+// "webpack compiled successfully", "Built in 1234ms"
+const BUILD_SUCCEEDED = /compiled successfully|^built in \d+ ?ms/i;
+// Studio logs drop blank lines, so a webpack block ends at the next block or after a few lines
+const WEBPACK_BLOCK_START = /^(?:ERROR|WARNING) in /;
+const WEBPACK_BLOCK_LINES = 8;
+// Lines that belong to a webpack error block but carry no information
+const NOISE = /^(Module (?:parse|build) failed|Error: Transform failed with \d+ errors?:|@ |webpack compiled with|\s*at )/;
+
+function cleanFile(file: string): string {
+  return file.replace(/^\.\//, '').replace(/\\/g, '/');
+}
+
+/**
+ * Relative path for files inside the project, so errors point at what edit tools accept
+ */
+function relativeTo(file: string, projectPath?: string): string {
+  const normalized = cleanFile(file);
+  if (!projectPath) return normalized;
+  const root = `${projectPath.replace(/\\/g, '/').replace(/\/$/, '')}/`;
+  return normalized.startsWith(root) ? normalized.slice(root.length) : normalized;
+}
+
+/**
+ * Compile errors of the latest build in studio output; empty when it succeeded
+ */
+export function parseCompileErrors(lines: string[], projectPath?: string): CompileError[] {
+  let start = 0;
+  lines.forEach((line, index) => {
+    if (BUILD_SUCCEEDED.test(line.trim())) start = index + 1;
+  });
+
+  const errors: CompileError[] = [];
+  const seen = new Set<string>();
+  const add = (error: CompileError) => {
+    const key = `${error.file}:${error.line}:${error.column}:${error.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      errors.push(error);
+    }
+  };
+
+  const recent = lines.slice(start);
+  for (let index = 0; index < recent.length; index++) {
+    const line = recent[index].trimEnd();
+
+    const compact = line.trim().match(ESBUILD_COMPACT);
+    if (compact) {
+      add({ file: relativeTo(compact[1], projectPath), line: Number(compact[2]), column: Number(compact[3]), message: compact[4] });
+      continue;
+    }
+
+    const pretty = line.trim().match(ESBUILD_PRETTY);
+    if (pretty) {
+      // The location follows within a few lines, after a blank one
+      const location = recent.slice(index + 1, index + 4).map(next => next.match(ESBUILD_LOCATION)).find(Boolean);
+      add({
+        file: location ? relativeTo(location[1], projectPath) : null,
+        line: location ? Number(location[2]) : null,
+        column: location ? Number(location[3]) : null,
+        message: pretty[1]
+      });
+      continue;
+    }
+
+    const webpack = line.trim().match(WEBPACK_ERROR);
+    if (webpack) {
+      // The message is the first informative line of the block; esbuild details inside it are handled above
+      const details: string[] = [];
+      let next = index + 1;
+      for (; next < recent.length && next <= index + WEBPACK_BLOCK_LINES; next++) {
+        const detail = recent[next].trim();
+        if (detail === '' || WEBPACK_BLOCK_START.test(detail) || BUILD_SUCCEEDED.test(detail)) break;
+        details.push(detail);
+      }
+      if (details.some(detail => ESBUILD_COMPACT.test(detail) || ESBUILD_PRETTY.test(detail))) {
+        continue;
+      }
+      add({
+        file: relativeTo(webpack[1], projectPath),
+        line: webpack[2] ? Number(webpack[2]) : null,
+        column: webpack[3] ? Number(webpack[3]) : null,
+        message: details.find(detail => !NOISE.test(detail)) || 'Build failed'
+      });
+      index = next - 1;
+    }
+  }
+  return errors;
+}
+
+/**
+ * One line per error like "src/VideoComposition.tsx:12:5 - Expected ")" but found "}""
+ */
+export function formatCompileError(error: CompileError): string {
+  const location = error.file ? `${error.file}${error.line !== null ? `:${error.line}${error.column !== null ? `:${error.column}` : ''}` : ''}` : '(unknown file)';
+  return `${location} - ${error.message}`;
+}
@@ -0,0 +1,93 @@
+// Unified Diff - Line diffs for tool results, so edits can be reviewed without rereading the file
+
+const CONTEXT_LINES = 3;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line operations turning a into b (longest common subsequence after trimming shared ends)
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const rows = middleA.length + 1;
+  const cols = middleB.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = middleA.length - 1; i >= 0; i--) {
+    for (let j = middleB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = middleA[i] === middleB[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, prefix).map(line => ({ type: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      ops.push({ type: ' ', line: middleA[i++] });
+      j++;
+    } else if (i < middleA.length && (j === middleB.length || lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+      ops.push({ type: '-', line: middleA[i++] });
+    } else {
+      ops.push({ type: '+', line: middleB[j++] });
+    }
+  }
+  ops.push(...a.slice(a.length - suffix).map(line => ({ type: ' ' as const, line })));
+  return ops;
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty side is reported at the line before it, as GNU diff does
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Unified diff of two texts; empty string when they are the same
+ */
+export function createUnifiedDiff(fileName: string, before: string, after: string): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.map((op, index) => op.type !== ' ' ? index : -1).filter(index => index >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  let cursor = 0;
+  while (cursor < changed.length) {
+    // Grow the hunk while the next change is within two context windows
+    let last = cursor;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= CONTEXT_LINES * 2 + 1) last++;
+    const start = Math.max(0, changed[cursor] - CONTEXT_LINES);
+    const end = Math.min(ops.length, changed[last] + CONTEXT_LINES + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== '+') oldLine++;
+      if (op.type !== '-') newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+
+    output.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`);
+    output.push(...hunk.map(op => `${op.type}${op.line}`));
+    cursor = last + 1;
+  }
+
+  return output.join('\n');
+}
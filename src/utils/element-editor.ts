@@ -0,0 +1,640 @@
+// Element Editor - Targeted edits to JSX elements instead of resending the whole component
+// Elements are found by selector, data-id or text; edits splice the original source so formatting is kept
+import { parse, parseExpression } from '@babel/parser';
+import _traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+
+// @babel/traverse is CommonJS with a default export
+const traverse = (_traverse as unknown as { default?: typeof _traverse }).default ?? _traverse;
+
+export interface ElementTarget {
+  /**
+   * CSS-like selector: Tag, #id, .class, [prop] and [prop="value"], with spaces for descendants
+   */
+  selector?: string;
+
+  /**
+   * Value of the element's data-id prop
+   */
+  dataId?: string;
+
+  /**
+   * Text the element itself contains (not counting child elements)
+   */
+  text?: string;
+
+  /**
+   * Which match to edit (0-based) when several elements match
+   */
+  index?: number;
+
+  /**
+   * Edit every match instead of requiring exactly one
+   */
+  all?: boolean;
+}
+
+export type InsertPosition = 'before' | 'after' | 'start' | 'end';
+
+export interface ElementChanges {
+  props?: Record<string, unknown>; // literal values; null removes the prop
+  propExpressions?: Record<string, string>; // code, e.g. "interpolate(frame, [0, 30], [0, 1])"
+  style?: Record<string, unknown>; // merged into style={{ }}; null removes the property
+  styleExpressions?: Record<string, string>;
+  text?: string;
+  children?: string; // JSX replacing all children
+  insert?: { jsx: string; position?: InsertPosition };
+  replace?: string; // JSX replacing the element
+  remove?: boolean;
+}
+
+export interface ElementEditResult {
+  output: string;
+  matched: Array<{ name: string; line: number }>;
+  changes: string[];
+}
+
+interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface SelectorPart {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: Array<{ name: string; value?: string }>;
+}
+
+type ElementPath = NodePath<t.JSXElement>;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Parse a selector into descendant parts, e.g. 'Sequence .title[data-role="main"]'
+ */
+export function parseSelector(selector: string): SelectorPart[] {
+  const parts: SelectorPart[] = [];
+  const pattern = /\s*([A-Za-z_$][\w$]*)?((?:#[\w-]+|\.[\w-]+|\[\s*[\w:-]+\s*(?:=\s*(?:"[^"]*"|'[^']*'|[^\]\s]+)\s*)?\])*)/y;
+  let position = 0;
+
+  while (position < selector.length && selector.slice(position).trim()) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(selector);
+    if (!match || match[0].trim() === '') {
+      throw new Error(`Invalid selector '${selector}' near '${selector.slice(position).trim()}'`);
+    }
+
+    const part: SelectorPart = { tag: match[1], classes: [], attributes: [] };
+    for (const token of match[2].match(/#[\w-]+|\.[\w-]+|\[[^\]]*\]/g) || []) {
+      if (token.startsWith('#')) {
+        part.id = token.slice(1);
+      } else if (token.startsWith('.')) {
+        part.classes.push(token.slice(1));
+      } else {
+        const attribute = token.match(/^\[\s*([\w:-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]$/)!;
+        part.attributes.push({ name: attribute[1], value: attribute[2] ?? attribute[3] ?? attribute[4] });
+      }
+    }
+    parts.push(part);
+    position = pattern.lastIndex;
+
+    if (position < selector.length && !/\s/.test(selector[position])) {
+      throw new Error(`Invalid selector '${selector}' near '${selector.slice(position)}'`);
+    }
+  }
+
+  if (parts.length === 0) {
+    throw new Error('Selector is empty');
+  }
+  return parts;
+}
+
+function jsxName(name: t.JSXIdentifier | t.JSXMemberExpression | t.JSXNamespacedName): string {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXNamespacedName(name)) return `${name.namespace.name}:${name.name.name}`;
+  return `${jsxName(name.object)}.${name.property.name}`;
+}
+
+function findAttribute(opening: t.JSXOpeningElement, name: string): t.JSXAttribute | undefined {
+  return opening.attributes.find((attribute): attribute is t.JSXAttribute =>
+    t.isJSXAttribute(attribute) && jsxName(attribute.name) === name);
+}
+
+/**
+ * Value of a prop written as a literal ("x", {'x'}, {`x`}, {3}); null when it is computed
+ */
+function staticValue(attribute: t.JSXAttribute): string | null {
+  const value = t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value;
+  if (value === null) return 'true';
+  if (t.isStringLiteral(value)) return value.value;
+  if (t.isNumericLiteral(value) || t.isBooleanLiteral(value)) return String(value.value);
+  if (t.isTemplateLiteral(value) && value.expressions.length === 0) return value.quasis[0].value.cooked ?? null;
+  return null;
+}
+
+/**
+ * Text parts written directly inside an element (JSX text and string literals)
+ */
+function ownTextChildren(element: t.JSXElement): Array<t.JSXText | t.JSXExpressionContainer> {
+  return element.children.filter((child): child is t.JSXText | t.JSXExpressionContainer =>
+    (t.isJSXText(child) && child.value.trim() !== '') ||
+    (t.isJSXExpressionContainer(child) && (t.isStringLiteral(child.expression) ||
+      (t.isTemplateLiteral(child.expression) && child.expression.expressions.length === 0))));
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function ownText(element: t.JSXElement): string {
+  return normalizeText(ownTextChildren(element).map(child => {
+    if (t.isJSXText(child)) return child.value;
+    const expression = child.expression;
+    return t.isStringLiteral(expression) ? expression.value : (expression as t.TemplateLiteral).quasis[0].value.cooked ?? '';
+  }).join(' '));
+}
+
+function matchesPart(opening: t.JSXOpeningElement, part: SelectorPart): boolean {
+  if (part.tag && jsxName(opening.name) !== part.tag) return false;
+
+  if (part.id !== undefined) {
+    const id = findAttribute(opening, 'id');
+    if (!id || staticValue(id) !== part.id) return false;
+  }
+
+  if (part.classes.length > 0) {
+    const className = findAttribute(opening, 'className');
+    const classes = (className && staticValue(className) || '').split(/\s+/);
+    if (!part.classes.every(name => classes.includes(name))) return false;
+  }
+
+  return part.attributes.every(({ name, value }) => {
+    const attribute = findAttribute(opening, name);
+    return attribute !== undefined && (value === undefined || staticValue(attribute) === value);
+  });
+}
+
+function matchesSelector(path: ElementPath, parts: SelectorPart[]): boolean {
+  if (!matchesPart(path.node.openingElement, parts[parts.length - 1])) return false;
+
+  // Remaining parts must match ancestors in order, nearest first
+  let remaining = parts.length - 2;
+  let ancestor: NodePath | null = path.parentPath;
+  while (remaining >= 0 && ancestor) {
+    if (ancestor.isJSXElement() && matchesPart(ancestor.node.openingElement, parts[remaining])) {
+      remaining--;
+    }
+    ancestor = ancestor.parentPath;
+  }
+  return remaining < 0;
+}
+
+function describeTarget(target: ElementTarget): string {
+  const criteria = [];
+  if (target.selector) criteria.push(`selector '${target.selector}'`);
+  if (target.dataId !== undefined) criteria.push(`data-id '${target.dataId}'`);
+  if (target.text !== undefined) criteria.push(`text '${target.text}'`);
+  return criteria.join(' and ');
+}
+
+/**
+ * Elements matching the target, in source order
+ */
+function findElements(ast: t.File, target: ElementTarget): ElementPath[] {
+  if (!target.selector && target.dataId === undefined && target.text === undefined) {
+    throw new Error('Target needs a selector, dataId or text');
+  }
+  const parts = target.selector ? parseSelector(target.selector) : null;
+  const text = target.text !== undefined ? normalizeText(target.text) : undefined;
+
+  const matches: ElementPath[] = [];
+  traverse(ast, {
+    JSXElement(path) {
+      const opening = path.node.openingElement;
+      if (parts && !matchesSelector(path, parts)) return;
+      if (target.dataId !== undefined) {
+        const dataId = findAttribute(opening, 'data-id');
+        if (!dataId || staticValue(dataId) !== target.dataId) return;
+      }
+      if (text !== undefined && !ownText(path.node).includes(text)) return;
+      matches.push(path);
+    }
+  });
+
+  if (matches.length === 0) {
+    throw new Error(`No element matches ${describeTarget(target)}`);
+  }
+  if (target.index !== undefined) {
+    if (!Number.isInteger(target.index) || target.index < 0 || target.index >= matches.length) {
+      throw new Error(`index ${target.index} is out of range - ${matches.length} element(s) match ${describeTarget(target)}`);
+    }
+    return [matches[target.index]];
+  }
+  if (matches.length > 1 && !target.all) {
+    const where = matches.map(path => `<${jsxName(path.node.openingElement.name)}> line ${path.node.loc?.start.line}`).join(', ');
+    throw new Error(`${matches.length} elements match ${describeTarget(target)} (${where}) - narrow the target, pass index or set all`);
+  }
+  return matches;
+}
+
+type Quote = '"' | "'";
+
+/**
+ * Quote style of the file, taken from its first import
+ */
+function preferredQuote(ast: t.File): Quote {
+  const declaration = ast.program.body.find((node): node is t.ImportDeclaration => t.isImportDeclaration(node));
+  const raw = (declaration?.source.extra?.raw as string | undefined) || '"';
+  return raw.startsWith("'") ? "'" : '"';
+}
+
+function formatString(value: string, quote: Quote): string {
+  const json = JSON.stringify(value);
+  return quote === '"' ? json : `'${json.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * JavaScript literal for a JSON-like value
+ */
+function formatLiteral(value: unknown, quote: Quote): string {
+  if (typeof value === 'string') return formatString(value, quote);
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value === 'boolean' || value === null) return String(value);
+  if (Array.isArray(value)) return `[${value.map(item => formatLiteral(item, quote)).join(', ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length === 0 ? '{}' : `{ ${entries.map(([key, item]) => `${formatKey(key, quote)}: ${formatLiteral(item, quote)}`).join(', ')} }`;
+  }
+  throw new Error(`Cannot write ${typeof value} value ${String(value)} into JSX`);
+}
+
+function formatKey(key: string, quote: Quote): string {
+  return IDENTIFIER.test(key) ? key : formatString(key, quote);
+}
+
+function checkExpression(code: string, label: string): string {
+  try {
+    parseExpression(code, { plugins: ['typescript', 'jsx'] });
+  } catch (error) {
+    throw new Error(`Invalid expression for ${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return code.trim();
+}
+
+function formatProperty(key: string, code: string, quote: Quote): string {
+  return key === code && IDENTIFIER.test(key) ? key : `${formatKey(key, quote)}: ${code}`;
+}
+
+/**
+ * `name="x"`, `name` or `name={...}` for a prop value
+ */
+function formatAttribute(name: string, value: unknown, quote: Quote): string {
+  if (value === true) return name;
+  if (typeof value === 'string' && !/["\n]/.test(value)) return `${name}="${value}"`;
+  return `${name}={${formatLiteral(value, quote)}}`;
+}
+
+/**
+ * Text as a JSX child - wrapped in {"..."} when it has characters JSX text cannot hold
+ */
+function formatJsxText(text: string, quote: Quote): string {
+  return /[{}<>\n]|^\s|\s$/.test(text) || text === '' ? `{${formatString(text, quote)}}` : text;
+}
+
+function lineIndent(source: string, position: number): string {
+  const lineStart = source.lastIndexOf('\n', position - 1) + 1;
+  return source.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function startsLine(source: string, position: number): boolean {
+  const lineStart = source.lastIndexOf('\n', position - 1) + 1;
+  return source.slice(lineStart, position).trim() === '';
+}
+
+function indentBlock(jsx: string, indent: string): string {
+  return jsx.trim().split('\n').join(`\n${indent}`);
+}
+
+function checkJsx(jsx: string, label: string): string {
+  let expression: t.Expression;
+  try {
+    expression = parseExpression(`<>${jsx}</>`, { plugins: ['typescript', 'jsx'] });
+  } catch (error) {
+    throw new Error(`Invalid JSX for ${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!t.isJSXFragment(expression)) {
+    throw new Error(`Invalid JSX for ${label}`);
+  }
+  return jsx;
+}
+
+function checkSingleElement(jsx: string, label: string): string {
+  let expression: t.Expression;
+  try {
+    expression = parseExpression(jsx, { plugins: ['typescript', 'jsx'] });
+  } catch (error) {
+    throw new Error(`Invalid JSX for ${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!t.isJSXElement(expression) && !t.isJSXFragment(expression)) {
+    throw new Error(`${label} must be a single JSX element`);
+  }
+  return jsx;
+}
+
+/**
+ * Rewrite the attribute list as one edit: updates in place, removals with their leading whitespace, additions at the end
+ */
+function attributeEdit(source: string, opening: t.JSXOpeningElement, updates: Map<string, string | null>, changes: string[]): SourceEdit | null {
+  if (updates.size === 0) return null;
+
+  const attributes = opening.attributes;
+  const nameEnd = (opening.typeParameters || opening.name).end!;
+  const regionEnd = attributes.length > 0 ? attributes[attributes.length - 1].end! : nameEnd;
+
+  // Separator used before each attribute; new ones copy the last one
+  const separators = attributes.map((attribute, index) =>
+    source.slice(index === 0 ? nameEnd : attributes[index - 1].end!, attribute.start!));
+  const separator = separators.length > 0 ? separators[separators.length - 1] : ' ';
+
+  const remaining = new Map(updates);
+  const kept: string[] = [];
+  attributes.forEach((attribute, index) => {
+    const name = t.isJSXAttribute(attribute) ? jsxName(attribute.name) : null;
+    const text = source.slice(attribute.start!, attribute.end!);
+    if (name === null || !remaining.has(name)) {
+      kept.push(`${separators[index]}${text}`);
+      return;
+    }
+    const replacement = remaining.get(name)!;
+    remaining.delete(name);
+    if (replacement === null) {
+      changes.push(`removed ${name}`);
+    } else {
+      kept.push(`${separators[index]}${replacement}`);
+      changes.push(`set ${name}`);
+    }
+  });
+  for (const [name, replacement] of remaining) {
+    if (replacement === null) {
+      changes.push(`${name} not present - nothing to remove`);
+      continue;
+    }
+    kept.push(`${separator}${replacement}`);
+    changes.push(`added ${name}`);
+  }
+
+  return { start: nameEnd, end: regionEnd, text: kept.join('') };
+}
+
+/**
+ * New style={{ }} text with properties merged; existing properties keep their source text
+ */
+function mergedStyle(source: string, opening: t.JSXOpeningElement, updates: Map<string, string | null>, quote: Quote, changes: string[]): string {
+  const style = findAttribute(opening, 'style');
+  const expression = style && t.isJSXExpressionContainer(style.value) ? style.value.expression : null;
+  const entries: string[] = [];
+  const remaining = new Map(updates);
+
+  if (t.isObjectExpression(expression)) {
+    for (const property of expression.properties) {
+      const key = t.isObjectProperty(property) && !property.computed
+        ? t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : null
+        : null;
+      if (key !== null && remaining.has(key)) {
+        const value = remaining.get(key)!;
+        remaining.delete(key);
+        if (value === null) {
+          changes.push(`removed style.${key}`);
+        } else {
+          entries.push(formatProperty(key, value, quote));
+          changes.push(`set style.${key}`);
+        }
+        continue;
+      }
+      entries.push(source.slice(property.start!, property.end!));
+    }
+  } else if (expression && !t.isJSXEmptyExpression(expression)) {
+    // style={styles.title} - keep it and override on top
+    entries.push(`...${source.slice(expression.start!, expression.end!)}`);
+  }
+
+  for (const [key, value] of remaining) {
+    if (value === null) {
+      changes.push(`style.${key} not present - nothing to remove`);
+      continue;
+    }
+    entries.push(formatProperty(key, value, quote));
+    changes.push(`added style.${key}`);
+  }
+
+  if (entries.length === 0) return '{{}}';
+  if (!t.isObjectExpression(expression) || expression.loc!.start.line === expression.loc!.end.line) {
+    return `{{ ${entries.join(', ')} }}`;
+  }
+
+  // Multi-line objects keep their indentation and trailing comma
+  const properties = expression.properties;
+  const closingIndent = lineIndent(source, expression.end! - 1);
+  const indent = properties.length > 0 ? lineIndent(source, properties[0].start!) : `${closingIndent}  `;
+  const trailingComma = properties.length > 0 && source.slice(properties[properties.length - 1].end!, expression.end!).includes(',');
+  return `{{\n${entries.map(entry => `${indent}${entry}`).join(',\n')}${trailingComma ? ',' : ''}\n${closingIndent}}}`;
+}
+
+/**
+ * Edit replacing an element's children; self-closing elements get a closing tag
+ */
+function childrenEdit(source: string, element: t.JSXElement, children: string): SourceEdit {
+  const opening = element.openingElement;
+  if (!element.closingElement) {
+    // Keep everything up to the last attribute and replace the "/>"
+    const tagEnd = source.slice(opening.start!, opening.end!).replace(/\s*\/>$/, '').length + opening.start!;
+    return { start: tagEnd, end: opening.end!, text: `>${children}</${jsxName(opening.name)}>` };
+  }
+  return { start: opening.end!, end: element.closingElement.start!, text: children };
+}
+
+function hasJsxParent(path: ElementPath): boolean {
+  return path.parentPath.isJSXElement() || path.parentPath.isJSXFragment();
+}
+
+function elementEdits(source: string, quote: Quote, path: ElementPath, changes: ElementChanges, log: string[]): SourceEdit[] {
+  const element = path.node;
+  const opening = element.openingElement;
+  const edits: SourceEdit[] = [];
+  const indent = lineIndent(source, element.start!);
+  const childIndent = `${indent}  `;
+
+  if (changes.remove) {
+    if (!hasJsxParent(path)) {
+      throw new Error(`<${jsxName(opening.name)}> on line ${element.loc?.start.line} is not inside other JSX - it cannot be removed on its own`);
+    }
+    const lineStart = source.lastIndexOf('\n', element.start! - 1) + 1;
+    const lineEnd = source.indexOf('\n', element.end!);
+    const ownsLine = startsLine(source, element.start!) && source.slice(element.end!, lineEnd === -1 ? undefined : lineEnd).trim() === '';
+    edits.push(ownsLine && lineEnd !== -1
+      ? { start: lineStart, end: lineEnd + 1, text: '' }
+      : { start: element.start!, end: element.end!, text: '' });
+    log.push('removed element');
+    return edits;
+  }
+
+  if (changes.replace !== undefined) {
+    edits.push({ start: element.start!, end: element.end!, text: indentBlock(changes.replace, indent) });
+    log.push('replaced element');
+    return edits;
+  }
+
+  if (changes.insert) {
+    const jsx = changes.insert.jsx;
+    const position = changes.insert.position || 'end';
+    if ((position === 'before' || position === 'after') && !hasJsxParent(path)) {
+      throw new Error(`<${jsxName(opening.name)}> is not inside other JSX - insert at 'start' or 'end' of it instead`);
+    }
+    if (position === 'before') {
+      const separator = startsLine(source, element.start!) ? `\n${indent}` : ' ';
+      edits.push({ start: element.start!, end: element.start!, text: `${indentBlock(jsx, indent)}${separator}` });
+    } else if (position === 'after') {
+      const separator = startsLine(source, element.start!) ? `\n${indent}` : ' ';
+      edits.push({ start: element.end!, end: element.end!, text: `${separator}${indentBlock(jsx, indent)}` });
+    } else if (!element.closingElement || element.children.every(child => t.isJSXText(child) && child.value.trim() === '')) {
+      edits.push(childrenEdit(source, element, `\n${childIndent}${indentBlock(jsx, childIndent)}\n${indent}`));
+    } else if (position === 'start') {
+      edits.push({ start: opening.end!, end: opening.end!, text: `\n${childIndent}${indentBlock(jsx, childIndent)}` });
+    } else {
+      const last = element.children[element.children.length - 1];
+      const end = t.isJSXText(last) && last.value.trim() === '' ? last.start! : element.closingElement.start!;
+      edits.push({ start: end, end, text: `\n${childIndent}${indentBlock(jsx, childIndent)}` });
+    }
+    log.push(`inserted element (${position})`);
+    return edits;
+  }
+
+  const attributes = new Map<string, string | null>();
+  for (const [name, value] of Object.entries(changes.props || {})) {
+    attributes.set(name, value === null ? null : formatAttribute(name, value, quote));
+  }
+  for (const [name, code] of Object.entries(changes.propExpressions || {})) {
+    attributes.set(name, `${name}={${checkExpression(code, `prop ${name}`)}}`);
+  }
+
+  const style = new Map<string, string | null>();
+  for (const [key, value] of Object.entries(changes.style || {})) {
+    style.set(key, value === null ? null : formatLiteral(value, quote));
+  }
+  for (const [key, code] of Object.entries(changes.styleExpressions || {})) {
+    style.set(key, checkExpression(code, `style.${key}`));
+  }
+  if (style.size > 0) {
+    if (attributes.has('style')) {
+      throw new Error('Change style either through props.style or through style/styleExpressions, not both');
+    }
+    attributes.set('style', `style=${mergedStyle(source, opening, style, quote, log)}`);
+  }
+
+  const attributeChanges: string[] = [];
+  const attributesEdit = attributeEdit(source, opening, attributes, attributeChanges);
+  if (attributesEdit) {
+    edits.push(attributesEdit);
+    // The merged style is reported per property above
+    log.push(...attributeChanges.filter(change => style.size === 0 || !/ style$/.test(change)));
+  }
+
+  if (changes.text !== undefined) {
+    const texts = ownTextChildren(element);
+    const elementChildren = element.children.filter(child => !(t.isJSXText(child) && child.value.trim() === ''));
+    if (texts.length > 1) {
+      throw new Error(`<${jsxName(opening.name)}> has ${texts.length} separate text parts - use children to replace them`);
+    }
+    if (texts.length === 1) {
+      const child = texts[0];
+      // Keep the whitespace around JSX text so the layout of the source stays the same
+      const value = t.isJSXText(child) ? child.value : '';
+      const leading = value.match(/^\s*/)![0];
+      const trailing = value.slice(leading.length).match(/\s*$/)![0];
+      edits.push({ start: child.start! + (t.isJSXText(child) ? leading.length : 0), end: child.end! - (t.isJSXText(child) ? trailing.length : 0), text: formatJsxText(changes.text, quote) });
+    } else if (elementChildren.length === 0) {
+      edits.push(childrenEdit(source, element, formatJsxText(changes.text, quote)));
+    } else {
+      throw new Error(`<${jsxName(opening.name)}> has no text of its own - target the child element that holds the text`);
+    }
+    log.push(`set text to "${changes.text}"`);
+  }
+
+  if (changes.children !== undefined) {
+    const children = changes.children.includes('\n')
+      ? `\n${childIndent}${indentBlock(changes.children, childIndent)}\n${indent}`
+      : changes.children;
+    edits.push(childrenEdit(source, element, children));
+    log.push('replaced children');
+  }
+
+  return edits;
+}
+
+function validateChanges(changes: ElementChanges): void {
+  const structural = [changes.remove ? 'remove' : null, changes.replace !== undefined ? 'replace' : null, changes.insert ? 'insert' : null]
+    .filter((name): name is string => name !== null);
+  const inPlace = (['props', 'propExpressions', 'style', 'styleExpressions', 'text', 'children'] as const)
+    .filter(name => changes[name] !== undefined);
+
+  if (structural.length + inPlace.length === 0) {
+    throw new Error('No changes given (use props, propExpressions, style, styleExpressions, text, children, insert, replace or remove)');
+  }
+  if (structural.length > 1 || (structural.length === 1 && inPlace.length > 0)) {
+    throw new Error(`${structural[0]} cannot be combined with other changes (got ${[...structural, ...inPlace].join(', ')})`);
+  }
+  if (changes.text !== undefined && changes.children !== undefined) {
+    throw new Error('Use either text or children, not both');
+  }
+
+  if (changes.replace !== undefined) checkSingleElement(changes.replace, 'replace');
+  if (changes.insert) {
+    if (typeof changes.insert.jsx !== 'string') throw new Error('insert.jsx is required');
+    if (changes.insert.position && !['before', 'after', 'start', 'end'].includes(changes.insert.position)) {
+      throw new Error(`insert.position must be before, after, start or end (got ${changes.insert.position})`);
+    }
+    checkSingleElement(changes.insert.jsx, 'insert');
+  }
+  if (changes.children !== undefined) checkJsx(changes.children, 'children');
+}
+
+/**
+ * Apply changes to the elements matching a target. Throws when the target is ambiguous or the edit does not fit.
+ */
+export function editElements(source: string, target: ElementTarget, changes: ElementChanges): ElementEditResult {
+  validateChanges(changes);
+
+  const ast = parse(source, { sourceType: 'module', plugins: ['typescript', 'jsx'] });
+  const paths = findElements(ast, target);
+  const quote = preferredQuote(ast);
+  const edits: SourceEdit[] = [];
+  const log: string[] = [];
+
+  for (const path of paths) {
+    const name = jsxName(path.node.openingElement.name);
+    const elementLog: string[] = [];
+    edits.push(...elementEdits(source, quote, path, changes, elementLog));
+    log.push(...elementLog.map(change => `<${name}> line ${path.node.loc?.start.line}: ${change}`));
+  }
+
+  // Nested matches (all: true) would splice over each other
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].end > sorted[i - 1].start) {
+      throw new Error('Matched elements overlap (one is inside another) - narrow the target');
+    }
+  }
+
+  let output = source;
+  for (const edit of sorted) {
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+  }
+
+  return {
+    output,
+    matched: paths.map(path => ({ name: jsxName(path.node.openingElement.name), line: path.node.loc?.start.line ?? 1 })),
+    changes: log
+  };
+}
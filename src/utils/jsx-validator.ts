@@ -1,172 +1,176 @@
-// JSX Validation and Sanitization Utility
-// Fixes JSX syntax errors before writing to VideoComposition.tsx files
+// JSX Validation Utility
+// Parses VideoComposition.tsx source with a real TypeScript/JSX parser before it is written.
+// Validation only reports problems - it never rewrites the code it is given.
+import { parse, ParseResult } from '@babel/parser';
+import type { File } from '@babel/types';
+import { lintAst } from '../lint/index.js';
+
+export interface JSXDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;   // 1-based
+  column: number; // 1-based
+  code?: string;
+  codeFrame: string;
+}
 
 export interface JSXValidationResult {
   isValid: boolean;
   sanitizedJSX: string;
   originalJSX: string;
   issues: string[];
+  diagnostics: JSXDiagnostic[];
   wasModified: boolean;
 }
 
+interface BabelParseError {
+  message: string;
+  loc?: { line: number; column: number };
+  reasonCode?: string;
+}
+
 export class JSXValidator {
   /**
-   * Validates and sanitizes JSX content for safe file writing
+   * Lines of context shown above and below an error in code frames
+   */
+  private static readonly FRAME_CONTEXT = 2;
+
+  /**
+   * Parse the source as a TSX module and report syntax errors with positions.
+   * The returned sanitizedJSX is always the unchanged input.
    */
   static validateAndSanitize(jsxContent: string): JSXValidationResult {
-    const issues: string[] = [];
-    let sanitizedJSX = jsxContent;
-    const originalJSX = jsxContent;
-    let wasModified = false;
+    const diagnostics: JSXDiagnostic[] = [];
+    let ast: ParseResult<File> | null = null;
 
     try {
-      // 1. Fix backslash escaping in JSX (PRIMARY FIX for the reported issue)
-      // The issue is backslashes in JSX text content, not string literals
-      
-      // First, handle backslashes in quoted string literals
-      sanitizedJSX = sanitizedJSX.replace(/(['"])((?:\\.|[^\\])*?)\1/g, (match, quote, content) => {
-        if (content.includes('\\')) {
-          let fixedContent = content.replace(/\\(?!\\)/g, '\\\\');
-          if (fixedContent !== content) {
-            issues.push(`Fixed unescaped backslashes in quoted string: ${quote}${content}${quote}`);
-            wasModified = true;
-          }
-          return quote + fixedContent + quote;
-        }
-        return match;
-      });
-      
-      // Second, handle backslashes in JSX text content (the main issue)
-      // Find JSX elements and fix backslashes in their text content
-      sanitizedJSX = sanitizedJSX.replace(/>([^<]+)</g, (match, textContent) => {
-        if (textContent.includes('\\') && !textContent.includes('\\\\')) {
-          // Only fix if it contains single backslashes (not already escaped)
-          let fixedText = textContent.replace(/\\(?!\\)/g, '\\\\');
-          if (fixedText !== textContent) {
-            issues.push(`Fixed unescaped backslashes in JSX text: "${textContent.trim()}"`);
-            wasModified = true;
-          }
-          return '>' + fixedText + '<';
-        }
-        return match;
+      ast = parse(jsxContent, {
+        sourceType: 'module',
+        plugins: ['typescript', 'jsx'],
+        errorRecovery: true
       });
-
-      // 2. Fix common JSX string issues
-      // Escape unescaped quotes within strings
-      sanitizedJSX = sanitizedJSX.replace(/(['"])([^'"]*?)(?<!\\)\1([^'"`]*?)\1/g, (match, quote, content, after) => {
-        if (content.includes(quote)) {
-          const escaped = content.replace(new RegExp(quote, 'g'), `\\${quote}`);
-          issues.push(`Escaped quotes in string: ${quote}${content}${quote}`);
-          wasModified = true;
-          return `${quote}${escaped}${after}${quote}`;
-        }
-        return match;
-      });
-
-      // 3. Basic JSX syntax validation
-      const basicValidation = this.performBasicJSXValidation(sanitizedJSX);
-      if (!basicValidation.isValid) {
-        issues.push(...basicValidation.errors);
+      for (const error of (ast.errors || []) as unknown as BabelParseError[]) {
+        diagnostics.push(this.toDiagnostic(jsxContent, error, 'error'));
       }
-
-      return {
-        isValid: basicValidation.isValid,
-        sanitizedJSX,
-        originalJSX,
-        issues,
-        wasModified
-      };
-
     } catch (error) {
-      issues.push(`Validation error: ${error instanceof Error ? error.message : String(error)}`);
-      return {
-        isValid: false,
-        sanitizedJSX: originalJSX, // Return original on validation failure
-        originalJSX,
-        issues,
-        wasModified: false
-      };
+      // Unrecoverable syntax error - Babel throws with a location
+      diagnostics.push(this.toDiagnostic(jsxContent, error as BabelParseError, 'error'));
     }
+
+    if (ast && diagnostics.length === 0) {
+      diagnostics.push(...this.checkStructure(jsxContent, ast));
+      diagnostics.push(...this.checkRemotionRules(jsxContent, ast));
+    }
+
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+
+    return {
+      isValid: errors.length === 0,
+      sanitizedJSX: jsxContent,
+      originalJSX: jsxContent,
+      issues: diagnostics.map(diagnostic => this.formatDiagnostic(diagnostic, false)),
+      diagnostics,
+      wasModified: false
+    };
   }
 
   /**
-   * Performs basic JSX syntax validation
+   * Checks that need a parsed file: the composition must export a component
    */
-  private static performBasicJSXValidation(jsx: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  private static checkStructure(source: string, ast: ParseResult<File>): JSXDiagnostic[] {
+    const diagnostics: JSXDiagnostic[] = [];
+    const hasDefaultExport = ast.program.body.some(node => node.type === 'ExportDefaultDeclaration');
+    const hasNamedExport = ast.program.body.some(node => node.type === 'ExportNamedDeclaration');
+
+    if (!hasDefaultExport && !hasNamedExport) {
+      diagnostics.push({
+        severity: 'warning',
+        message: 'No export found - Root.tsx imports the default export of VideoComposition.tsx',
+        line: 1,
+        column: 1,
+        code: 'MissingExport',
+        codeFrame: this.buildCodeFrame(source, 1, 1)
+      });
+    }
 
-    try {
-      // Check for basic JSX structure
-      if (!jsx.includes('<') || !jsx.includes('>')) {
-        errors.push('No JSX elements found');
-      }
+    return diagnostics;
+  }
 
-      // Check for unmatched brackets
-      const openBrackets = (jsx.match(/</g) || []).length;
-      const closeBrackets = (jsx.match(/>/g) || []).length;
-      if (openBrackets !== closeBrackets) {
-        errors.push(`Unmatched brackets: ${openBrackets} opening, ${closeBrackets} closing`);
-      }
+  /**
+   * Remotion lint rules - code that parses but crashes or flickers at render time
+   */
+  private static checkRemotionRules(source: string, ast: ParseResult<File>): JSXDiagnostic[] {
+    return lintAst(ast, source).map(finding => ({
+      severity: finding.severity,
+      message: `${finding.message} (${finding.ruleId})`,
+      line: finding.line,
+      column: finding.column,
+      code: finding.ruleId,
+      codeFrame: this.buildCodeFrame(source, finding.line, finding.column)
+    }));
+  }
 
-      // Check for obvious syntax errors that would cause build failures
-      if (jsx.includes('<>') && !jsx.includes('</>')) {
-        errors.push('Fragment opening tag without closing tag');
-      }
+  private static toDiagnostic(source: string, error: BabelParseError, severity: 'error' | 'warning'): JSXDiagnostic {
+    const line = error.loc?.line ?? 1;
+    const column = (error.loc?.column ?? 0) + 1;
+
+    return {
+      severity,
+      // Babel appends "(line:column)" to its messages - we report position separately
+      message: String(error.message || error).replace(/\s*\(\d+:\d+\)$/, ''),
+      line,
+      column,
+      code: error.reasonCode,
+      codeFrame: this.buildCodeFrame(source, line, column)
+    };
+  }
 
-      // Check for problematic characters in JSX attribute values
-      const attributeRegex = /(\w+)=\{([^}]*)\}/g;
-      let match;
-      while ((match = attributeRegex.exec(jsx)) !== null) {
-        const attributeValue = match[2];
-        if (attributeValue.includes('\\') && !attributeValue.includes('\\\\')) {
-          errors.push(`Potential unescaped backslash in attribute: ${match[0]}`);
-        }
+  /**
+   * Code frame with line numbers and a caret under the error column
+   */
+  static buildCodeFrame(source: string, line: number, column: number): string {
+    const lines = source.split(/\r?\n/);
+    const first = Math.max(1, line - this.FRAME_CONTEXT);
+    const last = Math.min(lines.length, line + this.FRAME_CONTEXT);
+    const width = String(last).length;
+    const frame: string[] = [];
+
+    for (let current = first; current <= last; current++) {
+      const marker = current === line ? '>' : ' ';
+      frame.push(`${marker} ${String(current).padStart(width)} | ${lines[current - 1]}`);
+      if (current === line) {
+        frame.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(0, column - 1))}^`);
       }
-
-      return {
-        isValid: errors.length === 0,
-        errors
-      };
-
-    } catch (error) {
-      errors.push(`Basic validation failed: ${error instanceof Error ? error.message : String(error)}`);
-      return { isValid: false, errors };
     }
+
+    return frame.join('\n');
   }
 
   /**
-   * Creates a backup of original JSX before modification
+   * One diagnostic as "Error at line 12:5 - message", optionally followed by its code frame
    */
-  static createBackup(jsx: string, projectName: string): string {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupComment = `/*
-BACKUP: Original JSX before MCP validation/sanitization
-Project: ${projectName}
-Timestamp: ${timestamp}
-Issues found and fixed by MCP JSX validator
-*/
-
-`;
-    return backupComment + jsx;
+  static formatDiagnostic(diagnostic: JSXDiagnostic, withFrame: boolean = true): string {
+    const label = diagnostic.severity === 'error' ? 'Error' : 'Warning';
+    const header = `${label} at line ${diagnostic.line}:${diagnostic.column} - ${diagnostic.message}`;
+    return withFrame ? `${header}\n${diagnostic.codeFrame}` : header;
   }
 
   /**
-   * Formats validation result for logging/debugging
+   * Formats validation result for tool output
    */
   static formatValidationReport(result: JSXValidationResult): string {
+    const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    const warnings = result.diagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+
     let report = `JSX Validation Report:\n`;
     report += `- Valid: ${result.isValid}\n`;
-    report += `- Modified: ${result.wasModified}\n`;
-    report += `- Issues Found: ${result.issues.length}\n`;
-    
-    if (result.issues.length > 0) {
-      report += `\nIssues:\n${result.issues.map(issue => `  • ${issue}`).join('\n')}\n`;
-    }
-    
-    if (result.wasModified) {
-      report += `\n✅ JSX was automatically sanitized and should now compile correctly.\n`;
+    report += `- Errors: ${errors.length}\n`;
+    report += `- Warnings: ${warnings.length}\n`;
+
+    if (result.diagnostics.length > 0) {
+      report += `\n${result.diagnostics.map(diagnostic => this.formatDiagnostic(diagnostic)).join('\n\n')}\n`;
     }
-    
+
     return report;
   }
 }
@@ -174,4 +178,4 @@ Issues found and fixed by MCP JSX validator
 // Export convenience function for direct use
 export function validateJSX(jsx: string): JSXValidationResult {
   return JSXValidator.validateAndSanitize(jsx);
-}
\ No newline at end of file
+}
@@ -0,0 +1,228 @@
+// Patch Application - Unified diffs and search/replace blocks for small edits to a single file
+// All-or-nothing: every hunk or block must match or the original text is returned untouched by the caller
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+
+  /**
+   * Replace every occurrence instead of requiring exactly one
+   */
+  all?: boolean;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number; // 1-based, as written in the header
+  lines: Array<{ type: ' ' | '-' | '+'; text: string }>;
+}
+
+// Long lines are cut in error messages
+const PREVIEW_LENGTH = 80;
+
+function preview(line: string | undefined): string {
+  if (line === undefined) return 'end of file';
+  const text = line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH)}...` : line;
+  return `"${text}"`;
+}
+
+function sameLine(a: string, b: string): boolean {
+  // Trailing whitespace is often lost when patches are copied around
+  return a.trimEnd() === b.trimEnd();
+}
+
+function parseUnifiedDiff(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let files = 0;
+  let current: Hunk | null = null;
+
+  const patchLines = patch.replace(/\r\n/g, '\n').split('\n');
+  for (let index = 0; index < patchLines.length; index++) {
+    const line = patchLines[index];
+    if (line.startsWith('--- ') && patchLines[index + 1]?.startsWith('+++ ')) {
+      files++;
+      if (files > 1) {
+        throw new Error('The patch changes more than one file - send one patch per file');
+      }
+      current = null;
+      index++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = { header: header[0], oldStart: parseInt(header[1], 10), lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue; // "diff --git", "index ..." and other preamble lines
+
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    const type = line[0];
+    if (type === ' ' || type === '-' || type === '+') {
+      current.lines.push({ type, text: line.slice(1) });
+    } else if (line === '') {
+      // Blank context lines often lose their leading space
+      current.lines.push({ type: ' ', text: '' });
+    } else {
+      throw new Error(`Invalid line in ${current.header}: ${preview(line)} (every line must start with ' ', '-' or '+')`);
+    }
+  }
+
+  // A trailing newline in the patch produces one blank "context" line too many
+  for (const hunk of hunks) {
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1].type === ' ' && hunk.lines[hunk.lines.length - 1].text === '') {
+      hunk.lines.pop();
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('The patch has no hunks (expected "@@ -line,count +line,count @@" headers)');
+  }
+  return hunks;
+}
+
+function matchesAt(lines: string[], expected: string[], start: number): boolean {
+  if (start < 0 || start + expected.length > lines.length) return false;
+  return expected.every((line, offset) => sameLine(lines[start + offset], line));
+}
+
+/**
+ * Explain why a hunk does not apply: the closest position and the first line that differs
+ */
+function explainMismatch(lines: string[], expected: string[], hunk: Hunk, index: number, searchFrom: number): string {
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let start = searchFrom; start < lines.length; start++) {
+    let length = 0;
+    while (length < expected.length && start + length < lines.length && sameLine(lines[start + length], expected[length])) length++;
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const label = `Hunk ${index + 1} (${hunk.header})`;
+  if (bestStart < 0) {
+    return `${label} does not match: its first line ${preview(expected[0])} was not found ${searchFrom > 0 ? `after line ${searchFrom}` : 'in the file'}`;
+  }
+  return `${label} does not match: closest position is line ${bestStart + 1}, but line ${bestStart + bestLength + 1} is ` +
+    `${preview(lines[bestStart + bestLength])} where the patch expects ${preview(expected[bestLength])}`;
+}
+
+/**
+ * Apply a unified diff for one file. Line numbers in hunk headers are hints - hunks are matched by content.
+ */
+export function applyUnifiedDiff(source: string, patch: string): string {
+  const hunks = parseUnifiedDiff(patch);
+  const newline = source.includes('\r\n') ? '\r\n' : '\n';
+  const endsWithNewline = source === '' || source.endsWith('\n');
+  const lines = source === '' ? [] : source.replace(/\r\n/g, '\n').split('\n');
+  if (source.endsWith('\n')) lines.pop();
+
+  const output: string[] = [];
+  let position = 0; // next unconsumed source line
+
+  hunks.forEach((hunk, index) => {
+    const expected = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+    const replacement = hunk.lines.filter(line => line.type !== '-').map(line => line.text);
+
+    // Prefer the header position, then the nearest match after the previous hunk
+    const hinted = Math.max(position, hunk.oldStart - (expected.length === 0 ? 0 : 1));
+    let start = -1;
+    if (matchesAt(lines, expected, hinted)) {
+      start = hinted;
+    } else {
+      for (let distance = 1; start < 0 && (hinted - distance >= position || hinted + distance <= lines.length); distance++) {
+        if (hinted - distance >= position && matchesAt(lines, expected, hinted - distance)) start = hinted - distance;
+        else if (matchesAt(lines, expected, hinted + distance)) start = hinted + distance;
+      }
+    }
+    if (start < 0) {
+      throw new Error(explainMismatch(lines, expected, hunk, index, position));
+    }
+
+    output.push(...lines.slice(position, start), ...replacement);
+    position = start + expected.length;
+  });
+
+  output.push(...lines.slice(position));
+  const text = output.join(newline);
+  return endsWithNewline && text !== '' ? `${text}${newline}` : text;
+}
+
+function lineOf(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+function occurrences(text: string, search: string): number[] {
+  const found: number[] = [];
+  for (let index = text.indexOf(search); index >= 0; index = text.indexOf(search, index + search.length)) {
+    found.push(index);
+  }
+  return found;
+}
+
+/**
+ * Apply search/replace blocks in order; each search must be found exactly once unless `all` is set
+ */
+export function applySearchReplace(source: string, blocks: SearchReplaceBlock[]): string {
+  if (!Array.isArray(blocks) || blocks.length === 0) {
+    throw new Error('edits must be a non-empty list of { search, replace } blocks');
+  }
+
+  // Blocks are written with \n; match files saved with Windows line endings too
+  const toSource = (value: string) => source.includes('\r\n') ? value.replace(/\r?\n/g, '\r\n') : value;
+
+  let text = source;
+  blocks.forEach((block, index) => {
+    const label = `Edit ${index + 1}`;
+    if (typeof block?.search !== 'string' || block.search === '') {
+      throw new Error(`${label}: search must be non-empty text`);
+    }
+    if (typeof block.replace !== 'string') {
+      throw new Error(`${label}: replace must be text (use "" to delete)`);
+    }
+
+    const search = toSource(block.search);
+    const found = occurrences(text, search);
+    if (found.length === 0) {
+      throw new Error(`${label}: search text not found. ${explainMissing(text.replace(/\r\n/g, '\n'), block.search)}`);
+    }
+    if (found.length > 1 && !block.all) {
+      throw new Error(`${label}: search text found ${found.length} times (lines ${[...new Set(found.map(offset => lineOf(text, offset)))].join(', ')}) - include more surrounding code or set all`);
+    }
+
+    for (const offset of [...found].reverse()) {
+      text = text.slice(0, offset) + toSource(block.replace) + text.slice(offset + search.length);
+    }
+  });
+
+  return text;
+}
+
+/**
+ * Point at the closest near-match for a search text that was not found
+ */
+function explainMissing(text: string, search: string): string {
+  const lines = text.split('\n');
+  const searchLines = search.split('\n');
+  const first = searchLines.find(line => line.trim() !== '')?.trim() || '';
+  const candidates = lines.map((line, index) => ({ line, index })).filter(({ line }) => line.trim() === first);
+
+  if (candidates.length === 0) {
+    return `No line matches its first line ${preview(first)}${search.includes('\t') || /\s$/m.test(search) ? ' (check tabs and trailing spaces)' : ''}`;
+  }
+
+  const offset = searchLines.findIndex(line => line.trim() !== '');
+  for (const { index } of candidates) {
+    for (let i = offset + 1; i < searchLines.length; i++) {
+      const actual = lines[index - offset + i];
+      if (actual !== searchLines[i]) {
+        const hint = actual !== undefined && actual.trim() === searchLines[i].trim() ? ' (indentation differs)' : '';
+        return `Its first line is at line ${index + 1}, but line ${index - offset + i + 1} is ${preview(actual)} where the search has ${preview(searchLines[i])}${hint}`;
+      }
+    }
+  }
+  return `Its lines appear at line ${candidates[0].index + 1} with different indentation or spacing`;
+}
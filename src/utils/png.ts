@@ -0,0 +1,180 @@
+// Minimal PNG Codec - Enough to tile Remotion stills into a contact sheet
+// Remotion's bundled ffmpeg ships without the tile filter, so stills are composed here
+import * as zlib from 'zlib';
+
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Buffer; // width * height * 4 bytes, RGBA
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced RGB or RGBA PNG (what Chrome screenshots produce)
+ */
+export function decodePng(buffer: Buffer): RGBAImage {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9];
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || (colorType !== 2 && colorType !== 6) || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = colorType === 6 ? 4 : 3;
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    const prev = out - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[prev + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[prev + x - channels] : 0;
+      let value = line[x];
+      switch (filter) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += (left + up) >> 1; break;
+        case 4: value += paeth(left, up, upLeft); break;
+      }
+      pixels[out + x] = value & 0xff;
+    }
+  }
+
+  if (channels === 4) {
+    return { width, height, data: pixels };
+  }
+
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let i = 0, j = 0; i < pixels.length; i += 3, j += 4) {
+    rgba[j] = pixels[i];
+    rgba[j + 1] = pixels[i + 1];
+    rgba[j + 2] = pixels[i + 2];
+    rgba[j + 3] = 255;
+  }
+  return { width, height, data: rgba };
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode an RGBA image as PNG (no filtering - size is not critical here)
+ */
+export function encodePng(image: RGBAImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Tile same-sized images into a grid, row by row, with a gap between cells
+ */
+export function tileImages(images: RGBAImage[], columns: number, gap: number = 8): RGBAImage {
+  if (images.length === 0) {
+    throw new Error('No images to tile');
+  }
+
+  const cellWidth = Math.max(...images.map(image => image.width));
+  const cellHeight = Math.max(...images.map(image => image.height));
+  const rows = Math.ceil(images.length / columns);
+  const width = columns * cellWidth + (columns + 1) * gap;
+  const height = rows * cellHeight + (rows + 1) * gap;
+
+  // Opaque black background
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = 255;
+  }
+
+  images.forEach((image, index) => {
+    const left = gap + (index % columns) * (cellWidth + gap);
+    const top = gap + Math.floor(index / columns) * (cellHeight + gap);
+    for (let y = 0; y < image.height; y++) {
+      image.data.copy(data, ((top + y) * width + left) * 4, y * image.width * 4, (y + 1) * image.width * 4);
+    }
+  });
+
+  return { width, height, data };
+}
@@ -0,0 +1,66 @@
+// Project Name Validation - Keeps every project tool inside the projects directory
+// Rejects traversal ("../.."), absolute paths, reserved Windows names and odd characters
+import * as path from 'path';
+
+export const MAX_PROJECT_NAME_LENGTH = 64;
+
+export const PROJECT_NAME_RULES = `letters, digits, '-', '_' and '.'; 1-${MAX_PROJECT_NAME_LENGTH} characters; must start with a letter or digit`;
+
+export type ProjectNameErrorCode =
+  | 'MISSING'
+  | 'TOO_LONG'
+  | 'INVALID_CHARACTERS'
+  | 'PATH_TRAVERSAL'
+  | 'RESERVED_NAME'
+  | 'OUTSIDE_ROOT';
+
+// Device names Windows refuses as file names, with or without an extension
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+export class ProjectNameError extends Error {
+  constructor(
+    public readonly projectName: string,
+    public readonly code: ProjectNameErrorCode,
+    public readonly reason: string
+  ) {
+    super(`Invalid project name '${projectName}': ${reason}`);
+    this.name = 'ProjectNameError';
+  }
+}
+
+/**
+ * Validate a user-supplied project name and resolve its directory.
+ * Throws ProjectNameError describing the first rule that was broken.
+ */
+export function resolveProjectDir(projectsDir: string, projectName: unknown): string {
+  if (typeof projectName !== 'string' || projectName.length === 0) {
+    throw new ProjectNameError(String(projectName ?? ''), 'MISSING', 'a project name is required');
+  }
+
+  const name = projectName;
+
+  if (name.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new ProjectNameError(name, 'TOO_LONG', `must be at most ${MAX_PROJECT_NAME_LENGTH} characters (got ${name.length})`);
+  }
+  if (name.includes('..') || /[\\/]/.test(name) || path.isAbsolute(name) || /^[a-zA-Z]:/.test(name)) {
+    throw new ProjectNameError(name, 'PATH_TRAVERSAL', 'must be a single directory name, not a path');
+  }
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+    throw new ProjectNameError(name, 'INVALID_CHARACTERS', `may only contain ${PROJECT_NAME_RULES}`);
+  }
+  if (name.endsWith('.')) {
+    throw new ProjectNameError(name, 'INVALID_CHARACTERS', 'must not end with a dot (Windows strips it)');
+  }
+  if (WINDOWS_RESERVED_NAMES.test(name)) {
+    throw new ProjectNameError(name, 'RESERVED_NAME', `'${name.split('.')[0].toUpperCase()}' is a reserved device name on Windows`);
+  }
+
+  const root = path.resolve(projectsDir);
+  const projectPath = path.resolve(root, name);
+  const relative = path.relative(root, projectPath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new ProjectNameError(name, 'OUTSIDE_ROOT', `resolves outside the projects directory (${root})`);
+  }
+
+  return projectPath;
+}
@@ -0,0 +1,41 @@
+// Ring Buffer - Fixed-size buffer keeping the newest entries, for process output that never stops
+
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+  private dropped = 0;
+
+  constructor(private capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('Ring buffer capacity must be a positive integer');
+    }
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    this.dropped++;
+  }
+
+  /**
+   * Entries oldest first
+   */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Entries overwritten since the buffer filled up
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+}
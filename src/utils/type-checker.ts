@@ -0,0 +1,144 @@
+// Project Type Checking - Runs the TypeScript compiler in memory against a project's own
+// tsconfig.json and installed remotion/react typings before new code is written to disk
+import { createRequire } from 'module';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type * as TS from 'typescript';
+
+export type TypeCheckMode = 'off' | 'warn' | 'block';
+
+export const TYPE_CHECK_MODES: TypeCheckMode[] = ['off', 'warn', 'block'];
+
+export interface TypeDiagnostic {
+  file: string;   // relative to the project
+  line: number;   // 1-based
+  column: number; // 1-based
+  code: number;
+  message: string;
+}
+
+export interface TypeCheckResult {
+  ran: boolean;
+  skippedReason?: string;
+  diagnostics: TypeDiagnostic[]; // errors the new content introduces
+  existing: TypeDiagnostic[];    // errors the project already had before the change
+}
+
+/**
+ * Load the TypeScript compiler the project installed, falling back to the server's own copy
+ */
+function loadTypeScript(projectPath: string): typeof TS | null {
+  for (const base of [path.join(projectPath, 'package.json'), __filename]) {
+    try {
+      return createRequire(base)('typescript');
+    } catch {
+      // Try the next location
+    }
+  }
+  return null;
+}
+
+/**
+ * Errors of a program in the project's own sources, not in node_modules typings
+ */
+function collectDiagnostics(ts: typeof TS, program: TS.Program, projectPath: string): TypeDiagnostic[] {
+  const diagnostics: TypeDiagnostic[] = [];
+  for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+    if (diagnostic.category !== ts.DiagnosticCategory.Error) continue;
+
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      diagnostics.push({ file: 'tsconfig.json', line: 1, column: 1, code: diagnostic.code, message });
+      continue;
+    }
+
+    const file = path.relative(projectPath, diagnostic.file.fileName);
+    if (file.startsWith('node_modules') || file.startsWith('..')) continue;
+
+    const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    diagnostics.push({
+      file: file.split(path.sep).join('/'),
+      line: position.line + 1,
+      column: position.character + 1,
+      code: diagnostic.code,
+      message
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Type-check the project as if `relativeFile` contained `content`.
+ * Nothing is written - the file is swapped in through the compiler host.
+ * The unchanged project is checked too, so errors it already had are reported apart from new ones
+ * (positions move with the edit, so errors are matched by file, code and message).
+ */
+export async function typeCheckProjectFile(projectPath: string, relativeFile: string, content: string): Promise<TypeCheckResult> {
+  if (!await fs.pathExists(path.join(projectPath, 'node_modules', 'remotion'))) {
+    return { ran: false, skippedReason: 'Project dependencies are not installed - run install-dependencies first', diagnostics: [], existing: [] };
+  }
+
+  const ts = loadTypeScript(projectPath);
+  if (!ts) {
+    return { ran: false, skippedReason: 'TypeScript is not installed in the project', diagnostics: [], existing: [] };
+  }
+
+  const configPath = path.join(projectPath, 'tsconfig.json');
+  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (configFile.error) {
+    return { ran: false, skippedReason: `Could not read tsconfig.json: ${ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')}`, diagnostics: [], existing: [] };
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, projectPath);
+  const options: TS.CompilerOptions = { ...parsed.options, noEmit: true };
+  const targetFile = path.resolve(projectPath, relativeFile);
+  const isTarget = (fileName: string) => path.resolve(fileName) === targetFile;
+
+  // The project as it is on disk
+  const baseline = ts.createProgram({ rootNames: parsed.fileNames, options, host: ts.createCompilerHost(options, true) });
+  const before = collectDiagnostics(ts, baseline, projectPath);
+
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile.bind(host);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) =>
+    isTarget(fileName)
+      ? ts.createSourceFile(fileName, content, languageVersion, true)
+      : getSourceFile(fileName, languageVersion, onError, shouldCreate);
+  host.readFile = fileName => (isTarget(fileName) ? content : readFile(fileName));
+  host.fileExists = fileName => isTarget(fileName) || fileExists(fileName);
+
+  const rootNames = parsed.fileNames.some(isTarget) ? parsed.fileNames : [...parsed.fileNames, targetFile];
+  const program = ts.createProgram({ rootNames, options, host, oldProgram: baseline });
+
+  const key = (diagnostic: TypeDiagnostic) => `${diagnostic.file}|${diagnostic.code}|${diagnostic.message}`;
+  const unmatched = new Map<string, number>();
+  for (const diagnostic of before) {
+    unmatched.set(key(diagnostic), (unmatched.get(key(diagnostic)) || 0) + 1);
+  }
+
+  const diagnostics: TypeDiagnostic[] = [];
+  const existing: TypeDiagnostic[] = [];
+  for (const diagnostic of collectDiagnostics(ts, program, projectPath)) {
+    const remaining = unmatched.get(key(diagnostic)) || 0;
+    if (remaining > 0) {
+      unmatched.set(key(diagnostic), remaining - 1);
+      existing.push(diagnostic);
+    } else {
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  return { ran: true, diagnostics, existing };
+}
+
+/**
+ * Diagnostics as "src/VideoComposition.tsx:12:5 - TS2345: message" lines
+ */
+export function formatTypeDiagnostics(diagnostics: TypeDiagnostic[]): string {
+  return diagnostics
+    .map(diagnostic => `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - TS${diagnostic.code}: ${diagnostic.message}`)
+    .join('\n');
+}
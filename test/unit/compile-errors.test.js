@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for studio log filtering and compile error parsing
+ * Covers webpack and esbuild error formats and the "latest build only" rule
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const compileErrorsModule = path.join(__dirname, '..', '..', 'build', 'utils', 'compile-errors.js');
+const supervisorModule = path.join(__dirname, '..', '..', 'build', 'studio-supervisor.js');
+
+console.log('🧪 Compile Error Unit Tests\n');
+
+if (!fs.existsSync(compileErrorsModule)) {
+  console.log('❌ Compile error parser not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { parseCompileErrors, formatCompileError } = require(compileErrorsModule);
+const { classifyStudioLogLine, filterStudioLogs } = require(supervisorModule);
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+test('parses webpack module errors', () => {
+  const errors = parseCompileErrors([
+    'ERROR in ./src/VideoComposition.tsx 3:0-32',
+    "Module not found: Error: Can't resolve './Missing' in '/projects/demo/src'",
+    '@ ./src/Root.tsx 4:0-52'
+  ]);
+  assert.deepStrictEqual(errors, [{
+    file: 'src/VideoComposition.tsx',
+    line: 3,
+    column: 0,
+    message: "Module not found: Error: Can't resolve './Missing' in '/projects/demo/src'"
+  }]);
+});
+
+test('parses esbuild errors inside webpack blocks, relative to the project', () => {
+  const errors = parseCompileErrors([
+    'ERROR in ./src/VideoComposition.tsx',
+    'Module build failed (from ./node_modules/esbuild-loader/dist/index.cjs):',
+    'Error: Transform failed with 1 error:',
+    '/projects/demo/src/VideoComposition.tsx:12:4: ERROR: Expected ")" but found "}"'
+  ], '/projects/demo');
+  assert.deepStrictEqual(errors, [{ file: 'src/VideoComposition.tsx', line: 12, column: 4, message: 'Expected ")" but found "}"' }]);
+  assert.strictEqual(formatCompileError(errors[0]), 'src/VideoComposition.tsx:12:4 - Expected ")" but found "}"');
+});
+
+test('parses pretty esbuild errors', () => {
+  const errors = parseCompileErrors([
+    '✘ [ERROR] Unexpected "<"',
+    '    src/Scene.tsx:7:2:',
+    '      7 │   <div>'
+  ]);
+  assert.deepStrictEqual(errors, [{ file: 'src/Scene.tsx', line: 7, column: 2, message: 'Unexpected "<"' }]);
+});
+
+test('ignores errors fixed by a later successful build', () => {
+  const lines = [
+    'ERROR in ./src/VideoComposition.tsx 3:0-32',
+    "Module not found: Error: Can't resolve './Missing'",
+    'Built in 812ms'
+  ];
+  assert.deepStrictEqual(parseCompileErrors(lines), []);
+  assert.strictEqual(parseCompileErrors([...lines, '/p/src/A.tsx:1:1: ERROR: Unexpected end of file']).length, 1);
+});
+
+test('classifies and filters studio log lines', () => {
+  assert.strictEqual(classifyStudioLogLine('ERROR in ./src/VideoComposition.tsx'), 'error');
+  assert.strictEqual(classifyStudioLogLine('Warning: React version mismatch'), 'warn');
+  assert.strictEqual(classifyStudioLogLine('Server ready - Local: http://localhost:6600'), 'info');
+
+  const lines = [
+    { time: '2024-05-01T10:00:00.000Z', stream: 'stdout', level: 'info', text: 'Building...' },
+    { time: '2024-05-01T10:00:05.000Z', stream: 'stderr', level: 'warn', text: 'Warning: slow' },
+    { time: '2024-05-01T10:00:10.000Z', stream: 'stderr', level: 'error', text: 'ERROR in ./src/A.tsx' }
+  ];
+  assert.deepStrictEqual(filterStudioLogs(lines, { level: 'warn' }).map(line => line.level), ['warn', 'error']);
+  assert.deepStrictEqual(filterStudioLogs(lines, { since: '2024-05-01T10:00:05.000Z' }).map(line => line.text), ['Warning: slow', 'ERROR in ./src/A.tsx']);
+  assert.deepStrictEqual(filterStudioLogs(lines, { tail: 1 }).map(line => line.text), ['ERROR in ./src/A.tsx']);
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the add-composition, rename-composition and remove-composition tools
+ * Covers id clashes, the last-composition guard and that a failed Root.tsx write leaves the project as it was
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const toolsModule = path.join(__dirname, '..', '..', 'build', 'tools.js');
+const compositionsModule = path.join(__dirname, '..', '..', 'build', 'compositions.js');
+
+console.log('🧪 Composition Tools Unit Tests\n');
+
+if (!fs.existsSync(toolsModule) || !fs.existsSync(compositionsModule)) {
+  console.log('❌ Composition tools not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the assets and projects roots must be set before loading the modules
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-composition-tools-'));
+const projectsDir = path.join(root, 'projects');
+process.env.REMOTION_ASSETS_DIR = root;
+process.env.ROUGHCUT_PROJECTS_DIR = projectsDir;
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+
+const { handleToolCall } = require(toolsModule);
+const { generateRootTsx } = require(compositionsModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const MAIN = { id: 'Main', component: 'VideoComposition', durationInFrames: 300, fps: 30, width: 1920, height: 1080 };
+const VERTICAL = { id: 'Vertical', component: 'VerticalComposition', durationInFrames: 90, fps: 30, width: 1080, height: 1920 };
+
+function writeFile(projectPath, file, content) {
+  fs.mkdirSync(path.dirname(path.join(projectPath, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectPath, file), content);
+}
+
+function createProject(name, compositions) {
+  const projectPath = path.join(projectsDir, name);
+  const manifest = { version: 1, compositions };
+  writeFile(projectPath, 'rough-cut.project.json', `${JSON.stringify(manifest, null, 2)}\n`);
+  writeFile(projectPath, 'src/Root.tsx', generateRootTsx(manifest));
+  for (const composition of compositions) {
+    writeFile(projectPath, `src/${composition.component}.tsx`, `export default function ${composition.component}() {\n  return null;\n}\n`);
+  }
+  return projectPath;
+}
+
+const read = (projectPath, file) => fs.readFileSync(path.join(projectPath, file), 'utf-8');
+const text = result => result.content[0].text;
+
+(async () => {
+  console.log('📋 add-composition');
+  await test('adds a composition with its own component and Root.tsx entry', async () => {
+    const projectPath = createProject('added', [MAIN]);
+    const result = await handleToolCall('add-composition', { project: 'added', id: 'square', width: 1080, height: 1080 });
+    assert.match(text(result), /^✅ Added composition to added\nsquare: 1080x1080 @ 30fps, 300 frames \(10\.00s\) - src\/SquareComposition\.tsx\nComponent copied from Main/);
+    assert.strictEqual(read(projectPath, 'src/SquareComposition.tsx'), read(projectPath, 'src/VideoComposition.tsx'));
+    assert.deepStrictEqual(JSON.parse(read(projectPath, 'rough-cut.project.json')).compositions.map(composition => composition.id), ['Main', 'square']);
+    assert.match(read(projectPath, 'src/Root.tsx'), /id="square"/);
+  });
+
+  await test('rejects an id that is already taken', async () => {
+    const projectPath = createProject('duplicate', [MAIN]);
+    const manifest = read(projectPath, 'rough-cut.project.json');
+    const result = await handleToolCall('add-composition', { project: 'duplicate', id: 'Main', width: 1080, height: 1920 });
+    assert.strictEqual(text(result), "❌ Failed to add composition: Composition 'Main' already exists");
+    assert.strictEqual(read(projectPath, 'rough-cut.project.json'), manifest);
+    assert.deepStrictEqual(fs.readdirSync(path.join(projectPath, 'src')).sort(), ['Root.tsx', 'VideoComposition.tsx']);
+  });
+
+  await test('rolls every file back when the Root.tsx write fails', async () => {
+    const projectPath = createProject('rollback', [MAIN]);
+    const manifest = read(projectPath, 'rough-cut.project.json');
+    // A directory in place of Root.tsx makes the final rename of the transaction fail
+    fs.rmSync(path.join(projectPath, 'src', 'Root.tsx'));
+    fs.mkdirSync(path.join(projectPath, 'src', 'Root.tsx'));
+
+    const result = await handleToolCall('add-composition', { project: 'rollback', id: 'Vertical', jsx: 'export default () => null;\n' });
+    assert.match(text(result), /^❌ Failed to add composition: .*Root\.tsx/);
+    assert.strictEqual(fs.existsSync(path.join(projectPath, 'src', 'VerticalComposition.tsx')), false);
+    assert.strictEqual(read(projectPath, 'rough-cut.project.json'), manifest);
+    assert.ok(fs.statSync(path.join(projectPath, 'src', 'Root.tsx')).isDirectory());
+    assert.strictEqual(fs.existsSync(path.join(projectPath, '.roughcut', 'staging')), false);
+  });
+
+  console.log('\n📋 rename-composition');
+  await test('renames the composition and keeps its component', async () => {
+    const projectPath = createProject('renamed', [MAIN, VERTICAL]);
+    const result = await handleToolCall('rename-composition', { project: 'renamed', compositionId: 'Vertical', newId: 'Story' });
+    assert.match(text(result), /^✅ Renamed composition Vertical → Story in renamed\nComponent file unchanged: src\/VerticalComposition\.tsx/);
+    assert.deepStrictEqual(JSON.parse(read(projectPath, 'rough-cut.project.json')).compositions.map(composition => [composition.id, composition.component]), [
+      ['Main', 'VideoComposition'],
+      ['Story', 'VerticalComposition']
+    ]);
+    assert.match(read(projectPath, 'src/Root.tsx'), /id="Story"/);
+    assert.ok(!read(projectPath, 'src/Root.tsx').includes('id="Vertical"'));
+  });
+
+  await test('rejects renaming onto an existing id', async () => {
+    const projectPath = createProject('clash', [MAIN, VERTICAL]);
+    const manifest = read(projectPath, 'rough-cut.project.json');
+    const rootTsx = read(projectPath, 'src/Root.tsx');
+    const result = await handleToolCall('rename-composition', { project: 'clash', compositionId: 'Vertical', newId: 'Main' });
+    assert.strictEqual(text(result), "❌ Failed to rename composition: Composition 'Main' already exists");
+    assert.strictEqual(read(projectPath, 'rough-cut.project.json'), manifest);
+    assert.strictEqual(read(projectPath, 'src/Root.tsx'), rootTsx);
+  });
+
+  console.log('\n📋 remove-composition');
+  await test('removes a composition and its unused component', async () => {
+    const projectPath = createProject('removed', [MAIN, VERTICAL]);
+    const result = await handleToolCall('remove-composition', { project: 'removed', compositionId: 'Vertical', deleteComponent: true });
+    assert.match(text(result), /^✅ Removed composition Vertical from removed\nComponent file src\/VerticalComposition\.tsx deleted/);
+    assert.strictEqual(fs.existsSync(path.join(projectPath, 'src', 'VerticalComposition.tsx')), false);
+    assert.deepStrictEqual(JSON.parse(read(projectPath, 'rough-cut.project.json')).compositions.map(composition => composition.id), ['Main']);
+  });
+
+  await test('refuses to remove the last composition', async () => {
+    const projectPath = createProject('last', [MAIN]);
+    const manifest = read(projectPath, 'rough-cut.project.json');
+    const result = await handleToolCall('remove-composition', { project: 'last', compositionId: 'Main', deleteComponent: true });
+    assert.strictEqual(text(result), "❌ Failed to remove composition: 'Main' is the only composition - a project needs at least one");
+    assert.strictEqual(read(projectPath, 'rough-cut.project.json'), manifest);
+    assert.strictEqual(fs.existsSync(path.join(projectPath, 'src', 'VideoComposition.tsx')), true);
+  });
+
+  fs.rmSync(root, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
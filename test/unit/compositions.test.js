@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for composition settings
+ * Covers applying settings, Root.tsx generation and parsing, and manifest checks on load
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const compositionsModule = path.join(__dirname, '..', '..', 'build', 'compositions.js');
+
+console.log('🧪 Composition Settings Unit Tests\n');
+
+if (!fs.existsSync(compositionsModule)) {
+  console.log('❌ Composition settings not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the defaults must be set before loading the module
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-compositions-'));
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+process.env.ROUGHCUT_DEFAULT_FPS = '30';
+process.env.ROUGHCUT_DEFAULT_WIDTH = '1920';
+process.env.ROUGHCUT_DEFAULT_HEIGHT = '1080';
+process.env.ROUGHCUT_DEFAULT_DURATION = '300';
+
+const {
+  applyCompositionSettings,
+  defaultCompositionSettings,
+  generateRootTsx,
+  parseRootCompositions,
+  readProjectManifest,
+  PROJECT_MANIFEST_FILE
+} = require(compositionsModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const MAIN = { id: 'Main', component: 'VideoComposition', durationInFrames: 300, fps: 30, width: 1920, height: 1080 };
+
+function projectWithManifest(name, compositions) {
+  const projectPath = path.join(root, name);
+  fs.mkdirSync(projectPath, { recursive: true });
+  fs.writeFileSync(path.join(projectPath, PROJECT_MANIFEST_FILE), JSON.stringify({ version: 1, compositions }));
+  return projectPath;
+}
+
+(async () => {
+  console.log('📋 Applying settings');
+  await test('starts from the configured defaults', () => {
+    assert.deepStrictEqual(defaultCompositionSettings(), MAIN);
+  });
+  await test('converts seconds with the resulting fps and keeps frames when only fps changes', () => {
+    assert.strictEqual(applyCompositionSettings(MAIN, { fps: 60, durationSeconds: 2.5 }).durationInFrames, 150);
+    assert.strictEqual(applyCompositionSettings(MAIN, { fps: 60 }).durationInFrames, 300);
+    assert.deepStrictEqual(applyCompositionSettings(MAIN, { id: 'Vertical', width: 1080, height: 1920 }), { ...MAIN, id: 'Vertical', width: 1080, height: 1920, defaultProps: undefined });
+  });
+  await test('rejects settings Remotion would refuse', () => {
+    assert.throws(() => applyCompositionSettings(MAIN, { durationInFrames: 10, durationSeconds: 1 }), /either durationInFrames or durationSeconds/);
+    assert.throws(() => applyCompositionSettings(MAIN, { id: 'Main Video' }), /may only contain letters, digits and '-'/);
+    assert.throws(() => applyCompositionSettings(MAIN, { width: 1081 }), /width must be even/);
+    assert.throws(() => applyCompositionSettings(MAIN, { fps: 0 }), /fps must be between 0 and 240/);
+    assert.throws(() => applyCompositionSettings(MAIN, { durationSeconds: -1 }), /durationSeconds must be a positive number/);
+  });
+
+  console.log('\n📋 Root.tsx');
+  await test('generates a Root that parses back to the same settings', () => {
+    const vertical = { ...MAIN, id: 'Vertical', component: 'VerticalComposition', width: 1080, height: 1920, defaultProps: { title: 'Hi' } };
+    const source = generateRootTsx({ version: 1, compositions: [MAIN, vertical] });
+    assert.match(source, /import VideoComposition from '\.\/VideoComposition';/);
+    assert.match(source, /import VerticalComposition from '\.\/VerticalComposition';/);
+    assert.match(source, /defaultProps=\{\{"title":"Hi"\}\}/);
+    const { defaultProps, ...verticalWithoutProps } = vertical;
+    assert.deepStrictEqual(parseRootCompositions(source), [MAIN, verticalWithoutProps]);
+  });
+  await test('imports a shared component once', () => {
+    const source = generateRootTsx({ version: 1, compositions: [MAIN, { ...MAIN, id: 'Short', durationInFrames: 90 }] });
+    assert.strictEqual(source.match(/import VideoComposition/g).length, 1);
+  });
+  await test('reads hand-written Roots and falls back to defaults for computed values', () => {
+    const compositions = parseRootCompositions(`
+import { Composition } from 'remotion';
+import { Intro as IntroScene } from './scenes/Intro';
+const FPS = 24;
+export const RemotionRoot = () => (
+  <>
+    <Composition id="Intro" component={IntroScene} durationInFrames={120} fps={FPS} width={1280} height={720} />
+  </>
+);
+`);
+    assert.deepStrictEqual(compositions, [{ id: 'Intro', component: 'Intro', durationInFrames: 120, fps: 30, width: 1280, height: 720 }]);
+  });
+
+  console.log('\n📋 Manifest');
+  await test('loads a valid manifest', async () => {
+    const manifest = await readProjectManifest(projectWithManifest('valid', [MAIN]));
+    assert.deepStrictEqual(manifest.compositions, [MAIN]);
+  });
+  await test('rejects manifest entries with invalid settings', async () => {
+    await assert.rejects(readProjectManifest(projectWithManifest('bad-id', [{ ...MAIN, id: 'Main"; rm -rf ~' }])), /composition 1 is invalid - id .* may only contain/);
+    await assert.rejects(readProjectManifest(projectWithManifest('bad-component', [MAIN, { ...MAIN, id: 'Two', component: '../Evil' }])), /composition 2 is invalid - component/);
+    await assert.rejects(readProjectManifest(projectWithManifest('missing-fields', [{ id: 'Main' }])), /composition 1 is invalid/);
+    await assert.rejects(readProjectManifest(projectWithManifest('not-object', [null])), /composition 1 is invalid - must be an object/);
+    await assert.rejects(readProjectManifest(projectWithManifest('duplicate', [MAIN, MAIN])), /id 'Main' is used twice/);
+  });
+
+  fs.rmSync(root, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the server settings
+ * Covers value parsing, precedence of flags, environment, config file and defaults, and reporting of ignored values
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const configModule = path.join(__dirname, '..', '..', 'build', 'config.js');
+
+console.log('🧪 Config Unit Tests\n');
+
+if (!fs.existsSync(configModule)) {
+  console.log('❌ Config not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { parseConfigValue, resolveConfig } = require(configModule);
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-config-'));
+const configFile = path.join(root, 'rough-cut.config.json');
+
+// Resolve against a config file holding data, without touching the real environment
+function resolve(argv, env, data) {
+  if (data === undefined) {
+    fs.rmSync(configFile, { force: true });
+  } else {
+    fs.writeFileSync(configFile, typeof data === 'string' ? data : JSON.stringify(data));
+  }
+  const warnings = [];
+  const entries = resolveConfig(['node', 'index.js', ...argv], { ROUGHCUT_CONFIG_FILE: configFile, ...env }, warnings);
+  const byKey = Object.fromEntries(entries.map(entry => [entry.key, entry]));
+  return { byKey, warnings };
+}
+
+console.log('📋 parseConfigValue');
+
+test('parses numbers, port ranges, versions and paths', () => {
+  assert.strictEqual(parseConfigValue('defaultFps', '60'), 60);
+  assert.strictEqual(parseConfigValue('defaultFps', 24), 24);
+  assert.deepStrictEqual(parseConfigValue('studioPortRange', '7000-7010'), { start: 7000, end: 7010 });
+  assert.deepStrictEqual(parseConfigValue('studioPortRange', { start: 7000, end: 7010 }), { start: 7000, end: 7010 });
+  assert.strictEqual(parseConfigValue('remotionVersion', ' 4.0.340 '), '4.0.340');
+  assert.strictEqual(parseConfigValue('maxRenderJobs', '3'), 3);
+  assert.strictEqual(parseConfigValue('assetsDir', root), path.resolve(root));
+});
+
+test('rejects invalid values', () => {
+  assert.throws(() => parseConfigValue('defaultFps', 'fast'), /positive integer/);
+  assert.throws(() => parseConfigValue('defaultFps', '0'), /positive integer/);
+  assert.throws(() => parseConfigValue('trashRetentionDays', 1.5), /positive integer/);
+  assert.throws(() => parseConfigValue('maxRenderJobs', '0'), /maxRenderJobs must be a positive integer/);
+  assert.throws(() => parseConfigValue('defaultWidth', '1921'), /must be even/);
+  assert.throws(() => parseConfigValue('studioPortRange', '7010-7000'), /between 1024 and 65535/);
+  assert.throws(() => parseConfigValue('studioPortRange', '80-90'), /between 1024 and 65535/);
+  assert.throws(() => parseConfigValue('remotionVersion', '^4.0.0'), /exact version/);
+  assert.throws(() => parseConfigValue('projectsDir', '  '), /non-empty path/);
+  assert.throws(() => parseConfigValue('nope', 1), /Unknown setting/);
+});
+
+console.log('\n📋 resolveConfig');
+
+test('prefers flags over environment over config file over defaults', () => {
+  const { byKey, warnings } = resolve(
+    ['--fps', '60', '--width=1280'],
+    { ROUGHCUT_DEFAULT_FPS: '50', ROUGHCUT_DEFAULT_WIDTH: '640', ROUGHCUT_DEFAULT_HEIGHT: '720' },
+    { defaultFps: 25, defaultWidth: 320, defaultHeight: 480, defaultDurationInFrames: 90 }
+  );
+  assert.deepStrictEqual([byKey.defaultFps.value, byKey.defaultFps.source], [60, 'cli']);
+  assert.deepStrictEqual([byKey.defaultWidth.value, byKey.defaultWidth.source], [1280, 'cli']);
+  assert.deepStrictEqual([byKey.defaultHeight.value, byKey.defaultHeight.source], [720, 'env']);
+  assert.deepStrictEqual([byKey.defaultDurationInFrames.value, byKey.defaultDurationInFrames.source], [90, 'file']);
+  assert.deepStrictEqual([byKey.trashRetentionDays.value, byKey.trashRetentionDays.source], [7, 'default']);
+  assert.deepStrictEqual(warnings, []);
+});
+
+test('falls back to the next source for invalid values and reports them', () => {
+  const { byKey, warnings } = resolve(
+    ['--fps', 'fast'],
+    { ROUGHCUT_DEFAULT_FPS: '0', ROUGHCUT_PORT_RANGE: '7000' },
+    { defaultFps: 25, remotionVersion: 'latest' }
+  );
+  assert.deepStrictEqual([byKey.defaultFps.value, byKey.defaultFps.source], [25, 'file']);
+  assert.deepStrictEqual([byKey.studioPortRange.value, byKey.studioPortRange.source], [{ start: 6600, end: 6620 }, 'default']);
+  assert.deepStrictEqual([byKey.remotionVersion.value, byKey.remotionVersion.source], ['4.0.340', 'default']);
+  assert.strictEqual(warnings.length, 4);
+  assert.ok(warnings.some(warning => warning.startsWith('Ignoring --fps: defaultFps must be a positive integer')));
+  assert.ok(warnings.some(warning => warning.startsWith('Ignoring ROUGHCUT_DEFAULT_FPS:')));
+  assert.ok(warnings.some(warning => warning.startsWith('Ignoring ROUGHCUT_PORT_RANGE:')));
+  assert.ok(warnings.some(warning => warning.startsWith(`Ignoring remotionVersion in ${configFile}:`)));
+});
+
+test('reports a broken config file and uses the other sources', () => {
+  const { byKey, warnings } = resolve([], { ROUGHCUT_DEFAULT_FPS: '24' }, '{ "defaultFps": ');
+  assert.deepStrictEqual([byKey.defaultFps.value, byKey.defaultFps.source], [24, 'env']);
+  assert.strictEqual(warnings.length, 1);
+  assert.ok(warnings[0].startsWith(`Ignoring ${configFile}:`));
+
+  assert.match(resolve([], {}, '[1, 2]').warnings[0], /does not contain a JSON object/);
+  assert.deepStrictEqual(resolve([], {}).warnings, []);
+});
+
+test('reads the render job limit from its flag, env var or the config file', () => {
+  const limit = (argv, env, data) => {
+    const { maxRenderJobs } = resolve(argv, env, data).byKey;
+    return [maxRenderJobs.value, maxRenderJobs.source];
+  };
+  assert.deepStrictEqual(limit([], {}), [1, 'default']);
+  assert.deepStrictEqual(limit([], { REMOTION_MAX_RENDER_JOBS: '2' }, { maxRenderJobs: 3 }), [2, 'env']);
+  assert.deepStrictEqual(limit(['--max-render-jobs=4'], { REMOTION_MAX_RENDER_JOBS: '2' }), [4, 'cli']);
+  const { byKey, warnings } = resolve([], { REMOTION_MAX_RENDER_JOBS: 'many' }, { maxRenderJobs: 3 });
+  assert.deepStrictEqual([byKey.maxRenderJobs.value, byKey.maxRenderJobs.source], [3, 'file']);
+  assert.match(warnings[0], /^Ignoring REMOTION_MAX_RENDER_JOBS: maxRenderJobs must be a positive integer/);
+});
+
+test('puts projects under the assets directory unless set explicitly', () => {
+  const assetsDir = path.join(root, 'assets');
+  const { byKey } = resolve(['--assets-dir', assetsDir], {});
+  assert.strictEqual(byKey.projectsDir.value, path.join(assetsDir, 'projects'));
+  assert.strictEqual(byKey.projectsDir.source, 'default');
+
+  const projectsDir = path.join(root, 'elsewhere');
+  const explicit = resolve(['--assets-dir', assetsDir], { ROUGHCUT_PROJECTS_DIR: projectsDir }).byKey;
+  assert.deepStrictEqual([explicit.projectsDir.value, explicit.projectsDir.source], [projectsDir, 'env']);
+});
+
+fs.rmSync(root, { recursive: true, force: true });
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for edit-video-element's element editor and the unified diff
+ * Covers target matching, in-place prop/style/text edits and structural edits
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const buildDir = path.join(__dirname, '..', '..', 'build', 'utils');
+
+console.log('🧪 Element Editor Unit Tests\n');
+
+if (!fs.existsSync(path.join(buildDir, 'element-editor.js'))) {
+  console.log('❌ Element editor not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { editElements, parseSelector } = require(path.join(buildDir, 'element-editor.js'));
+const { createUnifiedDiff } = require(path.join(buildDir, 'diff.js'));
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const SOURCE = `import React from 'react';
+import { AbsoluteFill, Sequence } from 'remotion';
+
+export const VideoComposition: React.FC = () => {
+  return (
+    <AbsoluteFill style={{ backgroundColor: '#000' }}>
+      <Sequence from={0} durationInFrames={60}>
+        <h1 className="title big" style={{
+          color: 'white',
+          fontSize: 80,
+        }}>
+          Hello World
+        </h1>
+        <p data-id="subtitle">Subtitle here</p>
+        <img src="logo.png" />
+      </Sequence>
+      <div className="title">Other</div>
+    </AbsoluteFill>
+  );
+};
+
+export default VideoComposition;
+`;
+
+test('parses compound and descendant selectors', () => {
+  assert.deepStrictEqual(parseSelector('Sequence h1.title[data-id="x"]'), [
+    { tag: 'Sequence', classes: [], attributes: [] },
+    { tag: 'h1', classes: ['title'], attributes: [{ name: 'data-id', value: 'x' }] }
+  ]);
+  assert.throws(() => parseSelector('div > p'), /Invalid selector/);
+});
+test('finds elements by selector, data-id and text', () => {
+  assert.strictEqual(editElements(SOURCE, { selector: 'Sequence .title' }, { props: { id: 'a' } }).matched[0].name, 'h1');
+  assert.strictEqual(editElements(SOURCE, { dataId: 'subtitle' }, { props: { id: 'a' } }).matched[0].line, 14);
+  assert.strictEqual(editElements(SOURCE, { text: 'Other' }, { props: { id: 'a' } }).matched[0].name, 'div');
+});
+test('refuses ambiguous targets unless index or all is given', () => {
+  assert.throws(() => editElements(SOURCE, { selector: '.title' }, { text: 'x' }), /2 elements match/);
+  assert.strictEqual(editElements(SOURCE, { selector: '.title', index: 1 }, { text: 'x' }).matched[0].name, 'div');
+  assert.strictEqual(editElements(SOURCE, { selector: '.title', all: true }, { props: { id: 'a' } }).matched.length, 2);
+  assert.throws(() => editElements(SOURCE, { selector: 'video' }, { text: 'x' }), /No element matches/);
+});
+test('sets and removes props in place', () => {
+  const { output } = editElements(SOURCE, { dataId: 'subtitle' }, { props: { 'data-id': null, className: 'sub' }, propExpressions: { hidden: 'false' } });
+  assert.ok(output.includes('<p className="sub" hidden={false}>Subtitle here</p>'));
+});
+test('merges style and keeps the object layout', () => {
+  const { output } = editElements(SOURCE, { selector: 'h1' }, { style: { color: 'red', fontSize: null, margin: 0 } });
+  assert.ok(output.includes(`style={{\n          color: 'red',\n          margin: 0,\n        }}`));
+  const inline = editElements(SOURCE, { selector: 'AbsoluteFill' }, { styleExpressions: { opacity: 'opacity' } }).output;
+  assert.ok(inline.includes(`<AbsoluteFill style={{ backgroundColor: '#000', opacity }}>`));
+});
+test('replaces text and children', () => {
+  assert.ok(editElements(SOURCE, { selector: 'h1' }, { text: 'Hi' }).output.includes('        }}>\n          Hi\n        </h1>'));
+  assert.ok(editElements(SOURCE, { selector: 'img' }, { children: '<b>x</b>' }).output.includes('<img src="logo.png"><b>x</b></img>'));
+  assert.throws(() => editElements(SOURCE, { selector: 'Sequence' }, { text: 'x' }), /no text of its own/);
+});
+test('inserts, replaces and removes elements', () => {
+  assert.ok(editElements(SOURCE, { text: 'Other' }, { insert: { jsx: '<span />', position: 'after' } }).output
+    .includes('<div className="title">Other</div>\n      <span />\n'));
+  assert.ok(editElements(SOURCE, { selector: 'Sequence' }, { insert: { jsx: '<span />' } }).output
+    .includes('<img src="logo.png" />\n        <span />\n      </Sequence>'));
+  assert.ok(editElements(SOURCE, { dataId: 'subtitle' }, { replace: '<h2>Sub</h2>' }).output.includes('        <h2>Sub</h2>\n'));
+  assert.ok(!editElements(SOURCE, { selector: 'img' }, { remove: true }).output.includes('<img'));
+  assert.throws(() => editElements(SOURCE, { selector: 'AbsoluteFill' }, { remove: true }), /not inside other JSX/);
+  assert.throws(() => editElements(SOURCE, { selector: 'img' }, { remove: true, text: 'x' }), /cannot be combined/);
+});
+test('produces unified diffs', () => {
+  assert.strictEqual(createUnifiedDiff('a.txt', 'a\nb\nc\n', 'a\nb\nc\n'), '');
+  assert.strictEqual(createUnifiedDiff('a.txt', 'a\nb\nc\n', 'a\nB\nc\n'), '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c');
+  assert.strictEqual(createUnifiedDiff('a.txt', '', 'x\n'), '--- a/a.txt\n+++ b/a.txt\n@@ -0,0 +1 @@\n+x');
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
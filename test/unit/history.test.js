@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for project version history
+ * Covers recording writes, undo/redo, restore, diffs and capturing outside edits
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const historyModule = path.join(__dirname, '..', '..', 'build', 'history.js');
+
+console.log('🧪 Project History Unit Tests\n');
+
+if (!fs.existsSync(historyModule)) {
+  console.log('❌ History module not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { ProjectHistory } = require(historyModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-history-'));
+  fs.mkdirSync(path.join(projectPath, 'src'));
+  fs.writeFileSync(path.join(projectPath, 'src', 'VideoComposition.tsx'), 'export const a = 1;\n');
+  try {
+    await fn(projectPath, new ProjectHistory(projectPath));
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  } finally {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  }
+}
+
+function read(projectPath, file = 'src/VideoComposition.tsx') {
+  return fs.readFileSync(path.join(projectPath, file), 'utf-8');
+}
+
+function write(projectPath, content, file = 'src/VideoComposition.tsx') {
+  return async () => fs.writeFileSync(path.join(projectPath, file), content);
+}
+
+(async () => {
+  await test('records the state before the first write and each write after it', async (projectPath, history) => {
+    const version = await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 2;\n'));
+    const { head, versions } = await history.state();
+    assert.strictEqual(version.id, 2);
+    assert.strictEqual(head, 2);
+    assert.deepStrictEqual(versions.map(v => [v.id, v.parent, v.tool]), [[1, null, 'external'], [2, 1, 'edit-video-jsx']]);
+    assert.deepStrictEqual(version.changed, ['src/VideoComposition.tsx']);
+  });
+
+  await test('skips writes that change nothing', async (projectPath, history) => {
+    await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 2;\n'));
+    assert.strictEqual(await history.record('edit-video-jsx', 'Same', write(projectPath, 'export const a = 2;\n')), null);
+    assert.strictEqual((await history.state()).versions.length, 2);
+  });
+
+  await test('undoes and redoes, including added files', async (projectPath, history) => {
+    await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 2;\n'));
+    await history.record('add-composition', 'Added', write(projectPath, 'export const b = 1;\n', 'src/Second.tsx'));
+
+    const undo = await history.undo(2);
+    assert.strictEqual(undo.to.id, 1);
+    assert.strictEqual(read(projectPath), 'export const a = 1;\n');
+    assert.ok(!fs.existsSync(path.join(projectPath, 'src', 'Second.tsx')));
+
+    await history.redo();
+    assert.strictEqual(read(projectPath), 'export const a = 2;\n');
+    await history.redo();
+    assert.strictEqual(read(projectPath, 'src/Second.tsx'), 'export const b = 1;\n');
+    await assert.rejects(history.redo(), /Nothing to redo/);
+    await assert.rejects(history.undo(5), /Only 2 step\(s\) can be undone/);
+  });
+
+  await test('a new write after undo clears redo', async (projectPath, history) => {
+    await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 2;\n'));
+    await history.undo();
+    await history.record('edit-video-jsx', 'Edited again', write(projectPath, 'export const a = 3;\n'));
+    await assert.rejects(history.redo(), /Nothing to redo/);
+    const { versions } = await history.state();
+    assert.strictEqual(versions[versions.length - 1].parent, 1);
+  });
+
+  await test('saves outside edits before overwriting them', async (projectPath, history) => {
+    await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 2;\n'));
+    await write(projectPath, 'export const a = 42; // by hand\n')();
+    await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 3;\n'));
+
+    const { versions } = await history.state();
+    assert.deepStrictEqual(versions.map(v => v.tool), ['external', 'edit-video-jsx', 'external', 'edit-video-jsx']);
+    await history.restore(3);
+    assert.strictEqual(read(projectPath), 'export const a = 42; // by hand\n');
+    assert.strictEqual((await history.state()).versions.pop().message, 'Restored version 3');
+  });
+
+  await test('diffs versions and the current files', async (projectPath, history) => {
+    await history.record('edit-video-jsx', 'Edited', write(projectPath, 'export const a = 2;\n'));
+    assert.strictEqual(await history.diff(1, 2), '--- a/src/VideoComposition.tsx\n+++ b/src/VideoComposition.tsx\n@@ -1 +1 @@\n-export const a = 1;\n+export const a = 2;');
+    await write(projectPath, 'export const b = 1;\n', 'src/Second.tsx')();
+    assert.match(await history.diff(2), /--- \/dev\/null\n\+\+\+ b\/src\/Second\.tsx/);
+    assert.strictEqual(await history.diff(2, 2), '');
+    await assert.rejects(history.diff(9), /Version 9 not found/);
+  });
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
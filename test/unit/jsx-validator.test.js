@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the JSX validator
+ * Covers syntax errors with positions and code frames, and checks that valid input is never rewritten
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const validatorModule = path.join(__dirname, '..', '..', 'build', 'utils', 'jsx-validator.js');
+
+console.log('🧪 JSX Validator Unit Tests\n');
+
+if (!fs.existsSync(validatorModule)) {
+  console.log('❌ JSX validator not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { JSXValidator, validateJSX } = require(validatorModule);
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const VALID = `import { AbsoluteFill, useCurrentFrame, interpolate } from 'remotion';
+
+type Props = { title?: string };
+
+export const VideoComposition: React.FC<Props> = ({ title = 'Hello' }) => {
+  const frame = useCurrentFrame();
+  const opacity = interpolate(frame, [0, 30], [0, 1], { extrapolateRight: 'clamp' });
+  return (
+    <AbsoluteFill style={{ backgroundColor: 'white', opacity }}>
+      <h1>{title}</h1>
+      {/* comment */}
+      <p>a &lt; b &amp;&amp; "quotes" 'single' \`back\` {'{braces}'}</p>
+    </AbsoluteFill>
+  );
+};
+
+export default VideoComposition;
+`;
+
+const UNCLOSED = `import { AbsoluteFill } from 'remotion';
+
+export default function VideoComposition() {
+  return (
+    <AbsoluteFill>
+      <div>
+        <h1>Title</h1>
+    </AbsoluteFill>
+  );
+}
+`;
+
+test('accepts a valid composition and returns it unchanged', () => {
+  const result = validateJSX(VALID);
+  assert.strictEqual(result.isValid, true);
+  assert.deepStrictEqual(result.diagnostics, []);
+  assert.deepStrictEqual(result.issues, []);
+  assert.strictEqual(result.wasModified, false);
+  assert.strictEqual(result.sanitizedJSX, VALID);
+  assert.strictEqual(result.originalJSX, VALID);
+});
+
+test('never rewrites the input, even when it reports problems', () => {
+  for (const source of [UNCLOSED, 'export const x = <div>;', 'const frame = 1;\n', VALID.replace(/\n/g, '\r\n')]) {
+    const result = validateJSX(source);
+    assert.strictEqual(result.sanitizedJSX, source);
+    assert.strictEqual(result.wasModified, false);
+  }
+});
+
+test('reports an unclosed JSX element as an error with its position', () => {
+  const result = validateJSX(UNCLOSED);
+  assert.strictEqual(result.isValid, false);
+  const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+  assert.ok(errors.length > 0);
+  assert.strictEqual(errors[0].message, 'Unterminated JSX contents.');
+  assert.strictEqual(errors[0].line, 8);
+  assert.strictEqual(errors[0].column, 20);
+  assert.match(result.issues[0], /^Error at line 8:20 - /);
+
+  const mismatched = validateJSX('export default () => (\n  <div></span>\n);\n');
+  assert.strictEqual(mismatched.isValid, false);
+  assert.strictEqual(mismatched.diagnostics[0].message, 'Expected corresponding JSX closing tag for <div>.');
+  assert.deepStrictEqual([mismatched.diagnostics[0].line, mismatched.diagnostics[0].column], [2, 8]);
+});
+
+test('builds a code frame with context lines and a caret under the column', () => {
+  const { codeFrame } = validateJSX(UNCLOSED).diagnostics[0];
+  assert.strictEqual(codeFrame, [
+    '   6 |       <div>',
+    '   7 |         <h1>Title</h1>',
+    '>  8 |     </AbsoluteFill>',
+    '     |                    ^',
+    '   9 |   );',
+    '  10 | }'
+  ].join('\n'));
+
+  assert.strictEqual(JSXValidator.buildCodeFrame('a\nbc', 1, 2), '> 1 | a\n    |  ^\n  2 | bc');
+});
+
+test('warns about a composition without an export', () => {
+  const result = validateJSX('const frame = 1;\n');
+  assert.strictEqual(result.isValid, true);
+  assert.deepStrictEqual(result.diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code]), [['warning', 'MissingExport']]);
+});
+
+test('formats a report with counts and code frames', () => {
+  const report = JSXValidator.formatValidationReport(validateJSX(UNCLOSED));
+  assert.match(report, /- Valid: false/);
+  assert.match(report, /- Errors: [1-9]/);
+  assert.match(report, /Error at line 8:20 - .*\n.*\n.*\n>  8 \|     <\/AbsoluteFill>/);
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the Remotion lint rules
+ * Lints small compositions and checks findings and autofix output
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const buildDir = path.join(__dirname, '..', '..', 'build', 'lint');
+
+console.log('🧪 Remotion Lint Unit Tests\n');
+
+if (!fs.existsSync(path.join(buildDir, 'index.js'))) {
+  console.log('❌ Lint engine not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { lintSource, fixSource, selectLintRules } = require(path.join(buildDir, 'index.js'));
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+function ruleIds(source) {
+  return lintSource(source).map(finding => finding.ruleId);
+}
+
+const CLEAN = `import { interpolate, useCurrentFrame, Easing, random } from 'remotion';
+export default function VideoComposition() {
+  const frame = useCurrentFrame();
+  const opacity = interpolate(frame, [0, 30], [0, 1], { easing: Easing.out(Easing.quad) });
+  const x = random('particle-1') * 100;
+  return <div style={{ opacity, transform: \`translateX(\${x}px)\` }} />;
+}`;
+
+console.log('📋 Findings');
+test('clean composition has no findings', () => {
+  assert.deepStrictEqual(lintSource(CLEAN), []);
+});
+test('reports non-increasing interpolate input ranges', () => {
+  const findings = lintSource(`interpolate(frame, [0, 30, 30, 60], [0, 1, 1, 0]);`);
+  assert.strictEqual(findings.length, 1);
+  assert.strictEqual(findings[0].ruleId, 'interpolate-monotonic-input');
+  assert.strictEqual(findings[0].severity, 'error');
+  assert.strictEqual(findings[0].line, 1);
+  assert.strictEqual(findings[0].column, 20);
+});
+test('ignores input ranges that are not literals', () => {
+  assert.deepStrictEqual(ruleIds(`interpolate(frame, [start, end], [0, 1]);`), []);
+});
+test('reports colours passed to interpolate()', () => {
+  assert.deepStrictEqual(ruleIds(`interpolate(frame, [0, 30], ['#ff0000', 'rgb(0, 0, 255)']);`), ['interpolate-color-output']);
+});
+test('reports unknown and uncalled Easing members', () => {
+  assert.deepStrictEqual(ruleIds(`const a = Easing.sine; const b = Easing.bezier; const c = Easing.bezier(0, 0, 1, 1);`), ['valid-easing', 'valid-easing']);
+});
+test('warns about Math.random()', () => {
+  const findings = lintSource(`const x = Math.random();`);
+  assert.strictEqual(findings[0].ruleId, 'no-math-random');
+  assert.strictEqual(findings[0].severity, 'warning');
+  assert.strictEqual(findings[0].fix, undefined);
+});
+test('warns about CSS transitions and @keyframes', () => {
+  assert.deepStrictEqual(ruleIds(`const s: React.CSSProperties = { opacity: 1, transition: 'opacity 0.3s' }; const css = \`@keyframes spin {}\`;`), ['no-css-animation', 'no-css-animation']);
+  assert.deepStrictEqual(ruleIds(`const s: React.CSSProperties = { transition: 'none' };`), []);
+});
+test('checks every kind of style object', () => {
+  for (const source of [
+    `<div style={{ animation: 'spin 1s infinite' }} />`,
+    `const s: CSSProperties = { transitionDuration: '1s' };`,
+    `const s = { transition: 'all 1s' } as React.CSSProperties;`,
+    `const s = { transition: 'all 1s' } satisfies CSSProperties;`,
+    `const styles: Record<string, React.CSSProperties> = { box: { transition: 'all 1s' } };`
+  ]) {
+    assert.deepStrictEqual(ruleIds(source), ['no-css-animation'], source);
+  }
+});
+test('leaves transition and animation keys outside styles alone', () => {
+  for (const source of [
+    `const scenes = [{ transition: 'fade' }, { animation: 'slide-in' }];`,
+    `<Scene transition={{ transition: 'fade' }} data={{ animation: 'slide-in' }} />`,
+    `const s: Props = { transition: 'fade' };`,
+    `const styles: Record<string, Scene> = { intro: { transition: 'fade' } };`
+  ]) {
+    assert.deepStrictEqual(ruleIds(source), [], source);
+    assert.strictEqual(fixSource(source).output, source);
+  }
+});
+test('returns nothing for code that does not parse', () => {
+  assert.deepStrictEqual(lintSource(`const x = (;`), []);
+});
+
+console.log('\n📋 Autofix');
+test('sorts input ranges and keeps outputs paired', () => {
+  const { output } = fixSource(`interpolate(frame, [60, 0, 30], [2, 0, 1]);`);
+  assert.strictEqual(output, `interpolate(frame, [0, 30, 60], [0, 1, 2]);`);
+});
+test('bumps duplicate input values', () => {
+  const { output } = fixSource(`interpolate(frame, [0, 30, 30], [0, 1, 0]);`);
+  assert.strictEqual(output, `interpolate(frame, [0, 30, 31], [0, 1, 0]);`);
+});
+test('switches to interpolateColors and imports it once', () => {
+  const source = `import { interpolate } from 'remotion';
+const a = interpolate(frame, [0, 30], ['red', 'blue'], { extrapolateRight: 'clamp' });
+const b = interpolate(frame, [0, 30], ['#000', '#fff']);`;
+  const { output, fixed, remaining } = fixSource(source);
+  assert.strictEqual(output, `import { interpolate, interpolateColors } from 'remotion';
+const a = interpolateColors(frame, [0, 30], ['red', 'blue']);
+const b = interpolateColors(frame, [0, 30], ['#000', '#fff']);`);
+  assert.strictEqual(fixed.length, 2);
+  assert.deepStrictEqual(remaining, []);
+});
+test('renames known Easing mistakes', () => {
+  assert.strictEqual(fixSource(`Easing.inOut(Easing.sine)`).output, `Easing.inOut(Easing.sin)`);
+});
+test('removes CSS transition properties', () => {
+  assert.strictEqual(fixSource(`<div style={{ opacity: 1, transition: 'opacity 0.3s' }} />`).output, `<div style={{ opacity: 1 }} />`);
+});
+
+console.log('\n📋 Rule selection');
+test('runs only the selected rules', () => {
+  assert.deepStrictEqual(lintSource(`Math.random(); Easing.sine;`, { rules: ['valid-easing'] }).map(finding => finding.ruleId), ['valid-easing']);
+});
+test('rejects unknown rule ids', () => {
+  assert.throws(() => selectLintRules(['no-such-rule']), /Unknown lint rule/);
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
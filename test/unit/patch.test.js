@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for edit-video-jsx patch modes
+ * Covers unified diff hunks (including shifted line numbers) and search/replace blocks
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const patchModule = path.join(__dirname, '..', '..', 'build', 'utils', 'patch.js');
+
+console.log('🧪 Patch Unit Tests\n');
+
+if (!fs.existsSync(patchModule)) {
+  console.log('❌ Patch module not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { applyUnifiedDiff, applySearchReplace } = require(patchModule);
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const SOURCE = ['const a = 1;', 'const b = 2;', 'const c = 3;', 'const d = 4;', 'const e = 5;', ''].join('\n');
+
+test('applies hunks and keeps the trailing newline', () => {
+  const patch = '--- a/x.tsx\n+++ b/x.tsx\n@@ -2,2 +2,2 @@\n const b = 2;\n-const c = 3;\n+const c = 30;\n';
+  assert.strictEqual(applyUnifiedDiff(SOURCE, patch), SOURCE.replace('c = 3', 'c = 30'));
+});
+test('finds hunks whose line numbers are off', () => {
+  const patch = '@@ -1,2 +1,3 @@\n const d = 4;\n+const dd = 44;\n const e = 5;';
+  assert.ok(applyUnifiedDiff(SOURCE, patch).includes('const d = 4;\nconst dd = 44;\nconst e = 5;'));
+});
+test('explains hunks that do not match', () => {
+  const patch = '@@ -2,2 +2,2 @@\n const b = 2;\n-const c = 300;\n+const c = 30;';
+  assert.throws(() => applyUnifiedDiff(SOURCE, patch), /Hunk 1 .*line 3 is "const c = 3;" where the patch expects "const c = 300;"/);
+  assert.throws(() => applyUnifiedDiff(SOURCE, 'no hunks here'), /no hunks/);
+  assert.throws(() => applyUnifiedDiff(SOURCE, '--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b\n--- a/y\n+++ b/y\n'), /more than one file/);
+});
+test('applies search/replace blocks in order', () => {
+  const output = applySearchReplace(SOURCE, [
+    { search: 'const a = 1;', replace: 'const a = 10;' },
+    { search: 'const a = 10;\nconst b = 2;', replace: 'const ab = 12;' }
+  ]);
+  assert.ok(output.startsWith('const ab = 12;\nconst c = 3;'));
+  assert.strictEqual(applySearchReplace('x x', [{ search: 'x', replace: 'y', all: true }]), 'y y');
+});
+test('rejects missing and ambiguous search text', () => {
+  assert.throws(() => applySearchReplace(SOURCE, [{ search: 'const', replace: 'let' }]), /found 5 times \(lines 1, 2, 3, 4, 5\)/);
+  assert.throws(() => applySearchReplace(SOURCE, [{ search: 'const b = 2;\n  const c = 3;', replace: '' }]), /line 3 .*indentation differs/);
+  assert.throws(() => applySearchReplace(SOURCE, [{ search: '', replace: 'x' }]), /non-empty/);
+});
+test('keeps Windows line endings', () => {
+  const windows = SOURCE.replace(/\n/g, '\r\n');
+  assert.strictEqual(applySearchReplace(windows, [{ search: 'const a = 1;\nconst b = 2;', replace: 'const a = 1;\nconst b = 20;' }]), windows.replace('b = 2', 'b = 20'));
+  assert.strictEqual(applyUnifiedDiff(windows, '@@ -1 +1 @@\n-const a = 1;\n+const a = 10;'), windows.replace('a = 1', 'a = 10'));
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
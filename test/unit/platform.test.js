@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the platform abstraction layer
+ * Feeds captured netstat/tasklist/ss/lsof//proc output into the parsers
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const buildDir = path.join(__dirname, '..', '..', 'build', 'platform');
+
+console.log('🧪 Platform Abstraction Unit Tests\n');
+
+if (!fs.existsSync(path.join(buildDir, 'index.js'))) {
+  console.log('❌ Platform layer not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { parseNetstatOutput, parseTasklistCsv } = require(path.join(buildDir, 'windows.js'));
+const { parseProcNetTcp, parseSsOutput, linuxPlatform } = require(path.join(buildDir, 'linux.js'));
+const { parseLsofOutput } = require(path.join(buildDir, 'posix.js'));
+const { getPlatformAdapter } = require(path.join(buildDir, 'index.js'));
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+// Captured from Windows 11 `netstat -ano`
+const NETSTAT_OUTPUT = `
+Active Connections
+
+  Proto  Local Address          Foreign Address        State           PID
+  TCP    0.0.0.0:135            0.0.0.0:0              LISTENING       1148
+  TCP    0.0.0.0:6600           0.0.0.0:0              LISTENING       20484
+  TCP    127.0.0.1:6600         127.0.0.1:53122        ESTABLISHED     20484
+  TCP    127.0.0.1:53122        127.0.0.1:6600         ESTABLISHED     9936
+  TCP    [::]:6601              [::]:0                 LISTENING       31200
+  UDP    0.0.0.0:6602           *:*                                    4412
+`;
+
+// Captured from `tasklist /fi "PID eq 20484" /fo csv /nh`
+const TASKLIST_OUTPUT = `"node.exe","20484","Console","1","98,412 K"\r\n`;
+
+// Captured from /proc/net/tcp on Ubuntu 22.04 (port 6600 = 0x19C8)
+const PROC_NET_TCP = `  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 0100007F:0277 00000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 18234 1 0000000000000000 100 0 0 10 0
+   1: 00000000:19C8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 412873 1 0000000000000000 100 0 0 10 0
+   2: 0100007F:19C8 0100007F:CEA2 01 00000000:00000000 00:00000000 00000000  1000        0 413001 1 0000000000000000 20 4 30 10 -1
+`;
+
+// Captured from `ss -ltnpH "sport = :6600"`
+const SS_OUTPUT = `LISTEN 0      511                *:6600            *:*    users:(("node",pid=48213,fd=23))
+`;
+
+// Captured from `lsof -nP -iTCP:6600 -sTCP:LISTEN -Fp`
+const LSOF_OUTPUT = `p73021
+`;
+
+console.log('📋 Windows (netstat / tasklist)');
+test('finds the LISTENING pid for an exact port', () => {
+  assert.strictEqual(parseNetstatOutput(NETSTAT_OUTPUT, 6600), 20484);
+});
+test('matches IPv6 listeners', () => {
+  assert.strictEqual(parseNetstatOutput(NETSTAT_OUTPUT, 6601), 31200);
+});
+test('does not match a port prefix (:660 vs :6600)', () => {
+  assert.strictEqual(parseNetstatOutput(NETSTAT_OUTPUT, 660), null);
+});
+test('ignores UDP and ESTABLISHED rows', () => {
+  assert.strictEqual(parseNetstatOutput(NETSTAT_OUTPUT, 6602), null);
+  assert.strictEqual(parseNetstatOutput(NETSTAT_OUTPUT, 53122), null);
+});
+test('reads the image name from tasklist CSV', () => {
+  assert.strictEqual(parseTasklistCsv(TASKLIST_OUTPUT, 20484), 'node.exe');
+  assert.strictEqual(parseTasklistCsv('INFO: No tasks are running which match the specified criteria.', 20484), null);
+});
+
+console.log('\n📋 Linux (/proc/net/tcp / ss)');
+test('finds the listening socket inode in /proc/net/tcp', () => {
+  assert.strictEqual(parseProcNetTcp(PROC_NET_TCP, 6600), 412873);
+});
+test('returns null when nothing listens on the port', () => {
+  assert.strictEqual(parseProcNetTcp(PROC_NET_TCP, 6601), null);
+});
+test('reads the pid from ss output', () => {
+  assert.strictEqual(parseSsOutput(SS_OUTPUT, 6600), 48213);
+  assert.strictEqual(parseSsOutput(SS_OUTPUT, 660), null);
+  assert.strictEqual(parseSsOutput('', 6600), null);
+});
+
+console.log('\n📋 macOS / POSIX (lsof)');
+test('reads the pid from lsof -Fp output', () => {
+  assert.strictEqual(parseLsofOutput(LSOF_OUTPUT), 73021);
+  assert.strictEqual(parseLsofOutput(''), null);
+});
+
+console.log('\n📋 Adapter selection');
+test('selects an adapter per platform', () => {
+  assert.strictEqual(getPlatformAdapter('win32').name, 'windows');
+  assert.strictEqual(getPlatformAdapter('linux').name, 'linux');
+  assert.strictEqual(getPlatformAdapter('darwin').name, 'macos');
+  assert.strictEqual(getPlatformAdapter('win32').npxCommand, 'npx.cmd');
+  assert.strictEqual(getPlatformAdapter('darwin').npxCommand, 'npx');
+});
+
+function listen(server, port) {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve(server.address().port));
+  });
+}
+
+(async () => {
+  if (process.platform === 'linux' && fs.existsSync('/proc/net/tcp')) {
+    console.log('\n📋 Linux port lookup');
+    // ss and lsof stand-ins that leave a mark when they are run
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-fake-ss-'));
+    const marker = path.join(binDir, 'called');
+    for (const tool of ['ss', 'lsof']) {
+      fs.writeFileSync(path.join(binDir, tool), `#!/bin/sh\necho ${tool} >> "${marker}"\nexit 1\n`, { mode: 0o755 });
+    }
+    const originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+
+    const server = net.createServer();
+    try {
+      const port = await listen(server, 0);
+      assert.strictEqual(await linuxPlatform.findPidOnPort(port), process.pid);
+      await new Promise(resolve => server.close(resolve));
+      assert.strictEqual(await linuxPlatform.findPidOnPort(port), null);
+      assert.strictEqual(fs.existsSync(marker), false, 'ss or lsof was run although /proc was readable');
+      console.log('   ✅ answers from /proc alone, also when the port is free');
+      passed++;
+    } catch (error) {
+      console.log(`   ❌ answers from /proc alone, also when the port is free: ${error.message}`);
+      failed++;
+    } finally {
+      server.close();
+      process.env.PATH = originalPath;
+      fs.rmSync(binDir, { recursive: true, force: true });
+    }
+  }
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
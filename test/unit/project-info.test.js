@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for project info and the read-video-jsx tool
+ * Covers file listing, health checks, the collected snapshot and the studio binding of an earlier session
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const projectInfoModule = path.join(__dirname, '..', '..', 'build', 'project-info.js');
+const toolsModule = path.join(__dirname, '..', '..', 'build', 'tools.js');
+
+console.log('🧪 Project Info Unit Tests\n');
+
+if (!fs.existsSync(projectInfoModule) || !fs.existsSync(toolsModule)) {
+  console.log('❌ Project info not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the assets and projects roots must be set before loading the modules
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-project-info-'));
+const projectsDir = path.join(root, 'projects');
+process.env.REMOTION_ASSETS_DIR = root;
+process.env.ROUGHCUT_PROJECTS_DIR = projectsDir;
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+
+const { listProjectFiles, toProjectRelative, checkProjectHealth, formatProjectHealth, collectProjectInfo } = require(projectInfoModule);
+const { handleToolCall } = require(toolsModule);
+const { STUDIO_RECORD_FILE } = require(path.join(__dirname, '..', '..', 'build', 'studio-supervisor.js'));
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const MAIN = { id: 'Main', component: 'VideoComposition', durationInFrames: 300, fps: 30, width: 1920, height: 1080 };
+const VERTICAL = { id: 'Vertical', component: 'VerticalComposition', durationInFrames: 90, fps: 30, width: 1080, height: 1920 };
+
+function writeFile(projectPath, file, content) {
+  fs.mkdirSync(path.dirname(path.join(projectPath, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectPath, file), content);
+}
+
+function createProject(name, { installed = false } = {}) {
+  const projectPath = path.join(projectsDir, name);
+  writeFile(projectPath, 'package.json', JSON.stringify({ name, dependencies: { remotion: '4.0.340' } }));
+  writeFile(projectPath, 'rough-cut.project.json', JSON.stringify({ version: 1, compositions: [MAIN, VERTICAL] }));
+  writeFile(projectPath, 'src/index.ts', 'export {};\n');
+  writeFile(projectPath, 'src/Root.tsx', 'export {};\n');
+  writeFile(projectPath, 'src/VideoComposition.tsx', 'export default () => null; // main\n');
+  writeFile(projectPath, 'src/VerticalComposition.tsx', 'export default () => null; // vertical\n');
+  if (installed) {
+    writeFile(projectPath, 'node_modules/remotion/package.json', JSON.stringify({ name: 'remotion', version: '4.0.341' }));
+  }
+  return projectPath;
+}
+
+function listen() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+(async () => {
+  console.log('📋 Project files');
+  await test('lists files recursively, sorted, without dotfiles and node_modules', async () => {
+    const projectPath = createProject('files', { installed: true });
+    writeFile(projectPath, '.roughcut/history/1.json', '{}');
+    writeFile(projectPath, 'src/.DS_Store', '');
+    writeFile(projectPath, 'src/scenes/Intro.tsx', '');
+    assert.deepStrictEqual(await listProjectFiles(path.join(projectPath, 'src'), 'src/'), [
+      'src/Root.tsx', 'src/VerticalComposition.tsx', 'src/VideoComposition.tsx', 'src/index.ts', 'src/scenes/Intro.tsx'
+    ]);
+    assert.ok(!(await listProjectFiles(projectPath)).some(file => file.startsWith('node_modules/') || file.startsWith('.roughcut/')));
+    assert.deepStrictEqual(await listProjectFiles(path.join(projectPath, 'missing')), []);
+    assert.strictEqual(toProjectRelative(projectPath, path.join(projectPath, 'src', 'scenes', 'Intro.tsx')), 'src/scenes/Intro.tsx');
+  });
+
+  console.log('\n📋 Health');
+  await test('reports ready, needs-install and incomplete projects', async () => {
+    assert.deepStrictEqual(await checkProjectHealth(createProject('ready', { installed: true })), { status: 'ready', missing: [], problems: [] });
+
+    const fresh = await checkProjectHealth(createProject('fresh'));
+    assert.strictEqual(fresh.status, 'needs-install');
+    assert.strictEqual(formatProjectHealth(fresh), 'Needs install - run install-dependencies');
+
+    const broken = createProject('broken', { installed: true });
+    fs.rmSync(path.join(broken, 'src', 'index.ts'));
+    fs.rmSync(path.join(broken, 'src', 'VerticalComposition.tsx'));
+    fs.writeFileSync(path.join(broken, 'package.json'), '{');
+    writeFile(broken, '.roughcut/staging/src/Root.tsx', '');
+    const health = await checkProjectHealth(broken);
+    assert.deepStrictEqual(health.missing, ['src/index.ts', 'src/VerticalComposition.tsx']);
+    assert.strictEqual(health.problems.length, 2);
+    assert.strictEqual(formatProjectHealth(health),
+      'Incomplete - missing src/index.ts, src/VerticalComposition.tsx; package.json is not valid JSON; An interrupted write left 1 staged change(s) in .roughcut/staging');
+  });
+
+  console.log('\n📋 Project snapshot');
+  await test('collects versions, compositions, renders and settings source', async () => {
+    const projectPath = createProject('snapshot', { installed: true });
+    writeFile(projectPath, 'out/Main.mp4', 'video');
+    writeFile(projectPath, 'out/stills/Main-0.png', 'png');
+
+    const info = await collectProjectInfo('snapshot', projectPath);
+    assert.deepStrictEqual(info.remotion, { declared: '4.0.340', installed: '4.0.341' });
+    assert.strictEqual(info.dependenciesInstalled, true);
+    assert.strictEqual(info.health.status, 'ready');
+    assert.strictEqual(info.settingsSource, 'rough-cut.project.json');
+    assert.deepStrictEqual(info.compositions.map(composition => [composition.id, composition.componentFile]), [
+      ['Main', 'src/VideoComposition.tsx'],
+      ['Vertical', 'src/VerticalComposition.tsx']
+    ]);
+    assert.deepStrictEqual(info.renders.map(render => [render.file, render.sizeBytes]), [['out/Main.mp4', 5], ['out/stills/Main-0.png', 3]]);
+    assert.deepStrictEqual(info.renderJobs, []);
+    assert.strictEqual(info.studio, null);
+    assert.ok(!Number.isNaN(Date.parse(info.lastModified)));
+
+    await assert.rejects(collectProjectInfo('missing', path.join(projectsDir, 'missing')), /Project 'missing' not found/);
+  });
+
+  console.log('\n📋 read-video-jsx');
+  await test('returns the snapshot and the source of the first or the requested composition', async () => {
+    createProject('reader');
+    const first = await handleToolCall('read-video-jsx', { project: 'reader' });
+    const info = JSON.parse(first.content[0].text);
+    assert.strictEqual(info.project, 'reader');
+    assert.strictEqual(info.file, 'src/VideoComposition.tsx');
+    assert.strictEqual(info.compositionId, 'Main');
+    assert.strictEqual(first.content[1].text, 'export default () => null; // main\n');
+
+    const vertical = await handleToolCall('read-video-jsx', { project: 'reader', compositionId: 'Vertical' });
+    assert.strictEqual(JSON.parse(vertical.content[0].text).file, 'src/VerticalComposition.tsx');
+    assert.strictEqual(vertical.content[1].text, 'export default () => null; // vertical\n');
+  });
+
+  await test('reports unknown compositions, missing files and missing projects', async () => {
+    const projectPath = createProject('gaps');
+    assert.match((await handleToolCall('read-video-jsx', { project: 'gaps', compositionId: 'Square' })).content[0].text, /^❌ Failed to read video JSX: .*Square/);
+    fs.rmSync(path.join(projectPath, 'src', 'VideoComposition.tsx'));
+    assert.strictEqual((await handleToolCall('read-video-jsx', { project: 'gaps' })).content[0].text, "❌ Failed to read video JSX: src/VideoComposition.tsx not found in project 'gaps'");
+    assert.strictEqual((await handleToolCall('read-video-jsx', { project: 'nowhere' })).content[0].text, "❌ Failed to read video JSX: Project 'nowhere' not found");
+  });
+
+  await test('binds a studio recorded by an earlier session while it still listens', async () => {
+    const projectPath = createProject('bound');
+    const server = await listen();
+    const { port } = server.address();
+    const record = { project: 'bound', port, pid: null, listenerPid: process.pid, url: `http://localhost:${port}`, startedAt: '2025-01-01T00:00:00.000Z' };
+    writeFile(projectPath, STUDIO_RECORD_FILE, JSON.stringify(record));
+    try {
+      const info = JSON.parse((await handleToolCall('read-video-jsx', { project: 'bound' })).content[0].text);
+      assert.deepStrictEqual(info.studio, { port, pid: process.pid, url: record.url, startedAt: record.startedAt, managed: false });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    // Nothing listens any more - the stale record is dropped
+    const info = JSON.parse((await handleToolCall('read-video-jsx', { project: 'bound' })).content[0].text);
+    assert.strictEqual(info.studio, null);
+    assert.strictEqual(fs.existsSync(path.join(projectPath, STUDIO_RECORD_FILE)), false);
+  });
+
+  fs.rmSync(root, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for project name validation
+ * Every project tool resolves its directory through resolveProjectDir, so each rule is checked here
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const projectNameModule = path.join(__dirname, '..', '..', 'build', 'utils', 'project-name.js');
+
+console.log('🧪 Project Name Unit Tests\n');
+
+if (!fs.existsSync(projectNameModule)) {
+  console.log('❌ Project name validation not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { resolveProjectDir, ProjectNameError, MAX_PROJECT_NAME_LENGTH } = require(projectNameModule);
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const projectsDir = path.resolve('projects');
+
+function assertRejected(name, code) {
+  assert.throws(() => resolveProjectDir(projectsDir, name), error => {
+    assert.ok(error instanceof ProjectNameError, `expected a ProjectNameError for ${JSON.stringify(name)}`);
+    assert.strictEqual(error.code, code, `code for ${JSON.stringify(name)}`);
+    return true;
+  });
+}
+
+test('resolves valid names inside the projects directory', () => {
+  assert.strictEqual(resolveProjectDir(projectsDir, 'demo'), path.join(projectsDir, 'demo'));
+  assert.strictEqual(resolveProjectDir(projectsDir, 'My_Video-2.final'), path.join(projectsDir, 'My_Video-2.final'));
+  assert.strictEqual(resolveProjectDir(projectsDir, 'a'.repeat(MAX_PROJECT_NAME_LENGTH)), path.join(projectsDir, 'a'.repeat(MAX_PROJECT_NAME_LENGTH)));
+});
+
+test('requires a name', () => {
+  assertRejected('', 'MISSING');
+  assertRejected(undefined, 'MISSING');
+  assertRejected(42, 'MISSING');
+});
+
+test('rejects names over the length limit', () => {
+  assertRejected('a'.repeat(MAX_PROJECT_NAME_LENGTH + 1), 'TOO_LONG');
+  assert.throws(() => resolveProjectDir(projectsDir, 'a'.repeat(65)), /at most 64 characters \(got 65\)/);
+});
+
+test('rejects reserved Windows device names with or without an extension', () => {
+  for (const name of ['con', 'CON', 'prn', 'aux', 'nul', 'com1', 'LPT9', 'com1.txt', 'nul.tar.gz']) {
+    assertRejected(name, 'RESERVED_NAME');
+  }
+  assert.throws(() => resolveProjectDir(projectsDir, 'com1.txt'), /'COM1' is a reserved device name/);
+  assert.doesNotThrow(() => resolveProjectDir(projectsDir, 'console'));
+  assert.doesNotThrow(() => resolveProjectDir(projectsDir, 'com10'));
+});
+
+test('rejects paths and traversal', () => {
+  for (const name of ['../demo', '..', 'a/b', 'a\\b', '/tmp/demo', 'C:demo', 'C:\\demo', 'demo..old']) {
+    assertRejected(name, 'PATH_TRAVERSAL');
+  }
+});
+
+test('rejects leading dots, trailing dots and whitespace', () => {
+  for (const name of ['.hidden', '.', '-demo', '_demo', 'demo.', ' demo', 'demo ', 'my demo', 'demo\t', 'demo\n']) {
+    assertRejected(name, 'INVALID_CHARACTERS');
+  }
+  assert.throws(() => resolveProjectDir(projectsDir, 'demo.'), /must not end with a dot/);
+});
+
+test('rejects characters outside the allowed set', () => {
+  for (const name of ['demo$', 'demo*', 'demo:1', 'démo', 'demo?', 'a|b']) {
+    assertRejected(name, 'INVALID_CHARACTERS');
+  }
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for transactional project writes and project health
+ * Covers commit, rollback on a failed step, atomic project creation and completeness checks
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const transactionModule = path.join(__dirname, '..', '..', 'build', 'project-transaction.js');
+const projectInfoModule = path.join(__dirname, '..', '..', 'build', 'project-info.js');
+
+console.log('🧪 Project Transaction Unit Tests\n');
+
+if (!fs.existsSync(transactionModule)) {
+  console.log('❌ Project transactions not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { ProjectTransaction, createProjectAtomically } = require(transactionModule);
+const { checkProjectHealth } = require(projectInfoModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-transaction-'));
+  const projectPath = path.join(root, 'demo');
+  fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+  fs.writeFileSync(path.join(projectPath, 'src', 'VideoComposition.tsx'), 'export default 1;\n');
+  try {
+    await fn(projectPath, root);
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+}
+
+function read(projectPath, file) {
+  return fs.readFileSync(path.join(projectPath, file), 'utf-8');
+}
+
+(async () => {
+  await test('commits writes and removals and cleans up staging', async projectPath => {
+    await new ProjectTransaction(projectPath)
+      .write('src/Second.tsx', 'export default 2;\n')
+      .write('src/VideoComposition.tsx', 'export default 3;\n')
+      .remove('src/Missing.tsx')
+      .commit();
+    assert.strictEqual(read(projectPath, 'src/Second.tsx'), 'export default 2;\n');
+    assert.strictEqual(read(projectPath, 'src/VideoComposition.tsx'), 'export default 3;\n');
+    assert.ok(!fs.existsSync(path.join(projectPath, '.roughcut', 'staging')));
+  });
+
+  await test('rolls back every file when one step fails', async projectPath => {
+    const transaction = new ProjectTransaction(projectPath)
+      .write('src/New.tsx', 'new\n')
+      .write('src/VideoComposition.tsx', 'changed\n')
+      .write('src/VideoComposition.tsx/child.tsx', 'cannot exist\n');
+    await assert.rejects(transaction.commit());
+    assert.strictEqual(read(projectPath, 'src/VideoComposition.tsx'), 'export default 1;\n');
+    assert.ok(!fs.existsSync(path.join(projectPath, 'src', 'New.tsx')));
+    assert.ok(!fs.existsSync(path.join(projectPath, '.roughcut', 'staging')));
+  });
+
+  await test('rejects paths outside the project', async projectPath => {
+    assert.throws(() => new ProjectTransaction(projectPath).write('../escape.txt', 'x'), /Invalid project file path/);
+    assert.throws(() => new ProjectTransaction(projectPath).remove(path.resolve(projectPath, 'x')), /Invalid project file path/);
+  });
+
+  await test('creates a project only when the build succeeds', async (projectPath, root) => {
+    const target = path.join(root, 'fresh');
+    await assert.rejects(createProjectAtomically(target, async stagingPath => {
+      fs.writeFileSync(path.join(stagingPath, 'package.json'), '{}');
+      throw new Error('npm install timed out');
+    }), /timed out/);
+    assert.deepStrictEqual(fs.readdirSync(root), ['demo']);
+
+    await createProjectAtomically(target, async stagingPath => {
+      fs.writeFileSync(path.join(stagingPath, 'package.json'), '{}');
+    });
+    assert.strictEqual(read(target, 'package.json'), '{}');
+    await assert.rejects(createProjectAtomically(projectPath, async () => {}), /already exists/);
+  });
+
+  await test('reports what a project is missing', async projectPath => {
+    let health = await checkProjectHealth(projectPath);
+    assert.strictEqual(health.status, 'incomplete');
+    assert.deepStrictEqual(health.missing, ['package.json', 'src/index.ts', 'src/Root.tsx']);
+
+    fs.writeFileSync(path.join(projectPath, 'package.json'), '{}');
+    fs.writeFileSync(path.join(projectPath, 'src', 'index.ts'), '');
+    fs.writeFileSync(path.join(projectPath, 'rough-cut.project.json'), JSON.stringify({
+      version: 1,
+      compositions: [{ id: 'Main', component: 'VideoComposition', durationInFrames: 30, fps: 30, width: 1920, height: 1080 }]
+    }));
+    fs.writeFileSync(path.join(projectPath, 'src', 'Root.tsx'), '');
+    health = await checkProjectHealth(projectPath);
+    assert.deepStrictEqual(health, { status: 'needs-install', missing: [], problems: [] });
+
+    fs.mkdirSync(path.join(projectPath, 'node_modules'));
+    assert.strictEqual((await checkProjectHealth(projectPath)).status, 'ready');
+
+    fs.rmSync(path.join(projectPath, 'src', 'VideoComposition.tsx'));
+    fs.mkdirSync(path.join(projectPath, '.roughcut', 'staging', 'leftover'), { recursive: true });
+    health = await checkProjectHealth(projectPath);
+    assert.deepStrictEqual(health.missing, ['src/VideoComposition.tsx']);
+    assert.match(health.problems[0], /interrupted write/);
+  });
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
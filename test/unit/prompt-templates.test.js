@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the prompt template library
+ * Covers the {{ }} expression language, user template parsing and template selection
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const buildDir = path.join(__dirname, '..', '..', 'build', 'prompt-templates');
+
+console.log('🧪 Prompt Template Unit Tests\n');
+
+if (!fs.existsSync(path.join(buildDir, 'index.js'))) {
+  console.log('❌ Prompt templates not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { evaluateExpression, formatTemplateValue } = require(path.join(buildDir, 'expression.js'));
+const { parsePromptTemplateFile, selectPromptTemplate, renderPromptTemplate } = require(path.join(buildDir, 'index.js'));
+const { BUILTIN_PROMPT_TEMPLATES } = require(path.join(buildDir, 'builtin.js'));
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const BUILTINS = BUILTIN_PROMPT_TEMPLATES.map(template => ({ ...template, source: 'built-in' }));
+const PARAMS = { prompt: 'bouncing ball', style: 'professional', durationSeconds: 6, fps: 30, width: 1920, height: 1080 };
+
+console.log('📋 Expressions');
+test('evaluates arithmetic with precedence and parentheses', () => {
+  assert.strictEqual(evaluateExpression('2 + 3 * 4', {}), 14);
+  assert.strictEqual(evaluateExpression('(2 + 3) * 4', {}), 20);
+  assert.strictEqual(evaluateExpression('-frames / 2', { frames: 180 }), -90);
+});
+test('calls the helper functions', () => {
+  assert.strictEqual(evaluateExpression('round(frames * 0.15)', { frames: 180 }), 27);
+  assert.strictEqual(evaluateExpression('clamp(floor(seconds / 3), 3, 8)', { seconds: 30 }), 8);
+  assert.strictEqual(evaluateExpression('fixed(seconds * 0.2, 1)', { seconds: 6 }), '1.2');
+});
+test('returns string variables unchanged', () => {
+  assert.strictEqual(evaluateExpression('primaryColor', { primaryColor: '#ff0066' }), '#ff0066');
+});
+test('rejects unknown names and stray tokens', () => {
+  assert.throws(() => evaluateExpression('nope', {}), /unknown variable 'nope'/);
+  assert.throws(() => evaluateExpression('exit(1)', {}), /unknown function 'exit'/);
+  assert.throws(() => evaluateExpression('1 +', {}), /unexpected end/);
+  assert.throws(() => evaluateExpression('process.exit', {}), /unexpected/);
+});
+test('never resolves names through the object prototype', () => {
+  assert.throws(() => evaluateExpression('constructor', {}), /unknown variable 'constructor'/);
+  assert.throws(() => evaluateExpression('toString', { frames: 1 }), /unknown variable 'toString'/);
+  assert.throws(() => evaluateExpression('constructor(1)', {}), /unknown function 'constructor'/);
+  assert.throws(() => renderPromptTemplate({ ...BUILTINS[0], body: 'Use {{ toString }}' }, PARAMS), /unknown variable 'toString'/);
+});
+test('formats numbers for prompt text', () => {
+  assert.strictEqual(formatTemplateValue(27), '27');
+  assert.strictEqual(formatTemplateValue(1 / 3), '0.33');
+});
+
+console.log('\n📋 Templates');
+test('parses Markdown front matter with variables', () => {
+  const template = parsePromptTemplateFile('/tmp/product-launch.md', `---
+name: Product launch
+keywords: product, Launch
+variables.heroFrames: round(frames * 0.3)
+---
+Hero until {{heroFrames}}`);
+  assert.strictEqual(template.id, 'product-launch');
+  assert.deepStrictEqual(template.keywords, ['product', 'launch']);
+  assert.deepStrictEqual(template.variables, { heroFrames: 'round(frames * 0.3)' });
+  assert.strictEqual(renderPromptTemplate(template, PARAMS), 'Hero until 54');
+});
+test('parses JSON templates with a body array', () => {
+  const template = parsePromptTemplateFile('/tmp/a.json', JSON.stringify({ id: 'promo', body: ['Line {{fps}}', 'Two'] }));
+  assert.strictEqual(renderPromptTemplate(template, PARAMS), 'Line 30\nTwo');
+});
+test('rejects invalid ids', () => {
+  assert.throws(() => parsePromptTemplateFile('/tmp/a.json', '{"id":"../x","body":"x"}'), /invalid template id/);
+});
+test('selects by keywords and falls back to generic', () => {
+  assert.strictEqual(selectPromptTemplate(BUILTINS, 'a bouncing ball').id, 'bouncing-ball');
+  assert.strictEqual(selectPromptTemplate(BUILTINS, 'context menu').id, 'generic');
+  assert.strictEqual(selectPromptTemplate(BUILTINS, 'anything', 'logo-reveal').id, 'logo-reveal');
+  assert.throws(() => selectPromptTemplate(BUILTINS, 'x', 'missing'), /Unknown prompt template/);
+});
+test('every built-in template renders without leftovers', () => {
+  for (const template of BUILTINS) {
+    const text = renderPromptTemplate(template, { ...PARAMS, brandColors: { primary: '#ff0066' } });
+    assert.ok(!/undefined|NaN|\{\{/.test(text), `${template.id} has unresolved values`);
+  }
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the MCP prompts
+ * Covers the prompt list, argument checks and how arguments end up in the rendered prompt
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const promptsModule = path.join(__dirname, '..', '..', 'build', 'prompts.js');
+
+console.log('🧪 Prompt Unit Tests\n');
+
+if (!fs.existsSync(promptsModule)) {
+  console.log('❌ Prompts not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the defaults must be set before loading the module
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-prompts-'));
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+process.env.ROUGHCUT_DEFAULT_FPS = '30';
+process.env.ROUGHCUT_DEFAULT_WIDTH = '1920';
+process.env.ROUGHCUT_DEFAULT_HEIGHT = '1080';
+
+let prompts;
+try {
+  prompts = require(promptsModule);
+} catch (error) {
+  // The MCP SDK is ESM-only; Node versions without require(esm) cannot load the CommonJS build
+  if (error.code !== 'ERR_REQUIRE_ESM') throw error;
+  console.log(`⚠️  Skipping: Node ${process.version} cannot load the ESM-only MCP SDK from the CommonJS build`);
+  fs.rmSync(root, { recursive: true, force: true });
+  process.exit(0);
+}
+const { listPrompts, getPrompt } = prompts;
+
+// JSON-RPC "Invalid params"
+const INVALID_PARAMS = -32602;
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const promptText = (name, args) => getPrompt(name, args).messages[0].content.text;
+
+console.log('📋 prompts/list');
+test('lists every prompt with its arguments', () => {
+  const listed = listPrompts();
+  assert.deepStrictEqual(listed.map(prompt => prompt.name), ['create-title-card', 'make-product-explainer', 'convert-script-to-scenes', 'fix-studio-error']);
+  for (const prompt of listed) {
+    assert.ok(prompt.description, prompt.name);
+    assert.ok(prompt.arguments.every(argument => argument.name && argument.description), prompt.name);
+  }
+  const required = Object.fromEntries(listed.map(prompt => [prompt.name, prompt.arguments.filter(argument => argument.required).map(argument => argument.name)]));
+  assert.deepStrictEqual(required, {
+    'create-title-card': ['title'],
+    'make-product-explainer': ['product'],
+    'convert-script-to-scenes': ['script'],
+    'fix-studio-error': ['project', 'error']
+  });
+});
+
+console.log('\n📋 prompts/get');
+test('rejects an unknown prompt name', () => {
+  assert.throws(() => getPrompt('make-coffee'), error => {
+    assert.strictEqual(error.code, INVALID_PARAMS);
+    assert.match(error.message, /Unknown prompt 'make-coffee' \(available: create-title-card, make-product-explainer/);
+    return true;
+  });
+});
+test('rejects missing or blank required arguments', () => {
+  assert.throws(() => getPrompt('create-title-card'), error => {
+    assert.strictEqual(error.code, INVALID_PARAMS);
+    assert.match(error.message, /Prompt 'create-title-card' requires: title/);
+    return true;
+  });
+  assert.throws(() => getPrompt('fix-studio-error', { project: 'demo', error: '   ' }), /requires: error$/);
+  assert.throws(() => getPrompt('fix-studio-error', {}), /requires: project, error$/);
+});
+test('returns one user message with the prompt description', () => {
+  const result = getPrompt('create-title-card', { title: 'Launch Day' });
+  assert.strictEqual(result.description, listPrompts()[0].description);
+  assert.strictEqual(result.messages.length, 1);
+  assert.strictEqual(result.messages[0].role, 'user');
+  assert.strictEqual(result.messages[0].content.type, 'text');
+});
+test('substitutes arguments and falls back to defaults', () => {
+  const text = promptText('create-title-card', { title: 'Launch Day', subtitle: 'March 3', durationSeconds: '4', aspectRatio: '9:16' });
+  assert.match(text, /Title: "Launch Day"\nSubtitle: "March 3"/);
+  assert.match(text, /Duration: 4 seconds at 30fps \(durationInFrames=120\)/);
+  assert.match(text, /Size: 1080x1920/);
+  assert.match(text, /Style: professional/);
+
+  const defaults = promptText('create-title-card', { title: 'Launch Day' });
+  assert.ok(!defaults.includes('Subtitle:'));
+  assert.match(defaults, /Duration: 5 seconds at 30fps \(durationInFrames=150\)/);
+  assert.match(defaults, /Size: 1920x1080/);
+});
+test('numbers one scene per listed feature', () => {
+  const text = promptText('make-product-explainer', { product: 'Rough Cut', features: 'Fast renders, Live preview\nUndo', callToAction: 'example.com' });
+  assert.match(text, /3\. Feature: Fast renders\n4\. Feature: Live preview\n5\. Feature: Undo\n6\. Call to action: example\.com/);
+});
+test('times a script from its word count', () => {
+  const script = Array(300).fill('word').join(' ');
+  const text = promptText('convert-script-to-scenes', { script, wordsPerMinute: '150' });
+  assert.match(text, /The script has 300 words - at 150 words per minute that is about 120 seconds at 30fps \(durationInFrames=3600\)/);
+  assert.match(text, /Create a new project with create-video/);
+  assert.match(promptText('convert-script-to-scenes', { script, project: 'demo' }), /Update project "demo"/);
+});
+test('includes the error and the authoring rules', () => {
+  const text = promptText('fix-studio-error', { project: 'demo', error: '  TypeError: inputRange must be strictly monotonically increasing  ' });
+  assert.match(text, /"""\nTypeError: inputRange must be strictly monotonically increasing\n"""/);
+  assert.match(text, /Run lint-project for "demo"/);
+  assert.match(text, /REMOTION AUTHORING RULES/);
+});
+
+fs.rmSync(root, { recursive: true, force: true });
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the render job queue
+ * Covers loading persisted jobs, the concurrency limit, job file writes, pruning, output split across chunks
+ * and cancelling a project's renders when it is deleted
+ * A fake npx on PATH stands in for "remotion render" and "remotion ffprobe"
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const renderJobsModule = path.join(__dirname, '..', '..', 'build', 'render-jobs.js');
+const toolsModule = path.join(__dirname, '..', '..', 'build', 'tools.js');
+
+console.log('🧪 Render Job Queue Unit Tests\n');
+
+if (!fs.existsSync(renderJobsModule) || !fs.existsSync(toolsModule)) {
+  console.log('❌ Render job queue not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the assets root and render limit must be set before loading the module
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-render-jobs-'));
+process.env.REMOTION_ASSETS_DIR = root;
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+process.env.REMOTION_MAX_RENDER_JOBS = '2';
+
+const { RenderQueue, getRenderJobsDir, getRenderQueue } = require(renderJobsModule);
+const { handleToolCall } = require(toolsModule);
+
+const FAKE_REMOTION = `#!/usr/bin/env node
+const fs = require('fs');
+const [command, ...args] = process.argv.slice(3);
+if (command === 'ffprobe') {
+  console.log('1.5');
+  process.exit(0);
+}
+// remotion render src/index.ts <composition> <output> ...
+// The first line arrives in two chunks and the last one has no newline
+process.stdout.write('Rendered 5');
+setTimeout(() => process.stdout.write('/10, time remaining: 1s\\n'), 100);
+setTimeout(() => {
+  process.stdout.write('Rendered 10/10');
+  fs.writeFileSync(args[2], 'video');
+}, 300);
+`;
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  fs.rmSync(getRenderJobsDir(), { recursive: true, force: true });
+  fs.mkdirSync(getRenderJobsDir(), { recursive: true });
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+function delay(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function waitFor(condition, timeoutMs = 20000) {
+  const started = Date.now();
+  while (!await condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out');
+    await delay(20);
+  }
+}
+
+function writeJob(id, fields) {
+  const job = {
+    id,
+    project: 'demo',
+    projectPath: path.join(root, 'demo'),
+    options: {},
+    outputPath: path.join(root, 'demo', 'out', 'Main.mp4'),
+    createdAt: '2025-01-01T00:00:00.000Z',
+    framesRendered: 0,
+    framesEncoded: 0,
+    totalFrames: null,
+    etaSeconds: null,
+    logTail: [],
+    ...fields
+  };
+  fs.writeFileSync(path.join(getRenderJobsDir(), `${id}.json`), JSON.stringify(job));
+}
+
+(async () => {
+  await test('concurrent callers all see the persisted jobs', async () => {
+    writeJob('done', { status: 'completed', finishedAt: '2025-01-01T00:01:00.000Z' });
+    writeJob('interrupted', { status: 'running', startedAt: '2025-01-01T00:00:10.000Z' });
+
+    const queue = new RenderQueue();
+    const [listed, job] = await Promise.all([queue.list(), queue.get('done')]);
+    assert.deepStrictEqual(listed.map(entry => entry.id).sort(), ['done', 'interrupted']);
+    assert.strictEqual(job.status, 'completed');
+
+    const interrupted = await queue.get('interrupted');
+    assert.strictEqual(interrupted.status, 'failed');
+    assert.match(interrupted.error, /interrupted by server restart/);
+  });
+
+  await test('prunes the oldest finished jobs and leftover temp files on load', async () => {
+    for (let i = 0; i < 55; i++) {
+      writeJob(`done-${String(i).padStart(2, '0')}`, { status: 'completed', finishedAt: new Date(Date.UTC(2025, 0, 1, 0, i)).toISOString() });
+    }
+    fs.writeFileSync(path.join(getRenderJobsDir(), 'done-00.json.tmp'), '{"id":');
+
+    const queue = new RenderQueue();
+    const ids = (await queue.list()).map(job => job.id);
+    assert.strictEqual(ids.length, 50);
+    assert.ok(ids.includes('done-54') && ids.includes('done-05') && !ids.includes('done-04'));
+    await waitFor(() => fs.readdirSync(getRenderJobsDir()).filter(file => file.startsWith('done-')).length === 50);
+    assert.deepStrictEqual(fs.readdirSync(getRenderJobsDir()).filter(file => file.endsWith('.tmp')), []);
+  });
+
+  await test('fails queued jobs of deleted projects on load instead of starting them', async () => {
+    writeJob('orphan', { status: 'queued', project: 'gone', projectPath: path.join(root, 'projects', 'gone') });
+
+    const job = await new RenderQueue().get('orphan');
+    assert.strictEqual(job.status, 'failed');
+    assert.strictEqual(job.error, "Project 'gone' no longer exists");
+    await waitFor(() => JSON.parse(fs.readFileSync(path.join(getRenderJobsDir(), 'orphan.json'), 'utf8')).status === 'failed');
+  });
+
+  if (process.platform === 'win32') {
+    console.log('   ⚠️  Skipping render tests on Windows (fake npx is a shebang script)');
+  } else {
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-fake-npx-'));
+    fs.writeFileSync(path.join(binDir, 'npx'), FAKE_REMOTION, { mode: 0o755 });
+    process.env.PATH = `${binDir}${path.delimiter}${process.env.PATH}`;
+
+    await test('runs no more renders at once than the limit allows', async () => {
+      const projectPath = path.join(root, 'demo');
+      fs.mkdirSync(projectPath, { recursive: true });
+      const queue = new RenderQueue();
+      const jobs = [];
+      for (let i = 0; i < 3; i++) {
+        jobs.push(await queue.enqueue('demo', projectPath, { outputPath: `out/take-${i}.mp4` }));
+      }
+      assert.deepStrictEqual(jobs.map(job => job.status), ['running', 'running', 'queued']);
+
+      let mostRunning = 0;
+      await waitFor(async () => {
+        const statuses = (await queue.list()).map(job => job.status);
+        mostRunning = Math.max(mostRunning, statuses.filter(status => status === 'running').length);
+        return statuses.every(status => status === 'completed' || status === 'failed');
+      });
+      assert.strictEqual(mostRunning, 2);
+
+      for (const job of await queue.list()) {
+        assert.strictEqual(job.status, 'completed', job.error);
+        assert.strictEqual(job.framesRendered, 10);
+        assert.strictEqual(job.result.durationInSeconds, 1.5);
+      }
+      await waitFor(() => fs.readdirSync(getRenderJobsDir()).every(file => file.endsWith('.json')
+        && JSON.parse(fs.readFileSync(path.join(getRenderJobsDir(), file), 'utf8')).status === 'completed'));
+    });
+
+    await test('joins output lines split across chunks and keeps the unterminated last line', async () => {
+      const projectPath = path.join(root, 'demo');
+      fs.mkdirSync(projectPath, { recursive: true });
+      const queue = new RenderQueue();
+      const { id } = await queue.enqueue('demo', projectPath, { outputPath: 'out/split.mp4' });
+      await waitFor(async () => (await queue.get(id)).status !== 'running');
+
+      const job = await queue.get(id);
+      assert.strictEqual(job.status, 'completed', job.error);
+      assert.deepStrictEqual(job.logTail, ['Rendered 5/10, time remaining: 1s', 'Rendered 10/10']);
+      assert.strictEqual(job.framesRendered, 10);
+      assert.strictEqual(job.totalFrames, 10);
+    });
+
+    await test('cancels the queued and running renders of one project only', async () => {
+      const doomed = path.join(root, 'doomed');
+      const kept = path.join(root, 'kept');
+      fs.mkdirSync(doomed, { recursive: true });
+      fs.mkdirSync(kept, { recursive: true });
+      const queue = new RenderQueue();
+      const running = await queue.enqueue('doomed', doomed, { outputPath: 'out/first.mp4' });
+      const other = await queue.enqueue('kept', kept, { outputPath: 'out/other.mp4' });
+      const queued = await queue.enqueue('doomed', doomed, { outputPath: 'out/second.mp4' });
+      assert.deepStrictEqual([running.status, other.status, queued.status], ['running', 'running', 'queued']);
+
+      const cancelled = await queue.cancelProject(doomed);
+      assert.deepStrictEqual(cancelled.map(job => job.id), [queued.id, running.id]);
+      assert.deepStrictEqual([running.status, queued.status], ['cancelled', 'cancelled']);
+      assert.strictEqual(JSON.parse(fs.readFileSync(path.join(getRenderJobsDir(), `${running.id}.json`), 'utf8')).status, 'cancelled');
+      assert.deepStrictEqual(await queue.cancelProject(doomed), []);
+
+      await waitFor(async () => (await queue.get(other.id)).status !== 'running');
+      assert.strictEqual(other.status, 'completed', other.error);
+      assert.strictEqual(fs.existsSync(path.join(doomed, 'out', 'first.mp4')), false);
+      assert.strictEqual(fs.existsSync(path.join(doomed, 'out', 'second.mp4')), false);
+    });
+
+    await test('delete-project cancels the project renders before moving it to the trash', async () => {
+      const projectPath = path.join(root, 'projects', 'trashed');
+      fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+      const job = await getRenderQueue().enqueue('trashed', projectPath, { outputPath: 'out/Main.mp4' });
+      assert.strictEqual(job.status, 'running');
+
+      const result = await handleToolCall('delete-project', { project: 'trashed' });
+      assert.match(result.content[0].text, new RegExp(`^✅ Moved project 'trashed' to the trash\\nCancelled 1 render job\\(s\\): ${job.id}\\n`));
+      assert.strictEqual(job.status, 'cancelled');
+      assert.strictEqual(fs.existsSync(projectPath), false);
+    });
+
+    fs.rmSync(binDir, { recursive: true, force: true });
+  }
+
+  fs.rmSync(root, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for render helpers
+ * Covers option checks, CLI arguments and parsing of captured Remotion CLI output
+ * A fake npx on PATH stands in for "remotion ffprobe", "remotion compositions" and "remotion bundle"
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const renderModule = path.join(__dirname, '..', '..', 'build', 'render.js');
+
+console.log('🧪 Render Helper Unit Tests\n');
+
+if (!fs.existsSync(renderModule)) {
+  console.log('❌ Render helpers not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { parseRenderProgress, parseCompositionsOutput, validateRenderOptions, buildRenderArgs, probeDuration, listCompositions, bundleProject } = require(renderModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+// Captured from `remotion compositions src/index.ts` (colour codes included)
+const COMPOSITIONS_OUTPUT = `
+The following compositions are available:
+
+\u001b[1mMain\u001b[22m           30      1920x1080      300 (10.00 sec)
+Vertical       29.97   1080x1920      90 (3.00 sec)
+Thumb                  1280x720       Still
+`;
+
+// Records its arguments and answers ffprobe, compositions and bundle like the real CLI
+const FAKE_REMOTION = `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.writeFileSync(process.env.FAKE_REMOTION_CALLS, JSON.stringify(args));
+if (process.env.FAKE_REMOTION_FAIL) {
+  console.error('Error: Cannot find module src/index.ts');
+  process.exit(1);
+}
+if (args[1] === 'ffprobe') console.log('2.5');
+if (args[1] === 'compositions') console.log(${JSON.stringify(COMPOSITIONS_OUTPUT)});
+`;
+
+(async () => {
+  console.log('📋 Render options');
+  await test('accepts valid options', () => {
+    assert.deepStrictEqual(validateRenderOptions({}), []);
+    assert.deepStrictEqual(validateRenderOptions({ compositionId: 'Main-2', codec: 'vp9', crf: 30, startFrame: 0, endFrame: 10 }), []);
+  });
+  await test('rejects composition ids that are not plain identifiers', () => {
+    for (const compositionId of ['Main; rm -rf ~', 'Main"', '$(whoami)', '../Main', '']) {
+      assert.match(validateRenderOptions({ compositionId }).join('\n'), /may only contain letters, digits and '-'/, compositionId);
+    }
+  });
+  await test('passes the composition id as a single argument', () => {
+    const args = buildRenderArgs('/tmp/out/Main.mp4', { compositionId: 'Main', crf: 18 });
+    assert.deepStrictEqual(args.slice(0, 5), ['remotion', 'render', 'src/index.ts', 'Main', '/tmp/out/Main.mp4']);
+    assert.ok(args.includes('--crf=18'));
+  });
+
+  console.log('\n📋 Render progress');
+  await test('reads rendering progress with the time remaining', () => {
+    assert.deepStrictEqual(parseRenderProgress('Rendered 45/300, time remaining: 1m 5s'), { stage: 'rendering', frames: 45, totalFrames: 300, etaSeconds: 65 });
+    assert.deepStrictEqual(parseRenderProgress('Rendered 1/9000, time remaining: 1h 2m 3s'), { stage: 'rendering', frames: 1, totalFrames: 9000, etaSeconds: 3723 });
+  });
+  await test('reads encoding progress without an estimate', () => {
+    assert.deepStrictEqual(parseRenderProgress('Encoded 10/300'), { stage: 'encoding', frames: 10, totalFrames: 300, etaSeconds: null });
+  });
+  await test('ignores other output', () => {
+    assert.strictEqual(parseRenderProgress('Bundling 50%'), null);
+    assert.strictEqual(parseRenderProgress(''), null);
+  });
+
+  console.log('\n📋 Composition list');
+  await test('reads every composition from the table', () => {
+    assert.deepStrictEqual(parseCompositionsOutput(COMPOSITIONS_OUTPUT), [
+      { id: 'Main', fps: 30, width: 1920, height: 1080, durationInFrames: 300 },
+      { id: 'Vertical', fps: 29.97, width: 1080, height: 1920, durationInFrames: 90 },
+      { id: 'Thumb', fps: null, width: 1280, height: 720, durationInFrames: 1 }
+    ]);
+  });
+  await test('returns nothing for output without a table', () => {
+    assert.deepStrictEqual(parseCompositionsOutput('Error: No compositions found\n'), []);
+  });
+
+  console.log('\n📋 Remotion CLI calls');
+  if (process.platform === 'win32') {
+    console.log('   ⚠️  Skipping on Windows (fake npx is a shebang script)');
+  } else {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-render-'));
+    const binDir = path.join(root, 'bin');
+    const callsFile = path.join(root, 'calls.json');
+    fs.mkdirSync(binDir);
+    fs.writeFileSync(path.join(binDir, 'npx'), FAKE_REMOTION, { mode: 0o755 });
+    process.env.PATH = `${binDir}${path.delimiter}${process.env.PATH}`;
+    process.env.FAKE_REMOTION_CALLS = callsFile;
+    const lastCall = () => JSON.parse(fs.readFileSync(callsFile, 'utf8'));
+
+    // A file Remotion was allowed to write; a shell would run the command in its name
+    const outputPath = path.join(root, 'out', '$(touch pwned) `touch pwned2`; touch pwned3 ".mp4');
+
+    await test('probes the duration with the output path as a single argument', async () => {
+      assert.strictEqual(await probeDuration(root, outputPath), 2.5);
+      assert.deepStrictEqual(lastCall(), ['remotion', 'ffprobe', '-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', outputPath]);
+      assert.deepStrictEqual(fs.readdirSync(root).filter(file => file.startsWith('pwned')), []);
+    });
+
+    await test('lists compositions and bundles without a shell', async () => {
+      const entryPoint = path.join(root, 'bundle $(touch pwned)');
+      assert.deepStrictEqual((await listCompositions(root, entryPoint)).map(composition => composition.id), ['Main', 'Vertical', 'Thumb']);
+      assert.deepStrictEqual(lastCall(), ['remotion', 'compositions', entryPoint]);
+
+      await bundleProject(root, entryPoint);
+      assert.deepStrictEqual(lastCall(), ['remotion', 'bundle', 'src/index.ts', `--out-dir=${entryPoint}`, '--log=error']);
+      assert.deepStrictEqual(fs.readdirSync(root).filter(file => file.startsWith('pwned')), []);
+    });
+
+    await test('reports stderr of a failed call', async () => {
+      process.env.FAKE_REMOTION_FAIL = '1';
+      try {
+        await assert.rejects(listCompositions(root), /^Error: Could not read compositions: Error: Cannot find module/);
+        await assert.rejects(bundleProject(root, path.join(root, 'bundle')), /^Error: Remotion bundle failed: Error: Cannot find module/);
+        assert.strictEqual(await probeDuration(root, outputPath), null);
+      } finally {
+        delete process.env.FAKE_REMOTION_FAIL;
+      }
+    });
+
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the roughcut:// resource URI scheme
+ * Covers parsing, formatting and rejection of paths that leave the project, and change subscriptions
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const resourcesModule = path.join(__dirname, '..', '..', 'build', 'resources.js');
+
+console.log('🧪 Resource URI Unit Tests\n');
+
+if (!fs.existsSync(resourcesModule)) {
+  console.log('❌ Resources not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the projects root must be set before loading the module
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-resources-'));
+process.env.ROUGHCUT_PROJECTS_DIR = path.join(root, 'projects');
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+
+let resources;
+try {
+  resources = require(resourcesModule);
+} catch (error) {
+  // The MCP SDK is ESM-only; Node versions without require(esm) cannot load the CommonJS build
+  if (error.code !== 'ERR_REQUIRE_ESM') throw error;
+  console.log(`⚠️  Skipping: Node ${process.version} cannot load the ESM-only MCP SDK from the CommonJS build`);
+  fs.rmSync(root, { recursive: true, force: true });
+  process.exit(0);
+}
+const { parseResourceUri, formatResourceUri, ResourceSubscriptions } = resources;
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+test('parses every resource kind', () => {
+  assert.deepStrictEqual(parseResourceUri('roughcut://projects/demo/files/src/Root.tsx'), { kind: 'file', project: 'demo', path: 'src/Root.tsx' });
+  assert.deepStrictEqual(parseResourceUri('roughcut://projects/demo/compositions'), { kind: 'compositions', project: 'demo' });
+  assert.deepStrictEqual(parseResourceUri('roughcut://projects/demo/renders/Main.mp4'), { kind: 'render', project: 'demo', path: 'Main.mp4' });
+  assert.deepStrictEqual(parseResourceUri('roughcut://projects/demo/logs/renders'), { kind: 'render-logs', project: 'demo' });
+});
+test('round-trips encoded paths', () => {
+  const target = { kind: 'render', project: 'demo', path: 'stills/frame 10.png' };
+  const uri = formatResourceUri(target);
+  assert.strictEqual(uri, 'roughcut://projects/demo/renders/stills/frame%2010.png');
+  assert.deepStrictEqual(parseResourceUri(uri), target);
+});
+test('rejects paths that leave the project', () => {
+  for (const uri of [
+    'roughcut://projects/demo/files/../secret',
+    'roughcut://projects/demo/files/src/%2E%2E/x',
+    'roughcut://projects/demo/files/src//x',
+    'roughcut://projects/demo/files/src\\..\\x',
+    'roughcut://projects/demo/files/node_modules/remotion/package.json'
+  ]) {
+    assert.throws(() => parseResourceUri(uri), /invalid path|node_modules/, uri);
+  }
+});
+test('rejects unknown schemes and sections', () => {
+  assert.throws(() => parseResourceUri('file:///etc/passwd'), /Unsupported resource URI/);
+  assert.throws(() => parseResourceUri('roughcut://projects/demo/secrets'), /Unknown resource/);
+  assert.throws(() => parseResourceUri('roughcut://projects/demo/files'), /Unknown resource/);
+  assert.throws(() => parseResourceUri('roughcut://projects/'), /no project name/);
+});
+
+function waitFor(condition, timeoutMs = 5000) {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const poll = setInterval(() => {
+      if (condition()) {
+        clearInterval(poll);
+        resolve();
+      } else if (Date.now() - started > timeoutMs) {
+        clearInterval(poll);
+        reject(new Error('Timed out waiting for a change notification'));
+      }
+    }, 50);
+  });
+}
+
+(async () => {
+  // Record every watch - recursive ones would also cover node_modules
+  const fsExtra = require('fs-extra');
+  const realWatch = fsExtra.watch;
+  const watched = [];
+  fsExtra.watch = (dir, ...rest) => {
+    const watcher = realWatch(dir, ...rest);
+    watched.push({ dir, options: typeof rest[0] === 'object' ? rest[0] : {} });
+    return watcher;
+  };
+
+  const projectPath = path.join(process.env.ROUGHCUT_PROJECTS_DIR, 'demo');
+  fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+  fs.mkdirSync(path.join(projectPath, 'node_modules', 'remotion'), { recursive: true });
+  fs.writeFileSync(path.join(projectPath, 'src', 'Root.tsx'), 'export {};\n');
+  const notified = [];
+  const subscriptions = new ResourceSubscriptions(uri => notified.push(uri));
+  try {
+    await subscriptions.subscribe('roughcut://projects/demo/compositions');
+    await subscriptions.subscribe('roughcut://projects/demo/renders/Main.mp4');
+
+    fs.writeFileSync(path.join(projectPath, 'src', 'Root.tsx'), 'export const changed = 1;\n');
+    await waitFor(() => notified.includes('roughcut://projects/demo/compositions'));
+    assert.deepStrictEqual(watched.filter(entry => entry.options.recursive), []);
+    assert.deepStrictEqual(watched.map(entry => path.relative(projectPath, entry.dir)).sort(), ['', 'src']);
+    console.log('   ✅ watches only the directories behind the subscriptions, never recursively');
+    passed++;
+
+    // out/ and src/scenes did not exist at subscribe time; they are picked up once created
+    await subscriptions.subscribe('roughcut://projects/demo/files/src/scenes/Intro.tsx');
+    fs.mkdirSync(path.join(projectPath, 'out'));
+    fs.mkdirSync(path.join(projectPath, 'src', 'scenes'));
+    await new Promise(resolve => setTimeout(resolve, 300));
+    fs.writeFileSync(path.join(projectPath, 'out', 'Main.mp4'), 'video');
+    fs.writeFileSync(path.join(projectPath, 'src', 'scenes', 'Intro.tsx'), 'export {};\n');
+    await waitFor(() => notified.includes('roughcut://projects/demo/renders/Main.mp4')
+      && notified.includes('roughcut://projects/demo/files/src/scenes/Intro.tsx'));
+    assert.ok(!watched.some(entry => entry.dir.includes('node_modules')));
+    console.log('   ✅ watches directories created after subscribing');
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ project watchers: ${error.message}`);
+    failed++;
+  } finally {
+    subscriptions.close();
+    fsExtra.watch = realWatch;
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
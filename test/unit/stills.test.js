@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for stills and contact sheets
+ * Covers frame picking, the contact sheet grid, option checks and PNG encoding/tiling
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+
+const stillsModule = path.join(__dirname, '..', '..', 'build', 'stills.js');
+const pngModule = path.join(__dirname, '..', '..', 'build', 'utils', 'png.js');
+
+console.log('🧪 Stills Unit Tests\n');
+
+if (!fs.existsSync(stillsModule)) {
+  console.log('❌ Stills not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { pickEvenlySpacedFrames, contactSheetGrid, validateStillOptions } = require(stillsModule);
+const { encodePng, decodePng, tileImages } = require(pngModule);
+
+let passed = 0;
+let failed = 0;
+
+function test(name, fn) {
+  try {
+    fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+function solidImage(width, height, rgba) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return { width, height, data };
+}
+
+function pixel(image, x, y) {
+  const offset = (y * image.width + x) * 4;
+  return [...image.data.subarray(offset, offset + 4)];
+}
+
+test('picks evenly spaced frames including the first and last', () => {
+  assert.deepStrictEqual(pickEvenlySpacedFrames(100, 5), [0, 25, 50, 74, 99]);
+  assert.deepStrictEqual(pickEvenlySpacedFrames(90, 2), [0, 89]);
+});
+
+test('never repeats a frame in short compositions', () => {
+  assert.deepStrictEqual(pickEvenlySpacedFrames(3, 6), [0, 1, 2]);
+  assert.deepStrictEqual(pickEvenlySpacedFrames(1, 4), [0]);
+  assert.deepStrictEqual(pickEvenlySpacedFrames(100, 1), [0]);
+});
+
+test('lays contact sheets out as close to square as possible', () => {
+  assert.deepStrictEqual(contactSheetGrid(2), { columns: 2, rows: 1 });
+  assert.deepStrictEqual(contactSheetGrid(4), { columns: 2, rows: 2 });
+  assert.deepStrictEqual(contactSheetGrid(5), { columns: 3, rows: 2 });
+  assert.deepStrictEqual(contactSheetGrid(12), { columns: 4, rows: 3 });
+});
+
+test('rejects composition ids that are not plain identifiers', () => {
+  assert.deepStrictEqual(validateStillOptions({ compositionId: 'Main-2' }), []);
+  for (const compositionId of ['Main; rm -rf ~', 'Main"', '$(whoami)', '']) {
+    assert.match(validateStillOptions({ compositionId }).join('\n'), /may only contain letters, digits and '-'/);
+  }
+});
+
+test('round-trips an image through PNG encode and decode', () => {
+  const image = { width: 3, height: 2, data: Buffer.from([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+    10, 20, 30, 40, 0, 0, 0, 0, 255, 255, 255, 128
+  ]) };
+  const png = encodePng(image);
+  assert.deepStrictEqual([...png.subarray(0, 8)], [137, 80, 78, 71, 13, 10, 26, 10]);
+  const decoded = decodePng(png);
+  assert.strictEqual(decoded.width, 3);
+  assert.strictEqual(decoded.height, 2);
+  assert.ok(decoded.data.equals(image.data));
+});
+
+test('rejects data that is not a PNG', () => {
+  assert.throws(() => decodePng(Buffer.from('not a png at all')));
+});
+
+test('tiles images into a grid on a black background', () => {
+  const red = solidImage(2, 2, [255, 0, 0, 255]);
+  const blue = solidImage(2, 2, [0, 0, 255, 255]);
+  const sheet = tileImages([red, blue, red], 2, 1);
+  assert.strictEqual(sheet.width, 2 * 2 + 3 * 1);
+  assert.strictEqual(sheet.height, 2 * 2 + 3 * 1);
+  assert.deepStrictEqual(pixel(sheet, 0, 0), [0, 0, 0, 255]);
+  assert.deepStrictEqual(pixel(sheet, 1, 1), [255, 0, 0, 255]);
+  assert.deepStrictEqual(pixel(sheet, 4, 1), [0, 0, 255, 255]);
+  assert.deepStrictEqual(pixel(sheet, 1, 4), [255, 0, 0, 255]);
+  assert.deepStrictEqual(pixel(sheet, 4, 4), [0, 0, 0, 255]);
+  assert.throws(() => tileImages([], 2), /No images to tile/);
+});
+
+console.log(`\n📊 ${passed} passed, ${failed} failed`);
+process.exit(failed === 0 ? 0 : 1);
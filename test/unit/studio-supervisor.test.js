@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the studio supervisor
+ * A fake npx on PATH stands in for "remotion studio": it serves HTTP and prints "Server ready"
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const supervisorModule = path.join(__dirname, '..', '..', 'build', 'studio-supervisor.js');
+const ringBufferModule = path.join(__dirname, '..', '..', 'build', 'utils', 'ring-buffer.js');
+
+console.log('🧪 Studio Supervisor Unit Tests\n');
+
+if (!fs.existsSync(supervisorModule)) {
+  console.log('❌ Studio supervisor not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+const { StudioSupervisor, STUDIO_RECORD_FILE } = require(supervisorModule);
+const { RingBuffer } = require(ringBufferModule);
+
+const FAKE_STUDIO = `#!/usr/bin/env node
+const http = require('http');
+const port = Number(process.argv[process.argv.indexOf('--port') + 1]);
+console.log('Building...');
+if (process.env.FAKE_STUDIO_FAIL) {
+  console.error('Error: Cannot find module remotion');
+  process.exit(1);
+}
+if (process.env.FAKE_STUDIO_IGNORE_TERM) {
+  process.on('SIGTERM', () => console.log('Still bundling, ignoring SIGTERM'));
+}
+http.createServer((req, res) => res.end('<html>remotion</html>')).listen(port, () => {
+  console.log('Server ready - Local: http://localhost:' + port);
+});
+`;
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+(async () => {
+  await test('ring buffer keeps the newest entries in order', async () => {
+    const buffer = new RingBuffer(3);
+    [1, 2, 3, 4, 5].forEach(item => buffer.push(item));
+    assert.deepStrictEqual(buffer.toArray(), [3, 4, 5]);
+    assert.strictEqual(buffer.size, 3);
+    assert.strictEqual(buffer.droppedCount, 2);
+    assert.throws(() => new RingBuffer(0), /positive integer/);
+  });
+
+  if (process.platform === 'win32') {
+    console.log('   ⚠️  Skipping process tests on Windows (fake npx is a shebang script)');
+  } else {
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-fake-npx-'));
+    fs.writeFileSync(path.join(binDir, 'npx'), FAKE_STUDIO, { mode: 0o755 });
+    process.env.PATH = `${binDir}${path.delimiter}${process.env.PATH}`;
+
+    await test('starts a studio, waits until ready and stops it', async () => {
+      const supervisor = new StudioSupervisor();
+      const port = await freePort();
+      const studio = await supervisor.start('demo', binDir, port, 20000);
+      try {
+        assert.strictEqual(studio.status, 'ready');
+        assert.strictEqual(studio.url, `http://localhost:${port}`);
+        assert.ok(studio.readyAt);
+        assert.strictEqual(supervisor.findByPort(port).project, 'demo');
+        assert.ok(supervisor.logs('demo').some(line => line.text.startsWith('Server ready')));
+      } finally {
+        assert.strictEqual(await supervisor.stop('demo'), true);
+      }
+      assert.strictEqual(supervisor.get('demo').status, 'exited');
+      assert.strictEqual(supervisor.findByPort(port), undefined);
+      assert.strictEqual(await supervisor.getRunning('demo'), null);
+      assert.strictEqual(await supervisor.stop('demo'), false);
+    });
+
+    await test('binds a studio to its project only and records it in the project', async () => {
+      const supervisor = new StudioSupervisor();
+      const projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-studio-projects-'));
+      const demoPath = path.join(projectsDir, 'demo');
+      const otherPath = path.join(projectsDir, 'other');
+      fs.mkdirSync(demoPath);
+      fs.mkdirSync(otherPath);
+      const port = await freePort();
+      try {
+        await supervisor.start('demo', demoPath, port, 20000);
+        const record = JSON.parse(fs.readFileSync(path.join(demoPath, STUDIO_RECORD_FILE), 'utf8'));
+        assert.strictEqual(record.project, 'demo');
+        assert.strictEqual(record.port, port);
+        assert.strictEqual((await supervisor.findForProject('demo', demoPath)).managed, true);
+        assert.strictEqual(await supervisor.findForProject('other', otherPath), null);
+        assert.strictEqual(await supervisor.stopForProject('other', otherPath), null);
+
+        // A fresh supervisor (server restart) still finds the studio through the record
+        const restarted = new StudioSupervisor();
+        const studio = await restarted.findForProject('demo', demoPath);
+        assert.strictEqual(studio.port, port);
+        assert.strictEqual(studio.managed, false);
+        await assert.rejects(restarted.stopForProject('demo', demoPath), /earlier server session/);
+        assert.strictEqual(supervisor.get('demo').status, 'ready');
+      } finally {
+        await supervisor.stop('demo');
+      }
+      assert.strictEqual(fs.existsSync(path.join(demoPath, STUDIO_RECORD_FILE)), false);
+      fs.rmSync(projectsDir, { recursive: true, force: true });
+    });
+
+    await test('allocates free ports and never takes over a port it did not start', async () => {
+      const supervisor = new StudioSupervisor();
+      const foreign = net.createServer();
+      await new Promise(resolve => foreign.listen(0, resolve));
+      const foreignPort = foreign.address().port;
+      const [first, second] = [await freePort(), await freePort()];
+      try {
+        assert.strictEqual(await supervisor.allocatePort([foreignPort, first]), first);
+        await assert.rejects(supervisor.start('demo', binDir, foreignPort, 20000), /in use by .*did not start/);
+        assert.strictEqual(foreign.listening, true);
+
+        await supervisor.start('demo', binDir, first, 20000);
+        assert.strictEqual(await supervisor.allocatePort([foreignPort, first, second]), second);
+        await assert.rejects(supervisor.start('other', binDir, first, 20000), /used by the studio for 'demo'/);
+        assert.strictEqual(supervisor.findByPort(first).project, 'demo');
+        await assert.rejects(supervisor.allocatePort([foreignPort, first]), /No free studio port/);
+      } finally {
+        await supervisor.stopAll();
+        foreign.close();
+      }
+    });
+
+    await test('kills a studio that ignores SIGTERM before reporting it stopped', async () => {
+      const supervisor = new StudioSupervisor(500);
+      const port = await freePort();
+      process.env.FAKE_STUDIO_IGNORE_TERM = '1';
+      let studio;
+      try {
+        studio = await supervisor.start('stuck', binDir, port, 20000);
+      } finally {
+        delete process.env.FAKE_STUDIO_IGNORE_TERM;
+      }
+      assert.strictEqual(await supervisor.stop('stuck'), true);
+      assert.strictEqual(supervisor.get('stuck').status, 'exited');
+      assert.throws(() => process.kill(studio.pid, 0), /ESRCH/);
+      assert.ok(supervisor.logs('stuck').some(line => line.text.includes('ignoring SIGTERM')));
+    });
+
+    await test('reports the output of a studio that exits while starting', async () => {
+      const supervisor = new StudioSupervisor();
+      process.env.FAKE_STUDIO_FAIL = '1';
+      try {
+        await assert.rejects(supervisor.start('broken', binDir, await freePort(), 20000), /exited with code 1[\s\S]*Cannot find module remotion/);
+      } finally {
+        delete process.env.FAKE_STUDIO_FAIL;
+      }
+      assert.strictEqual(supervisor.get('broken').status, 'failed');
+      assert.deepStrictEqual(supervisor.logs('broken').map(line => line.stream), ['stdout', 'stderr']);
+    });
+
+    fs.rmSync(binDir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
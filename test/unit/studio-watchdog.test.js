@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the studio watchdog
+ * A fake npx on PATH stands in for "remotion studio"; crashes are simulated by killing it
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const supervisorModule = path.join(__dirname, '..', '..', 'build', 'studio-supervisor.js');
+const watchdogModule = path.join(__dirname, '..', '..', 'build', 'studio-watchdog.js');
+
+console.log('🧪 Studio Watchdog Unit Tests\n');
+
+if (!fs.existsSync(watchdogModule)) {
+  console.log('❌ Studio watchdog not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+if (process.platform === 'win32') {
+  console.log('⚠️  Skipping on Windows (fake npx is a shebang script)');
+  process.exit(0);
+}
+
+const { StudioSupervisor } = require(supervisorModule);
+const { StudioWatchdog } = require(watchdogModule);
+
+const FAKE_STUDIO = `#!/usr/bin/env node
+const fs = require('fs');
+const http = require('http');
+const port = Number(process.argv[process.argv.indexOf('--port') + 1]);
+if (process.env.FAKE_STUDIO_FAIL) {
+  console.error('Error: JavaScript heap out of memory');
+  process.exit(1);
+}
+if (process.env.FAKE_STUDIO_HANG_FILE) {
+  process.on('SIGTERM', () => console.log('Still bundling, ignoring SIGTERM'));
+}
+http.createServer((req, res) => {
+  // Once the hang file exists the studio stays up but stops serving pages
+  res.statusCode = process.env.FAKE_STUDIO_HANG_FILE && fs.existsSync(process.env.FAKE_STUDIO_HANG_FILE) ? 500 : 200;
+  res.end('<html>remotion</html>');
+}).listen(port, () => {
+  console.log('Server ready - Local: http://localhost:' + port);
+});
+`;
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function crash(supervisor, project) {
+  process.kill(supervisor.get(project).pid, 'SIGKILL');
+  for (let i = 0; i < 100 && supervisor.get(project).status !== 'crashed'; i++) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  assert.strictEqual(supervisor.get(project).status, 'crashed');
+}
+
+(async () => {
+  const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-fake-npx-'));
+  fs.writeFileSync(path.join(binDir, 'npx'), FAKE_STUDIO, { mode: 0o755 });
+  process.env.PATH = `${binDir}${path.delimiter}${process.env.PATH}`;
+
+  await test('restarts a crashed studio and records the restart', async () => {
+    const supervisor = new StudioSupervisor();
+    const events = [];
+    const watchdog = new StudioWatchdog(supervisor, { backoffMs: 0 }, event => events.push(event));
+    const port = await freePort();
+    try {
+      const first = await supervisor.start('demo', binDir, port, 20000);
+      await watchdog.check();
+      assert.deepStrictEqual(events, []);
+
+      await crash(supervisor, 'demo');
+      await watchdog.check();
+      assert.strictEqual(watchdog.isRecovering('demo'), true);
+      await watchdog.check();
+
+      const restarted = supervisor.get('demo');
+      assert.strictEqual(restarted.status, 'ready');
+      assert.strictEqual(restarted.port, port);
+      assert.notStrictEqual(restarted.pid, first.pid);
+      assert.deepStrictEqual(events.map(event => event.level), ['warning', 'info']);
+      assert.match(events[0].message, /signal SIGKILL/);
+
+      const restarts = watchdog.restarts('demo');
+      assert.strictEqual(restarts.length, 1);
+      assert.strictEqual(restarts[0].success, true);
+      assert.ok(restarts[0].lastOutput.some(line => line.startsWith('Server ready')));
+    } finally {
+      await supervisor.stopAll();
+    }
+  });
+
+  await test('gives up after the attempt budget and reports it once', async () => {
+    const supervisor = new StudioSupervisor();
+    const events = [];
+    const watchdog = new StudioWatchdog(supervisor, { backoffMs: 0, maxAttempts: 2 }, event => events.push(event));
+    try {
+      await supervisor.start('broken', binDir, await freePort(), 20000);
+      await crash(supervisor, 'broken');
+      process.env.FAKE_STUDIO_FAIL = '1';
+      for (let pass = 0; pass < 5; pass++) {
+        await watchdog.check();
+      }
+    } finally {
+      delete process.env.FAKE_STUDIO_FAIL;
+      await supervisor.stopAll();
+    }
+    assert.deepStrictEqual(events.map(event => event.level), ['warning', 'warning', 'error']);
+    assert.match(events[2].message, /after 2 attempts/);
+    assert.deepStrictEqual(watchdog.restarts('broken').map(restart => restart.success), [false, false]);
+    assert.match(watchdog.restarts('broken')[1].error, /heap out of memory/);
+    assert.strictEqual(watchdog.isRecovering('broken'), false);
+  });
+
+  await test('kills a hung studio that ignores SIGTERM before restarting it on its port', async () => {
+    const supervisor = new StudioSupervisor(300);
+    const events = [];
+    const watchdog = new StudioWatchdog(supervisor, { backoffMs: 0, failedProbes: 1 }, event => events.push(event));
+    const port = await freePort();
+    const hangFile = path.join(binDir, 'hang');
+    process.env.FAKE_STUDIO_HANG_FILE = hangFile;
+    try {
+      const hung = await supervisor.start('demo', binDir, port, 20000);
+      delete process.env.FAKE_STUDIO_HANG_FILE;
+      fs.writeFileSync(hangFile, '');
+
+      await watchdog.check();
+      assert.throws(() => process.kill(hung.pid, 0), /ESRCH/);
+      assert.strictEqual(watchdog.isRecovering('demo'), true);
+      await watchdog.check();
+
+      const restarted = supervisor.get('demo');
+      assert.strictEqual(restarted.status, 'ready');
+      assert.strictEqual(restarted.port, port);
+      assert.notStrictEqual(restarted.pid, hung.pid);
+      assert.deepStrictEqual(events.map(event => event.level), ['warning', 'info']);
+      assert.match(events[0].message, /not answering/);
+    } finally {
+      delete process.env.FAKE_STUDIO_HANG_FILE;
+      await supervisor.stopAll();
+    }
+  });
+
+  await test('leaves studios stopped on purpose alone', async () => {
+    const supervisor = new StudioSupervisor();
+    const events = [];
+    const watchdog = new StudioWatchdog(supervisor, { backoffMs: 0 }, event => events.push(event));
+    await supervisor.start('demo', binDir, await freePort(), 20000);
+    await supervisor.stop('demo');
+    await watchdog.check();
+    await watchdog.check();
+    assert.deepStrictEqual(events, []);
+    assert.strictEqual(supervisor.get('demo').status, 'exited');
+  });
+
+  fs.rmSync(binDir, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
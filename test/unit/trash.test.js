@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the project trash
+ * Covers moving projects to the trash, restoring them, retention and emptying
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const trashModule = path.join(__dirname, '..', '..', 'build', 'trash.js');
+
+console.log('🧪 Trash Unit Tests\n');
+
+if (!fs.existsSync(trashModule)) {
+  console.log('❌ Trash not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the projects root must be set before loading the module
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-trash-'));
+const projectsDir = path.join(root, 'projects');
+process.env.ROUGHCUT_PROJECTS_DIR = projectsDir;
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+process.env.ROUGHCUT_TRASH_RETENTION_DAYS = '7';
+
+const { moveToTrash, listTrash, findTrashEntry, restoreFromTrash, emptyTrash, purgeExpiredTrash, getTrashDir, validateTrashReference } = require(trashModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  fs.rmSync(projectsDir, { recursive: true, force: true });
+  fs.mkdirSync(projectsDir, { recursive: true });
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = days => new Date(Math.floor(Date.now() / 1000) * 1000 - days * DAY_MS);
+const stamp = date => date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+
+function createProject(name, content = 'export default 1;\n') {
+  const projectPath = path.join(projectsDir, name);
+  fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+  fs.writeFileSync(path.join(projectPath, 'src', 'VideoComposition.tsx'), content);
+  return projectPath;
+}
+
+(async () => {
+  await test('moves a project to the trash and restores it', async () => {
+    const projectPath = createProject('demo');
+    const deletedAt = daysAgo(1);
+    const entry = await moveToTrash('demo', projectPath, deletedAt);
+    assert.strictEqual(entry.id, `demo-${stamp(deletedAt)}`);
+    assert.strictEqual(entry.expiresAt, new Date(deletedAt.getTime() + 7 * DAY_MS).toISOString());
+    assert.strictEqual(fs.existsSync(projectPath), false);
+    assert.ok(getTrashDir().startsWith(projectsDir));
+
+    const found = await findTrashEntry('demo');
+    assert.strictEqual(found.id, entry.id);
+    await restoreFromTrash(found, projectPath);
+    assert.strictEqual(fs.readFileSync(path.join(projectPath, 'src', 'VideoComposition.tsx'), 'utf-8'), 'export default 1;\n');
+    assert.deepStrictEqual(await listTrash(), []);
+  });
+
+  await test('keeps every deletion of a name and never restores over an existing project', async () => {
+    const deletedAt = daysAgo(1);
+    await moveToTrash('demo', createProject('demo', 'first\n'), deletedAt);
+    await moveToTrash('demo', createProject('demo', 'second\n'), deletedAt);
+    const entries = await listTrash();
+    assert.deepStrictEqual(entries.map(entry => entry.id).sort(), [`demo-${stamp(deletedAt)}`, `demo-${stamp(deletedAt)}-2`]);
+
+    createProject('demo', 'current\n');
+    const first = await findTrashEntry(`demo-${stamp(deletedAt)}`);
+    await assert.rejects(restoreFromTrash(first, path.join(projectsDir, 'demo')), /already exists/);
+    await restoreFromTrash(first, path.join(projectsDir, 'demo-old'));
+    assert.strictEqual(fs.readFileSync(path.join(projectsDir, 'demo-old', 'src', 'VideoComposition.tsx'), 'utf-8'), 'first\n');
+  });
+
+  await test('accepts trash ids of names up to the project name limit', async () => {
+    const name = 'a'.repeat(64);
+    const entry = await moveToTrash(name, createProject(name));
+    assert.strictEqual(entry.id.length, 64 + 17);
+    assert.doesNotThrow(() => validateTrashReference(entry.id));
+    assert.doesNotThrow(() => validateTrashReference(`${entry.id}-2`));
+    assert.doesNotThrow(() => validateTrashReference(name));
+    assert.strictEqual((await findTrashEntry(entry.id)).project, name);
+
+    assert.throws(() => validateTrashReference(`${'a'.repeat(65)}-20240101T000000Z`), /at most 64 characters/);
+    assert.throws(() => validateTrashReference('../demo-20240101T000000Z'), /not a path/);
+    assert.throws(() => validateTrashReference('a'.repeat(81)), /at most 64 characters/);
+  });
+
+  await test('purges entries past their retention date', async () => {
+    await moveToTrash('old', createProject('old'), daysAgo(8));
+    await moveToTrash('new', createProject('new'), daysAgo(3));
+    assert.deepStrictEqual((await purgeExpiredTrash()).map(entry => entry.project), ['old']);
+    assert.deepStrictEqual((await listTrash()).map(entry => entry.project), ['new']);
+  });
+
+  await test('empties one entry or the whole trash', async () => {
+    const a = await moveToTrash('a', createProject('a'));
+    await moveToTrash('b', createProject('b'));
+    assert.deepStrictEqual((await emptyTrash([a.id])).map(entry => entry.project), ['a']);
+    assert.deepStrictEqual((await emptyTrash()).map(entry => entry.project), ['b']);
+    assert.deepStrictEqual(fs.readdirSync(getTrashDir()), []);
+  });
+
+  fs.rmSync(root, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for in-memory project type checking
+ * Uses a project with stub remotion typings and the server's own TypeScript; covers the block and warn modes of edit-video-jsx
+ * and that errors the project already had never block an edit
+ * Requires a build: npm run build:dev
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const typeCheckerModule = path.join(__dirname, '..', '..', 'build', 'utils', 'type-checker.js');
+const toolsModule = path.join(__dirname, '..', '..', 'build', 'tools.js');
+
+console.log('🧪 Type Checker Unit Tests\n');
+
+if (!fs.existsSync(typeCheckerModule) || !fs.existsSync(toolsModule)) {
+  console.log('❌ Type checker not built - run npm run build:dev first');
+  process.exit(1);
+}
+
+// Settings are resolved once, so the projects root must be set before loading the modules
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'roughcut-type-check-'));
+const projectsDir = path.join(root, 'projects');
+process.env.ROUGHCUT_PROJECTS_DIR = projectsDir;
+process.env.ROUGHCUT_CONFIG_FILE = path.join(root, 'rough-cut.config.json');
+
+const { typeCheckProjectFile, formatTypeDiagnostics } = require(typeCheckerModule);
+const { handleToolCall } = require(toolsModule);
+
+let passed = 0;
+let failed = 0;
+
+async function test(name, fn) {
+  try {
+    await fn();
+    console.log(`   ✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`   ❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
+const ORIGINAL = `import { useCurrentFrame } from 'remotion';
+
+export const frame: number = useCurrentFrame();
+export default frame;
+`;
+
+const TYPE_ERROR = `import { useCurrentFrame } from 'remotion';
+
+export const frame: string = useCurrentFrame();
+export default frame;
+`;
+
+const componentFile = project => path.join(projectsDir, project, 'src', 'VideoComposition.tsx');
+
+function createProject(name, { installed = true } = {}) {
+  const projectPath = path.join(projectsDir, name);
+  fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+  fs.writeFileSync(componentFile(name), ORIGINAL);
+  fs.writeFileSync(path.join(projectPath, 'tsconfig.json'), JSON.stringify({
+    compilerOptions: { strict: true, jsx: 'preserve', noEmit: true, skipLibCheck: true },
+    include: ['src']
+  }));
+  if (installed) {
+    const remotionDir = path.join(projectPath, 'node_modules', 'remotion');
+    fs.mkdirSync(remotionDir, { recursive: true });
+    fs.writeFileSync(path.join(remotionDir, 'package.json'), JSON.stringify({ name: 'remotion', version: '4.0.0', types: 'index.d.ts' }));
+    fs.writeFileSync(path.join(remotionDir, 'index.d.ts'), 'export declare function useCurrentFrame(): number;\n');
+  }
+  return projectPath;
+}
+
+const text = result => result.content[0].text;
+
+(async () => {
+  await test('skips projects without installed dependencies', async () => {
+    const projectPath = createProject('bare', { installed: false });
+    const result = await typeCheckProjectFile(projectPath, 'src/VideoComposition.tsx', TYPE_ERROR);
+    assert.strictEqual(result.ran, false);
+    assert.match(result.skippedReason, /install-dependencies/);
+    assert.deepStrictEqual(result.diagnostics, []);
+  });
+
+  await test('reports type errors in the new content without writing it', async () => {
+    const projectPath = createProject('check');
+    const clean = await typeCheckProjectFile(projectPath, 'src/VideoComposition.tsx', ORIGINAL);
+    assert.deepStrictEqual(clean, { ran: true, diagnostics: [], existing: [] });
+
+    const result = await typeCheckProjectFile(projectPath, 'src/VideoComposition.tsx', TYPE_ERROR);
+    assert.strictEqual(result.ran, true);
+    assert.strictEqual(result.diagnostics.length, 1);
+    const [diagnostic] = result.diagnostics;
+    assert.deepStrictEqual([diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.code], ['src/VideoComposition.tsx', 3, 14, 2322]);
+    assert.match(formatTypeDiagnostics(result.diagnostics), /^src\/VideoComposition\.tsx:3:14 - TS2322: Type 'number' is not assignable to type 'string'/);
+    assert.strictEqual(fs.readFileSync(componentFile('check'), 'utf-8'), ORIGINAL);
+  });
+
+  await test('block mode rejects an edit with type errors and leaves the file alone', async () => {
+    createProject('blocked');
+    const result = await handleToolCall('edit-video-jsx', { project: 'blocked', jsx: TYPE_ERROR, typeCheck: 'block' });
+    assert.match(text(result), /^❌ Failed to edit video: 1 type error\(s\) - nothing was written/);
+    assert.match(text(result), /src\/VideoComposition\.tsx:3:14 - TS2322/);
+    assert.strictEqual(fs.readFileSync(componentFile('blocked'), 'utf-8'), ORIGINAL);
+  });
+
+  await test('block mode writes an edit that type-checks', async () => {
+    createProject('clean');
+    const edited = ORIGINAL.replace('export default frame;', 'export default frame + 1;');
+    const result = await handleToolCall('edit-video-jsx', { project: 'clean', jsx: edited, typeCheck: 'block' });
+    assert.match(text(result), /^✅ Updated clean/);
+    assert.ok(!text(result).includes('Type errors'));
+    assert.strictEqual(fs.readFileSync(componentFile('clean'), 'utf-8'), edited);
+  });
+
+  await test('block mode ignores errors the project already had in other files', async () => {
+    const projectPath = createProject('legacy');
+    fs.writeFileSync(path.join(projectPath, 'src', 'Root.tsx'), `export const broken: number = 'text';\n`);
+
+    const check = await typeCheckProjectFile(projectPath, 'src/VideoComposition.tsx', TYPE_ERROR);
+    assert.deepStrictEqual(check.diagnostics.map(diagnostic => diagnostic.file), ['src/VideoComposition.tsx']);
+    assert.deepStrictEqual(check.existing.map(diagnostic => [diagnostic.file, diagnostic.code]), [['src/Root.tsx', 2322]]);
+
+    const edited = ORIGINAL.replace('export default frame;', 'export default frame + 1;');
+    const result = await handleToolCall('edit-video-jsx', { project: 'legacy', jsx: edited, typeCheck: 'block' });
+    assert.match(text(result), /^✅ Updated legacy/);
+    assert.match(text(result), /Type check: passed\n\n⚠️ Existing type errors, not caused by this change \(1\):\nsrc\/Root\.tsx:1:14 - TS2322/);
+    assert.strictEqual(fs.readFileSync(componentFile('legacy'), 'utf-8'), edited);
+
+    const blocked = await handleToolCall('edit-video-jsx', { project: 'legacy', jsx: TYPE_ERROR, typeCheck: 'block' });
+    assert.match(text(blocked), /^❌ Failed to edit video: 1 type error\(s\) - nothing was written\n\nsrc\/VideoComposition\.tsx:3:14 - TS2322/);
+    assert.match(text(blocked), /Existing type errors, not caused by this change \(1\)/);
+  });
+
+  await test('block mode rejects an edit that breaks another file', async () => {
+    const projectPath = createProject('dependent');
+    fs.writeFileSync(path.join(projectPath, 'src', 'uses.ts'), `import { frame } from './VideoComposition';\nexport const doubled: number = frame * 2;\n`);
+    const withoutExport = ORIGINAL.replace('export const frame', 'const frame');
+    const result = await handleToolCall('edit-video-jsx', { project: 'dependent', jsx: withoutExport, typeCheck: 'block' });
+    assert.match(text(result), /^❌ Failed to edit video: 1 type error\(s\) - nothing was written\n\nsrc\/uses\.ts:1:10 - TS2614/);
+    assert.strictEqual(fs.readFileSync(componentFile('dependent'), 'utf-8'), ORIGINAL);
+  });
+
+  await test('warn mode writes the edit and lists the type errors', async () => {
+    createProject('warned');
+    const result = await handleToolCall('edit-video-jsx', { project: 'warned', jsx: TYPE_ERROR, typeCheck: 'warn' });
+    assert.match(text(result), /^✅ Updated warned/);
+    assert.match(text(result), /⚠️ Type errors \(1\):\nsrc\/VideoComposition\.tsx:3:14 - TS2322/);
+    assert.strictEqual(fs.readFileSync(componentFile('warned'), 'utf-8'), TYPE_ERROR);
+  });
+
+  fs.rmSync(root, { recursive: true, force: true });
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  process.exit(failed === 0 ? 0 : 1);
+})();